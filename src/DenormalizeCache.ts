@@ -0,0 +1,208 @@
+import type { EntitySchemaInterface, GetEntityFn, IdType } from './types.js';
+
+/**
+ * A read from the entities store made while denormalizing an entity.
+ */
+interface Dependency {
+  schema: EntitySchemaInterface;
+  id: IdType;
+  entity: unknown;
+}
+
+/**
+ * A denormalized entity together with every store read it was built from.
+ */
+interface CacheEntry {
+  value: unknown;
+  dependencies: Dependency[];
+}
+
+/**
+ * An entity that is currently being denormalized.
+ */
+interface Frame {
+  key: string;
+  schema: EntitySchemaInterface;
+  entity: object;
+  dependencies: Map<string, Dependency>;
+  /** Index of the outermost in-progress frame this frame forms a cycle with. */
+  cycleRoot: number;
+  /** Cycle members whose results are stored once this frame completes. */
+  pending: Array<{ key: string; schema: EntitySchemaInterface; entity: object; value: unknown }>;
+}
+
+/**
+ * Cache of denormalized entities that can be shared across `denormalize()` calls.
+ *
+ * Results are keyed on the identity of the entity objects in the store (using
+ * `WeakMap`, so entities that are dropped from the store can be garbage
+ * collected). A cached result is reused only when the entity and every entity
+ * it transitively references are still the same objects in the store, so an
+ * immutable store update invalidates exactly the results that depend on it.
+ *
+ * @example
+ * ```typescript
+ * const cache = new DenormalizeCache();
+ *
+ * const first = denormalize('123', article, entities, { cache });
+ * const second = denormalize('123', article, entities, { cache });
+ * first === second; // true
+ * ```
+ */
+export class DenormalizeCache {
+  private _entries = new WeakMap<EntitySchemaInterface, WeakMap<object, CacheEntry>>();
+
+  /**
+   * Get the cached result for an entity if none of its dependencies changed.
+   *
+   * @internal
+   */
+  lookup(schema: EntitySchemaInterface, entity: object, getEntity: GetEntityFn): CacheEntry | undefined {
+    const entry = this._entries.get(schema)?.get(entity);
+    if (!entry) {
+      return undefined;
+    }
+    const isFresh = entry.dependencies.every(
+      (dependency) => getEntity(dependency.id, dependency.schema) === dependency.entity,
+    );
+    return isFresh ? entry : undefined;
+  }
+
+  /**
+   * Store the result for an entity.
+   *
+   * @internal
+   */
+  store(schema: EntitySchemaInterface, entity: object, entry: CacheEntry): void {
+    let schemaEntries = this._entries.get(schema);
+    if (!schemaEntries) {
+      schemaEntries = new WeakMap();
+      this._entries.set(schema, schemaEntries);
+    }
+    schemaEntries.set(entity, entry);
+  }
+
+  /**
+   * Forget all cached results.
+   */
+  clear(): void {
+    this._entries = new WeakMap();
+  }
+}
+
+/**
+ * Records the store reads made during a single `denormalize()` call, so that
+ * results can be stored in a `DenormalizeCache` with their dependencies.
+ *
+ * Entities that form a cycle are stored together once the outermost entity of
+ * the cycle completes, because each of them is only complete at that point.
+ *
+ * @internal
+ */
+export class DependencyTracker {
+  private _cache: DenormalizeCache;
+  private _getEntity: GetEntityFn;
+  private _frames: Frame[] = [];
+  private _frameIndex = new Map<string, number>();
+  private _completed = new Map<string, { dependencies: Dependency[]; root?: string }>();
+
+  constructor(cache: DenormalizeCache, getEntity: GetEntityFn) {
+    this._cache = cache;
+    this._getEntity = getEntity;
+  }
+
+  /**
+   * Record a read from the store on behalf of every in-progress entity.
+   */
+  read(schema: EntitySchemaInterface, id: IdType, entity: unknown): void {
+    this._addDependencies([{ schema, id, entity }]);
+  }
+
+  /**
+   * Return the cached result for an entity, recording its dependencies.
+   */
+  lookup(key: string, schema: EntitySchemaInterface, entity: object): CacheEntry | undefined {
+    const entry = this._cache.lookup(schema, entity, this._getEntity);
+    if (entry) {
+      this._addDependencies(entry.dependencies);
+      this._completed.set(key, { dependencies: entry.dependencies });
+    }
+    return entry;
+  }
+
+  /**
+   * Start denormalizing an entity.
+   */
+  enter(key: string, schema: EntitySchemaInterface, id: IdType, entity: object): void {
+    this._frameIndex.set(key, this._frames.length);
+    this._frames.push({
+      key,
+      schema,
+      entity,
+      dependencies: new Map([[key, { schema, id, entity }]]),
+      cycleRoot: Infinity,
+      pending: [],
+    });
+  }
+
+  /**
+   * Finish denormalizing the innermost in-progress entity.
+   */
+  exit(value: unknown): void {
+    const frame = this._frames.pop()!;
+    const index = this._frames.length;
+    this._frameIndex.delete(frame.key);
+    const dependencies = [...frame.dependencies.values()];
+    const members = [{ key: frame.key, schema: frame.schema, entity: frame.entity, value }, ...frame.pending];
+
+    if (frame.cycleRoot < index) {
+      // Part of a cycle that is still in progress: defer to the root of the cycle
+      const root = this._frames[frame.cycleRoot];
+      root.pending.push(...members);
+      this._completed.set(frame.key, { dependencies, root: root.key });
+      return;
+    }
+
+    members.forEach((member) => {
+      this._cache.store(member.schema, member.entity, { value: member.value, dependencies });
+      this._completed.set(member.key, { dependencies });
+    });
+  }
+
+  /**
+   * Record a reference to an entity that is still being denormalized.
+   */
+  hitInProgress(key: string): void {
+    this._markCycle(this._frameIndex.get(key)!);
+  }
+
+  /**
+   * Record a reference to an entity that was already denormalized in this call.
+   */
+  hitCompleted(key: string): void {
+    const completed = this._completed.get(key);
+    if (!completed) {
+      return;
+    }
+    this._addDependencies(completed.dependencies);
+    if (completed.root !== undefined && this._frameIndex.has(completed.root)) {
+      this._markCycle(this._frameIndex.get(completed.root)!);
+    }
+  }
+
+  private _markCycle(rootIndex: number): void {
+    for (let i = rootIndex + 1; i < this._frames.length; i++) {
+      this._frames[i].cycleRoot = Math.min(this._frames[i].cycleRoot, rootIndex);
+    }
+  }
+
+  private _addDependencies(dependencies: Dependency[]): void {
+    this._frames.forEach((frame) => {
+      dependencies.forEach((dependency) => {
+        frame.dependencies.set(`${dependency.schema.key}:${dependency.id}`, dependency);
+      });
+    });
+  }
+}
+
+export default DenormalizeCache;
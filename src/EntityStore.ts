@@ -0,0 +1,389 @@
+import EntitySchema from './schemas/Entity.js';
+import { addEntities } from './normalize.js';
+import { denormalize } from './denormalize.js';
+import { replaceId } from './replaceId.js';
+import { collectEntitySchemas } from './utils/collectEntitySchemas.js';
+import { hasOwn } from './utils/hasOwn.js';
+import { isInvalidated } from './utils/invalidated.js';
+import type { Invalidated } from './utils/invalidated.js';
+import type {
+  Schema,
+  EntitiesMap,
+  IdType,
+  DenormalizeOptions,
+  Denormalized,
+  Normalized,
+  NormalizedSchema,
+  EntityData,
+} from './types.js';
+
+/**
+ * Entities applied on top of the store until they are committed or rolled back.
+ */
+interface OptimisticLayer {
+  id: string;
+  entities: EntitiesMap;
+}
+
+/**
+ * Get the entity schema for an entity key, or a default one for unknown keys.
+ */
+function getSchema(registry: Record<string, EntitySchema>, key: string): EntitySchema {
+  return hasOwn(registry, key) ? registry[key] : new EntitySchema(key);
+}
+
+/**
+ * Read an entity from an entities map without going through a schema.
+ */
+function readEntity(entities: EntitiesMap, key: string, id: string): unknown {
+  return hasOwn(entities, key) && hasOwn(entities[key], id) ? entities[key][id] : undefined;
+}
+
+/**
+ * Merge entities into an entities map (never mutated) with the merge strategy
+ * of their schema. Entities that are already in the map are kept as is.
+ */
+function mergeEntities(registry: Record<string, EntitySchema>, target: EntitiesMap, source: EntitiesMap): EntitiesMap {
+  const entities: EntitiesMap = { ...target };
+  const addEntity = addEntities(entities);
+
+  Object.keys(source).forEach((key) => {
+    const schema = getSchema(registry, key);
+    const table = source[key];
+
+    Object.keys(table).forEach((id) => {
+      // Entities that are already in the store (e.g. from `normalizeInto`) are kept as is
+      if (readEntity(target, key, id) === table[id]) {
+        return;
+      }
+      // Cast justified: entities store contains Record<string, unknown> values or tombstones
+      addEntity(schema, table[id] as Record<string, unknown> | Invalidated, table[id], undefined, undefined, id);
+    });
+  });
+
+  return entities;
+}
+
+/**
+ * Apply optimistic layers on top of the base entities.
+ *
+ * Only entities written by a layer are resolved. When `previous` has the same
+ * layers, entities whose base entity didn't change keep their resolved object.
+ */
+function applyLayers(
+  registry: Record<string, EntitySchema>,
+  base: EntitiesMap,
+  layers: readonly OptimisticLayer[],
+  previous?: { base: EntitiesMap; entities: EntitiesMap },
+): EntitiesMap {
+  if (layers.length === 0) {
+    return base;
+  }
+
+  const entities: EntitiesMap = { ...base };
+  const layeredIds: Record<string, Set<string>> = {};
+  layers.forEach((layer) =>
+    Object.keys(layer.entities).forEach((key) => {
+      layeredIds[key] = layeredIds[key] ?? new Set();
+      Object.keys(layer.entities[key]).forEach((id) => layeredIds[key].add(id));
+    }),
+  );
+
+  Object.keys(layeredIds).forEach((key) => {
+    const schema = getSchema(registry, key);
+    const table = hasOwn(base, key) ? { ...base[key] } : {};
+
+    layeredIds[key].forEach((id) => {
+      if (previous && readEntity(previous.base, key, id) === readEntity(base, key, id)) {
+        table[id] = previous.entities[key][id];
+        return;
+      }
+      table[id] = layers.reduce<unknown>(
+        (entity, layer) => {
+          const layerEntity = readEntity(layer.entities, key, id);
+          if (layerEntity === undefined) {
+            return entity;
+          }
+          // Tombstones replace the entity, and an entity written again replaces its tombstone
+          return entity === undefined || isInvalidated(entity) || isInvalidated(layerEntity)
+            ? layerEntity
+            : // Cast justified: entities store contains Record<string, unknown> values
+              schema.merge(entity as Record<string, unknown>, layerEntity as Record<string, unknown>);
+        },
+        readEntity(base, key, id),
+      );
+    });
+
+    entities[key] = table;
+  });
+
+  return entities;
+}
+
+/**
+ * An immutable entities store with helpers to read and update entities.
+ *
+ * The store wraps an `EntitiesMap` together with the entity schemas found in
+ * the schemas it was created with, which provide the merge strategies used
+ * when ingesting entities. Every update returns a new store and leaves the
+ * current one untouched; entity tables and entities that didn't change are
+ * shared between snapshots, so results cached with a `DenormalizeCache` stay
+ * valid.
+ *
+ * Optimistic updates are kept in layers on top of the store's entities: reads
+ * resolve through the layers until they are committed or rolled back.
+ *
+ * @example
+ * ```typescript
+ * const user = new schema.Entity('users');
+ * const article = new schema.Entity('articles', { author: user });
+ *
+ * let store = new EntityStore([article]);
+ * store = store.ingest(normalize(response, [article]));
+ * store = store.upsert(user, { id: '1', name: 'Ada' });
+ *
+ * store.get(user, '1'); // { id: '1', name: 'Ada' }
+ * store.denormalize('123', article); // { id: '123', author: { id: '1', name: 'Ada' } }
+ * ```
+ *
+ * @example Optimistic updates
+ * ```typescript
+ * store = store.applyOptimistic('rename-1', normalize({ id: '1', name: 'Ada L.' }, user));
+ * store.get(user, '1'); // { id: '1', name: 'Ada L.' }
+ *
+ * // When the request fails
+ * store = store.rollback('rename-1');
+ * store.get(user, '1'); // { id: '1', name: 'Ada' }
+ * ```
+ */
+export class EntityStore {
+  private _schemas: Schema | readonly Schema[];
+  private _registry: Record<string, EntitySchema>;
+  private _base: EntitiesMap;
+  private _layers: readonly OptimisticLayer[] = [];
+  private _entities: EntitiesMap;
+
+  /**
+   * Create a new entity store.
+   *
+   * @param schemas - The schemas of the data kept in the store, used to find entity schemas by key
+   * @param entities - The initial entities (never mutated)
+   */
+  constructor(schemas: Schema | readonly Schema[], entities: EntitiesMap = {}) {
+    this._schemas = schemas;
+    this._registry = collectEntitySchemas(schemas);
+    this._base = entities;
+    this._entities = entities;
+  }
+
+  /**
+   * Create a store for schemas whose entity schemas were already collected.
+   */
+  private static _withRegistry(
+    schemas: Schema | readonly Schema[],
+    registry: Record<string, EntitySchema>,
+    entities: EntitiesMap,
+  ): EntityStore {
+    // Created without schemas, so that they are not collected again
+    const store = new EntityStore([], entities);
+    store._schemas = schemas;
+    store._registry = registry;
+    return store;
+  }
+
+  /**
+   * The entities in this snapshot of the store, with optimistic layers applied.
+   */
+  get entities(): EntitiesMap {
+    return this._entities;
+  }
+
+  /**
+   * Get an entity by ID.
+   *
+   * @param schema - The entity schema
+   * @param id - The ID of the entity
+   * @returns The normalized entity, or undefined if it is missing or was invalidated
+   */
+  get<S extends EntitySchema>(schema: S, id: IdType): EntityData<S> | undefined {
+    const entity = readEntity(this._entities, schema.key, String(id));
+    // Cast justified: the entity table of a schema holds that schema's entities
+    return isInvalidated(entity) ? undefined : (entity as EntityData<S> | undefined);
+  }
+
+  /**
+   * Get several entities by ID.
+   *
+   * @param schema - The entity schema
+   * @param ids - The IDs of the entities
+   * @returns The entities in the order of `ids`, with undefined for missing entities
+   */
+  getMany<S extends EntitySchema>(schema: S, ids: readonly IdType[]): Array<EntityData<S> | undefined> {
+    return ids.map((id) => this.get(schema, id));
+  }
+
+  /**
+   * Get every entity of a schema.
+   *
+   * @param schema - The entity schema
+   * @returns The entities, leaving out invalidated ones
+   */
+  all<S extends EntitySchema>(schema: S): Array<EntityData<S>> {
+    const table = hasOwn(this._entities, schema.key) ? this._entities[schema.key] : {};
+    // Cast justified: the entity table of a schema holds that schema's entities
+    return Object.values(table).filter((entity) => !isInvalidated(entity)) as Array<EntityData<S>>;
+  }
+
+  /**
+   * Add a normalized entity, merging it into the existing entity with the same
+   * ID using the schema's merge strategy.
+   *
+   * @param schema - The entity schema
+   * @param entity - The normalized entity
+   * @returns The updated store
+   * @throws MissingIdError if the entity has no ID and the schema's `missingIdStrategy` is `'throw'`
+   */
+  upsert<S extends EntitySchema>(schema: S, entity: EntityData<S>): EntityStore {
+    const id = schema.resolveId(entity, undefined, undefined);
+    if (id === undefined) {
+      return this;
+    }
+    const entities: EntitiesMap = { ...this._base };
+    // Cast justified: normalized entities are plain objects
+    addEntities(entities)(schema, entity as Record<string, unknown>, entity, undefined, undefined, id);
+    return this._snapshot(entities, this._layers);
+  }
+
+  /**
+   * Remove an entity from the store. Optimistic layers are not changed.
+   *
+   * @param schema - The entity schema
+   * @param id - The ID of the entity
+   * @returns The updated store, or this store if the entity isn't in it
+   */
+  remove(schema: EntitySchema, id: IdType): EntityStore {
+    if (!hasOwn(this._base, schema.key) || !hasOwn(this._base[schema.key], id)) {
+      return this;
+    }
+    const table = { ...this._base[schema.key] };
+    delete table[id];
+    return this._snapshot({ ...this._base, [schema.key]: table }, this._layers);
+  }
+
+  /**
+   * Add the entities of a normalize result, merging them into existing
+   * entities with the merge strategy of their schema. Tables without a known
+   * schema are merged shallowly. Invalidated entities replace existing ones.
+   *
+   * @param normalized - The output of `normalize()` (or any object with `entities`)
+   * @returns The updated store
+   */
+  ingest(normalized: Pick<NormalizedSchema, 'entities'>): EntityStore {
+    return this._snapshot(mergeEntities(this._registry, this._base, normalized.entities), this._layers);
+  }
+
+  /**
+   * Replace the ID of an entity and every reference to it, in the store and
+   * in optimistic layers. See `replaceId()`.
+   *
+   * @param schema - The entity schema
+   * @param oldId - The current ID of the entity
+   * @param newId - The new ID of the entity
+   * @returns The updated store
+   */
+  replaceId(schema: EntitySchema, oldId: IdType, newId: IdType): EntityStore {
+    const replace = (entities: EntitiesMap): EntitiesMap => replaceId(entities, schema, oldId, newId, this._schemas);
+    return this._snapshot(
+      replace(this._base),
+      this._layers.map((layer) => ({ id: layer.id, entities: replace(layer.entities) })),
+    );
+  }
+
+  /**
+   * Apply an optimistic update in a layer on top of the store. Reads resolve
+   * through the layers in the order they were applied, merging entities with
+   * the merge strategy of their schema. Updates to the store are made below
+   * the layers, so the layers stay on top of newer data.
+   *
+   * Applying a layer with the ID of an existing layer replaces its entities.
+   *
+   * @param id - The ID of the layer, used to commit or roll it back
+   * @param normalized - The output of `normalize()` for the guessed result
+   * @returns The updated store
+   */
+  applyOptimistic(id: string, normalized: Pick<NormalizedSchema, 'entities'>): EntityStore {
+    const layer: OptimisticLayer = { id, entities: normalized.entities };
+    const layers = this._layers.some((existing) => existing.id === id)
+      ? this._layers.map((existing) => (existing.id === id ? layer : existing))
+      : [...this._layers, layer];
+    return this._snapshot(this._base, layers);
+  }
+
+  /**
+   * Fold an optimistic layer into the store, merging its entities with the
+   * merge strategy of their schema as `ingest` does. Like other updates, the
+   * committed entities go below the layers that are still pending.
+   *
+   * @param id - The ID of the layer
+   * @returns The updated store, or this store if there is no such layer
+   */
+  commit(id: string): EntityStore {
+    const layer = this._layers.find((existing) => existing.id === id);
+    if (!layer) {
+      return this;
+    }
+    return this._snapshot(
+      mergeEntities(this._registry, this._base, layer.entities),
+      this._layers.filter((existing) => existing !== layer),
+    );
+  }
+
+  /**
+   * Discard an optimistic layer.
+   *
+   * @param id - The ID of the layer
+   * @returns The updated store, or this store if there is no such layer
+   */
+  rollback(id: string): EntityStore {
+    if (!this._layers.some((existing) => existing.id === id)) {
+      return this;
+    }
+    return this._snapshot(
+      this._base,
+      this._layers.filter((existing) => existing.id !== id),
+    );
+  }
+
+  /**
+   * Denormalize a result with the entities of this store.
+   *
+   * @param result - The normalized result (usually IDs or ID references)
+   * @param schema - The schema describing the data structure
+   * @param options - Options passed on to `denormalize()`
+   * @returns The denormalized data, or undefined if the root entity is missing or was invalidated
+   */
+  denormalize<S extends Schema>(
+    result: Normalized<S>,
+    schema: S,
+    options?: DenormalizeOptions,
+  ): Denormalized<S> | undefined {
+    return denormalize(result, schema, this._entities, options);
+  }
+
+  /**
+   * Create a new snapshot from base entities and optimistic layers.
+   */
+  private _snapshot(base: EntitiesMap, layers: readonly OptimisticLayer[]): EntityStore {
+    const store = EntityStore._withRegistry(this._schemas, this._registry, base);
+    store._layers = layers;
+    store._entities = applyLayers(
+      this._registry,
+      base,
+      layers,
+      layers === this._layers ? { base: this._base, entities: this._entities } : undefined,
+    );
+    return store;
+  }
+}
+
+export default EntityStore;
@@ -0,0 +1,209 @@
+import EntityStore from './EntityStore.js';
+import EntitySchema from './schemas/Entity.js';
+import { DenormalizeCache } from './DenormalizeCache.js';
+import { createEagerUnvisit } from './denormalize.js';
+import { hasOwn } from './utils/hasOwn.js';
+import { isInvalidated } from './utils/invalidated.js';
+import type {
+  Schema,
+  EntitiesMap,
+  IdType,
+  CreateUnvisitFn,
+  Denormalized,
+  Normalized,
+  NormalizedSchema,
+  EntityData,
+} from './types.js';
+
+/**
+ * The entity IDs a subscription depends on, by entity key.
+ */
+type Dependencies = Map<string, Set<string>>;
+
+/**
+ * A subscription, notified when one of its dependencies is written.
+ */
+interface Watcher {
+  dependencies: Dependencies;
+  notify(entities: EntitiesMap): void;
+}
+
+/**
+ * Read an entity from an entities map without going through a schema.
+ */
+function readEntity(entities: EntitiesMap, key: string, id: string): unknown {
+  return hasOwn(entities, key) && hasOwn(entities[key], id) ? entities[key][id] : undefined;
+}
+
+/**
+ * Check if any of the dependencies were written between two entities maps.
+ * Stores are immutable, so a written entity is a different object.
+ */
+function hasChanged(dependencies: Dependencies, previous: EntitiesMap, next: EntitiesMap): boolean {
+  return Array.from(dependencies).some(
+    ([key, ids]) =>
+      previous[key] !== next[key] &&
+      Array.from(ids).some((id) => readEntity(previous, key, id) !== readEntity(next, key, id)),
+  );
+}
+
+/**
+ * A mutable holder for the current `EntityStore` snapshot that notifies
+ * subscribers when the entities they depend on are written.
+ *
+ * `subscribe` watches a single entity. `subscribeToDenormalized` watches
+ * every entity read while denormalizing a result, and denormalizes again
+ * when one of them is written, so that UI components only re-render when
+ * the data they display changes.
+ *
+ * @example
+ * ```typescript
+ * const store = new ObservableStore(new EntityStore([article]));
+ *
+ * const unsubscribe = store.subscribeToDenormalized('123', article, (value) => render(value));
+ * store.ingest(normalize(response, article)); // render is called if article 123 or its author changed
+ * unsubscribe();
+ * ```
+ */
+export class ObservableStore {
+  private _store: EntityStore;
+  private _watchers = new Set<Watcher>();
+
+  /**
+   * Create a new observable store.
+   *
+   * @param store - The initial snapshot
+   */
+  constructor(store: EntityStore) {
+    this._store = store;
+  }
+
+  /**
+   * Get the current snapshot of the store.
+   */
+  getSnapshot(): EntityStore {
+    return this._store;
+  }
+
+  /**
+   * Replace the current snapshot with the result of `updater`, notifying the
+   * subscribers whose entities were written.
+   *
+   * @param updater - Function returning the next snapshot from the current one
+   */
+  update(updater: (store: EntityStore) => EntityStore): void {
+    const previous = this._store;
+    const next = updater(previous);
+    if (next === previous) {
+      return;
+    }
+    this._store = next;
+
+    // Copy the watchers, so that listeners can subscribe and unsubscribe while being notified
+    Array.from(this._watchers).forEach((watcher) => {
+      if (this._watchers.has(watcher) && hasChanged(watcher.dependencies, previous.entities, next.entities)) {
+        watcher.notify(next.entities);
+      }
+    });
+  }
+
+  /**
+   * Add the entities of a normalize result. See `EntityStore#ingest`.
+   */
+  ingest(normalized: Pick<NormalizedSchema, 'entities'>): void {
+    this.update((store) => store.ingest(normalized));
+  }
+
+  /**
+   * Add a normalized entity. See `EntityStore#upsert`.
+   */
+  upsert<S extends EntitySchema>(schema: S, entity: EntityData<S>): void {
+    this.update((store) => store.upsert(schema, entity));
+  }
+
+  /**
+   * Remove an entity. See `EntityStore#remove`.
+   */
+  remove(schema: EntitySchema, id: IdType): void {
+    this.update((store) => store.remove(schema, id));
+  }
+
+  /**
+   * Listen to writes to a single entity.
+   *
+   * @param schemaKey - The key of the entity schema
+   * @param id - The ID of the entity
+   * @param listener - Called with the new entity (undefined if it was removed or invalidated)
+   * @returns A function that removes the subscription
+   */
+  subscribe(schemaKey: string, id: IdType, listener: (entity: unknown) => void): () => void {
+    const key = String(id);
+    return this._watch({
+      dependencies: new Map([[schemaKey, new Set([key])]]),
+      notify: (entities) => {
+        const entity = readEntity(entities, schemaKey, key);
+        listener(isInvalidated(entity) ? undefined : entity);
+      },
+    });
+  }
+
+  /**
+   * Listen to changes of a denormalized result.
+   *
+   * The entities read while denormalizing the result are tracked, and the
+   * listener is called with the result denormalized again when any of them
+   * is written. Dependencies are tracked again each time, so entities that
+   * become referenced later are watched too. Parts of the result that didn't
+   * change keep their identity between calls.
+   *
+   * @param result - The normalized result (usually IDs or ID references)
+   * @param schema - The schema describing the data structure
+   * @param listener - Called with the denormalized result
+   * @returns A function that removes the subscription
+   */
+  subscribeToDenormalized<S extends Schema>(
+    result: Normalized<S>,
+    schema: S,
+    listener: (value: Denormalized<S> | undefined) => void,
+  ): () => void {
+    const cache = new DenormalizeCache();
+
+    const denormalizeTracked = (store: EntityStore): Denormalized<S> | undefined => {
+      const dependencies: Dependencies = new Map();
+      const createUnvisit: CreateUnvisitFn = (entities, getEntity) =>
+        createEagerUnvisit(cache)(entities, (entityOrId, entitySchema) => {
+          if (typeof entityOrId !== 'object') {
+            if (!dependencies.has(entitySchema.key)) {
+              dependencies.set(entitySchema.key, new Set());
+            }
+            dependencies.get(entitySchema.key)!.add(String(entityOrId));
+          }
+          return getEntity(entityOrId, entitySchema);
+        });
+
+      const value = store.denormalize(result, schema, { createUnvisit });
+      watcher.dependencies = dependencies;
+      return value;
+    };
+
+    const watcher: Watcher = {
+      dependencies: new Map(),
+      notify: () => listener(denormalizeTracked(this._store)),
+    };
+    denormalizeTracked(this._store);
+
+    return this._watch(watcher);
+  }
+
+  /**
+   * Add a watcher, returning the function that removes it.
+   */
+  private _watch(watcher: Watcher): () => void {
+    this._watchers.add(watcher);
+    return () => {
+      this._watchers.delete(watcher);
+    };
+  }
+}
+
+export default ObservableStore;
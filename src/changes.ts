@@ -0,0 +1,99 @@
+import { hasOwn } from './utils/hasOwn.js';
+import { isEqual } from './utils/isEqual.js';
+import { isInvalidated } from './utils/invalidated.js';
+import type { EntitiesMap, EntityChanges, IdType } from './types.js';
+
+/**
+ * Entities written during a single normalize call, grouped by schema key.
+ *
+ * IDs are keyed by their string form, since that is how they are stored in
+ * the entities map, while the value keeps the ID as returned by `getId`.
+ */
+export type WrittenEntities = Map<string, Map<string, IdType>>;
+
+/**
+ * Record that an entity was written.
+ *
+ * @param written - The written entities to add to
+ * @param schemaKey - The entity's schema key
+ * @param id - The entity's ID
+ */
+export function recordWrite(written: WrittenEntities, schemaKey: string, id: IdType): void {
+  if (!written.has(schemaKey)) {
+    written.set(schemaKey, new Map());
+  }
+  written.get(schemaKey)!.set(String(id), id);
+}
+
+/**
+ * Forget the write of an entity that was left out of the store after all.
+ *
+ * @param written - The written entities to remove from
+ * @param schemaKey - The entity's schema key
+ * @param id - The entity's ID
+ */
+export function forgetWrite(written: WrittenEntities, schemaKey: string, id: IdType): void {
+  written.get(schemaKey)?.delete(String(id));
+}
+
+/**
+ * List the fields whose values differ between two versions of an entity.
+ *
+ * @param previous - The entity before the change
+ * @param next - The entity after the change
+ * @returns Names of added, removed and modified fields
+ */
+export function changedFields(previous: Record<string, unknown>, next: Record<string, unknown>): string[] {
+  const fields = new Set([...Object.keys(previous), ...Object.keys(next)]);
+  return [...fields].filter(
+    (field) => hasOwn(previous, field) !== hasOwn(next, field) || !isEqual(previous[field], next[field]),
+  );
+}
+
+/**
+ * Compare the written entities against the store they were normalized into.
+ *
+ * @param base - The entities store before normalization
+ * @param entities - The entities store after normalization
+ * @param written - The entities written during normalization
+ * @returns The added, updated, unchanged and removed entity IDs per schema key
+ */
+export function diffEntities(base: EntitiesMap, entities: EntitiesMap, written: WrittenEntities): EntityChanges {
+  const changes: EntityChanges = {};
+
+  written.forEach((ids, schemaKey) => {
+    const previousTable = hasOwn(base, schemaKey) ? base[schemaKey] : {};
+    const tableChanges: EntityChanges[string] = { added: [], updated: {}, unchanged: [], removed: [] };
+
+    ids.forEach((id, idKey) => {
+      const wasPresent = hasOwn(previousTable, idKey) && !isInvalidated(previousTable[idKey]);
+      const isPresent = !isInvalidated(entities[schemaKey][idKey]);
+      if (!isPresent) {
+        if (wasPresent || !hasOwn(previousTable, idKey)) {
+          tableChanges.removed.push(id);
+        } else {
+          tableChanges.unchanged.push(id);
+        }
+        return;
+      }
+      if (!wasPresent) {
+        tableChanges.added.push(id);
+        return;
+      }
+      // Cast justified: entities store contains Record<string, unknown> values
+      const fields = changedFields(
+        previousTable[idKey] as Record<string, unknown>,
+        entities[schemaKey][idKey] as Record<string, unknown>,
+      );
+      if (fields.length > 0) {
+        tableChanges.updated[idKey] = fields;
+      } else {
+        tableChanges.unchanged.push(id);
+      }
+    });
+
+    changes[schemaKey] = tableChanges;
+  });
+
+  return changes;
+}
@@ -0,0 +1,81 @@
+import EntitySchema from './schemas/Entity.js';
+import { collectEntitySchemas } from './utils/collectEntitySchemas.js';
+import { mapEntityReferences } from './utils/references.js';
+import type { ReferenceContext } from './utils/references.js';
+import { hasOwn } from './utils/hasOwn.js';
+import { collectGarbage } from './collectGarbage.js';
+import { formatPath } from './errors.js';
+import type { EntitiesMap, GarbageCollectionRoot, IdType, IntegrityReport, Schema } from './types.js';
+
+/**
+ * Check that the references between the entities of a store are consistent.
+ *
+ * Every entity of the entity schemas found in `schemas` is checked, following
+ * its entity definition like `denormalize` does. The report lists:
+ * - references to entities missing from the store (tombstones count as present),
+ * - entities that can't be reached from any of the given roots, following
+ *   references like `collectGarbage` does (only when `roots` are given),
+ * - `{ id, schema }` references whose schema isn't defined by their `Array`,
+ *   `Union` or `Values` schema.
+ *
+ * Tables of schemas not found in `schemas`, fields whose schema is a function,
+ * and the fields of GraphQL entities that their entity definition doesn't
+ * declare are not checked. Meant for tests and development builds.
+ *
+ * @param entities - The entities store
+ * @param schemas - The schemas of the entities in the store
+ * @param roots - The results whose entities are in use, with their schemas
+ * @returns The problems found, with empty arrays when there are none
+ *
+ * @example
+ * ```typescript
+ * const { danglingReferences } = checkIntegrity(entities, [article]);
+ * // [{ schemaKey: 'articles', id: '1', path: '$.author', target: { schemaKey: 'users', id: 7 } }]
+ *
+ * const { orphanedEntities } = checkIntegrity(entities, [article], [{ result: feed.result, schema: [article] }]);
+ * // [{ schemaKey: 'users', id: '9' }]
+ * ```
+ */
+export function checkIntegrity(
+  entities: EntitiesMap,
+  schemas: Schema | readonly Schema[],
+  roots?: readonly GarbageCollectionRoot[],
+): IntegrityReport {
+  const registry = collectEntitySchemas(schemas);
+  const report: IntegrityReport = { danglingReferences: [], orphanedEntities: [], unknownSchemaReferences: [] };
+
+  Object.keys(registry).forEach((schemaKey) => {
+    if (!hasOwn(entities, schemaKey)) {
+      return;
+    }
+    Object.keys(entities[schemaKey]).forEach((id) => {
+      const check = (target: EntitySchema, targetId: IdType, { path }: ReferenceContext): IdType => {
+        if (!hasOwn(entities, target.key) || !hasOwn(entities[target.key], targetId)) {
+          report.danglingReferences.push({
+            schemaKey,
+            id,
+            path: formatPath(path),
+            target: { schemaKey: target.key, id: targetId },
+          });
+        }
+        return targetId;
+      };
+
+      mapEntityReferences(entities[schemaKey][id], registry[schemaKey], check, {
+        onUnknownSchema: (schema, path) =>
+          report.unknownSchemaReferences.push({ schemaKey, id, path: formatPath(path), schema }),
+      });
+    });
+  });
+
+  if (roots) {
+    const { evicted } = collectGarbage(entities, roots);
+    Object.keys(registry).forEach((schemaKey) => {
+      evicted[schemaKey]?.forEach((id) => report.orphanedEntities.push({ schemaKey, id: String(id) }));
+    });
+  }
+
+  return report;
+}
+
+export default checkIntegrity;
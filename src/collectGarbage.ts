@@ -0,0 +1,90 @@
+import EntitySchema from './schemas/Entity.js';
+import GraphQLSchema from './schemas/GraphQL.js';
+import { mapEntityReferences, mapReferences } from './utils/references.js';
+import type { ReferenceContext } from './utils/references.js';
+import { hasOwn } from './utils/hasOwn.js';
+import type { EntitiesMap, IdType, GarbageCollectionRoot, GarbageCollectionResult } from './types.js';
+
+/**
+ * Remove the entities that can't be reached from any of the given results.
+ *
+ * Starting from each root, references are followed like `denormalize` does:
+ * through entity definitions (including circular ones made with `define()`),
+ * arrays, `Object` and `Values` schemas, the `{ id, schema }` references of
+ * polymorphic schemas, and GraphQL references. Every entity that is never
+ * reached is evicted. Fields whose schema is a function can't be followed,
+ * so entities only referenced through them are evicted too.
+ *
+ * @param entities - The entities store (never mutated)
+ * @param roots - The results to keep, with their schemas
+ * @returns The entities store with only reachable entities, and the IDs of the evicted entities
+ *
+ * @example
+ * ```typescript
+ * const { entities: kept, evicted } = collectGarbage(entities, [
+ *   { result: feed.result, schema: [article] },
+ *   { result: viewerId, schema: user },
+ * ]);
+ * // evicted: { articles: ['3'], comments: ['12', '13'] }
+ * ```
+ */
+export function collectGarbage(
+  entities: EntitiesMap,
+  roots: readonly GarbageCollectionRoot[],
+): GarbageCollectionResult {
+  const reachable: Record<string, Set<string>> = {};
+  // Entities of a GraphQL schema have references in fields their definition doesn't declare
+  const reachableThroughGraphQL = new Set<string>();
+  const queue: Array<{ schema: EntitySchema; id: IdType; graphql?: GraphQLSchema }> = [];
+
+  const mark = (schema: EntitySchema, id: IdType, { graphql }: ReferenceContext): IdType => {
+    reachable[schema.key] = reachable[schema.key] ?? new Set();
+    const ids = reachable[schema.key];
+    const key = `${schema.key}:${id}`;
+
+    if (!ids.has(String(id))) {
+      ids.add(String(id));
+      queue.push({ schema, id });
+    }
+    if (graphql && !reachableThroughGraphQL.has(key)) {
+      reachableThroughGraphQL.add(key);
+      queue.push({ schema, id, graphql });
+    }
+    return id;
+  };
+
+  roots.forEach(({ result, schema }) => mapReferences(result, schema, mark));
+  while (queue.length > 0) {
+    const { schema, id, graphql } = queue.pop()!;
+    if (hasOwn(entities, schema.key) && hasOwn(entities[schema.key], id)) {
+      mapEntityReferences(entities[schema.key][id], schema, mark, { graphql });
+    }
+  }
+
+  const output: EntitiesMap = {};
+  const evicted: Record<string, IdType[]> = {};
+
+  Object.keys(entities).forEach((key) => {
+    const table = entities[key];
+    const ids = reachable[key] ?? new Set<string>();
+    const evictedIds = Object.keys(table).filter((id) => !ids.has(id));
+
+    if (evictedIds.length > 0) {
+      evicted[key] = evictedIds;
+    }
+    if (evictedIds.length === 0) {
+      output[key] = table;
+    } else if (ids.size > 0) {
+      output[key] = Object.keys(table).reduce<Record<IdType, unknown>>((kept, id) => {
+        if (ids.has(id)) {
+          kept[id] = table[id];
+        }
+        return kept;
+      }, {});
+    }
+  });
+
+  return { entities: output, evicted };
+}
+
+export default collectGarbage;
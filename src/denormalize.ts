@@ -1,7 +1,9 @@
 import EntitySchema from './schemas/Entity.js';
+import { DenormalizeCache, DependencyTracker } from './DenormalizeCache.js';
 import * as ArrayUtils from './schemas/Array.js';
 import * as ObjectUtils from './schemas/Object.js';
 import { hasOwn } from './utils/hasOwn.js';
+import { isInvalidated } from './utils/invalidated.js';
 import type {
   Schema,
   SchemaClass,
@@ -35,6 +37,7 @@ function isSchemaClass(schema: Schema): schema is SchemaClass {
  * @param getEntity - Function to get entities from the store
  * @param cache - Cache for denormalized entities (handles circular refs)
  * @param inProgress - Set of entity keys currently being denormalized (for circular ref detection)
+ * @param tracker - Dependency tracker for a cache shared across calls, if any
  * @returns The denormalized entity
  */
 function unvisitEntity(
@@ -44,8 +47,10 @@ function unvisitEntity(
   getEntity: GetEntityFn,
   cache: Record<string, Record<IdType, unknown>>,
   inProgress: Set<string>,
+  tracker?: DependencyTracker,
 ): unknown {
   let entity = getEntity(id, schema);
+  tracker?.read(schema, id, entity);
 
   // Try fallback if entity is missing
   if (entity === undefined && schema instanceof EntitySchema) {
@@ -53,7 +58,8 @@ function unvisitEntity(
     entity = schema.fallback(id, schema) as Record<string, unknown> | undefined;
   }
 
-  if (typeof entity !== 'object' || entity === null) {
+  // Missing entities and tombstones of invalidated entities are returned as is
+  if (typeof entity !== 'object' || entity === null || isInvalidated(entity)) {
     return entity;
   }
 
@@ -66,6 +72,7 @@ function unvisitEntity(
 
   // Check for circular reference
   if (inProgress.has(cacheKey)) {
+    tracker?.hitInProgress(cacheKey);
     // Return the cached (in-progress) copy.
     // It will be fully populated by the time the outer denormalize completes
     // because Entity.denormalize mutates in place.
@@ -74,11 +81,20 @@ function unvisitEntity(
 
   // Return cached version if already fully denormalized
   if (hasOwn(cache[schema.key], id)) {
+    tracker?.hitCompleted(cacheKey);
     return cache[schema.key][id];
   }
 
+  // Reuse the result of a previous call if nothing it depends on has changed
+  const previous = tracker?.lookup(cacheKey, schema, entity);
+  if (previous) {
+    cache[schema.key][id] = previous.value;
+    return previous.value;
+  }
+
   // Mark as in-progress before denormalizing
   inProgress.add(cacheKey);
+  tracker?.enter(cacheKey, schema, id, entity);
 
   // Create a shallow copy to avoid mutating the original entities store.
   const entityCopy = { ...entity };
@@ -93,6 +109,7 @@ function unvisitEntity(
 
   // Mark as complete
   inProgress.delete(cacheKey);
+  tracker?.exit(cache[schema.key][id]);
 
   return cache[schema.key][id];
 }
@@ -130,39 +147,41 @@ function getEntities(entities: EntitiesMap): GetEntityFn {
  *
  * This immediately resolves all nested entities recursively.
  *
- * @param _entities - The entities store (unused in eager mode, available for custom implementations)
- * @param getEntity - Function to get entities from the store
- * @returns An unvisit function for denormalization
+ * @param persistentCache - Optional cache shared across `denormalize()` calls
+ * @returns A factory for an unvisit function for denormalization
  */
-const createEagerUnvisit: CreateUnvisitFn = (_entities, getEntity) => {
-  const cache: Record<string, Record<IdType, unknown>> = {};
-  const inProgress = new Set<string>();
-
-  const unvisit: UnvisitFn = (input, schema) => {
-    // Handle shorthand syntax for arrays and objects
-    if (!isSchemaClass(schema)) {
-      if (Array.isArray(schema)) {
-        return ArrayUtils.denormalize(schema, input, unvisit);
+export const createEagerUnvisit =
+  (persistentCache?: DenormalizeCache): CreateUnvisitFn =>
+  (_entities, getEntity) => {
+    const cache: Record<string, Record<IdType, unknown>> = {};
+    const inProgress = new Set<string>();
+    const tracker = persistentCache ? new DependencyTracker(persistentCache, getEntity) : undefined;
+
+    const unvisit: UnvisitFn = (input, schema) => {
+      // Handle shorthand syntax for arrays and objects
+      if (!isSchemaClass(schema)) {
+        if (Array.isArray(schema)) {
+          return ArrayUtils.denormalize(schema, input, unvisit);
+        }
+        // Cast justified: not array and not SchemaClass, so must be object shorthand { key: schema }
+        return ObjectUtils.denormalize(schema as SchemaDefinition, input, unvisit);
       }
-      // Cast justified: not array and not SchemaClass, so must be object shorthand { key: schema }
-      return ObjectUtils.denormalize(schema as SchemaDefinition, input, unvisit);
-    }
 
-    if (input === undefined || input === null) {
-      return input;
-    }
+      if (input === undefined || input === null) {
+        return input;
+      }
 
-    // Entity schemas need special handling for ID lookup
-    if (schema instanceof EntitySchema) {
-      // Cast justified: for entity schemas, input is the entity ID from normalized result
-      return unvisitEntity(input as IdType, schema, unvisit, getEntity, cache, inProgress);
-    }
+      // Entity schemas need special handling for ID lookup
+      if (schema instanceof EntitySchema) {
+        // Cast justified: for entity schemas, input is the entity ID from normalized result
+        return unvisitEntity(input as IdType, schema, unvisit, getEntity, cache, inProgress, tracker);
+      }
 
-    return schema.denormalize(input, unvisit);
-  };
+      return schema.denormalize(input, unvisit);
+    };
 
-  return unvisit;
-};
+    return unvisit;
+  };
 
 /**
  * Denormalize data according to a schema.
@@ -175,8 +194,8 @@ const createEagerUnvisit: CreateUnvisitFn = (_entities, getEntity) => {
  * @param input - The normalized result (usually IDs or ID references)
  * @param schema - The schema describing the data structure
  * @param entities - The entities store from normalization
- * @param options - Optional configuration (e.g., custom unvisit for lazy denormalization)
- * @returns The denormalized data, or undefined if the root entity is not found
+ * @param options - Optional configuration (e.g., a shared cache or custom unvisit for lazy denormalization)
+ * @returns The denormalized data, or undefined if the root entity is not found or was invalidated
  *
  * @example
  * ```typescript
@@ -192,6 +211,14 @@ const createEagerUnvisit: CreateUnvisitFn = (_entities, getEntity) => {
  * // { id: '123', title: 'My Article', author: { id: '1', name: 'Paul' } }
  * ```
  *
+ * @example Reusing results across calls
+ * ```typescript
+ * const cache = new DenormalizeCache();
+ *
+ * denormalize('123', article, entities, { cache }) === denormalize('123', article, entities, { cache });
+ * // true, as long as the article and its author are unchanged in `entities`
+ * ```
+ *
  * @example Custom unvisit function
  * ```typescript
  * const result = denormalize('123', article, entities, {
@@ -217,10 +244,11 @@ export function denormalize(input: unknown, schema: Schema, entities: object, op
 
   const entitiesMap = entities as EntitiesMap;
   const getEntity = getEntities(entitiesMap);
-  const createUnvisit = options?.createUnvisit ?? createEagerUnvisit;
+  const createUnvisit = options?.createUnvisit ?? createEagerUnvisit(options?.cache);
   const unvisit = createUnvisit(entitiesMap, getEntity);
+  const result = unvisit(input, schema);
 
-  return unvisit(input, schema);
+  return isInvalidated(result) ? undefined : result;
 }
 
 export default denormalize;
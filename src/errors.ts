@@ -0,0 +1,132 @@
+import type { NormalizePath, StandardSchemaIssue } from './types.js';
+
+/**
+ * The path of the normalized input itself.
+ */
+export const ROOT_PATH: NormalizePath = Object.freeze({});
+
+/**
+ * Get the path of a child value.
+ *
+ * @param path - The path of the parent value
+ * @param key - The key or array index of the child in its parent
+ * @returns The path of the child, linked to the path of its parent
+ */
+export function appendPath(path: NormalizePath, key: string | number): NormalizePath {
+  return { parent: path, key };
+}
+
+/**
+ * List the keys and array indexes of a path, from the normalized input to the value.
+ *
+ * @param path - The path of the value
+ * @returns The keys and array indexes leading to the value
+ */
+export function pathSegments(path: NormalizePath): Array<string | number> {
+  const segments: Array<string | number> = [];
+  for (let current: NormalizePath | undefined = path; current?.key !== undefined; current = current.parent) {
+    segments.unshift(current.key);
+  }
+  return segments;
+}
+
+/**
+ * Format a path as a JSONPath-like string, e.g. `$.articles[3].author`.
+ *
+ * @param path - The path of a value
+ * @returns The formatted path, starting at `$`
+ */
+export function formatPath(path: NormalizePath): string {
+  return pathSegments(path).reduce<string>((formatted, segment) => {
+    if (typeof segment === 'number') {
+      return `${formatted}[${segment}]`;
+    }
+    return /^[A-Za-z_$][\w$]*$/.test(segment) ? `${formatted}.${segment}` : `${formatted}[${JSON.stringify(segment)}]`;
+  }, '$');
+}
+
+/**
+ * Details about where a `NormalizrError` happened.
+ */
+export interface NormalizrErrorDetails {
+  /** The path to the offending value in the input. */
+  path?: NormalizePath;
+  /** The offending value. */
+  value?: unknown;
+  /** The key of the entity schema involved, if any. */
+  schemaKey?: string;
+}
+
+/**
+ * Base class for errors thrown by normalizr.
+ *
+ * When the error is about a value in the input, `path` tells where that value
+ * is (e.g. `$.articles[3].author`), and the path is appended to the message.
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   normalize(data, mySchema);
+ * } catch (error) {
+ *   if (error instanceof NormalizrError) {
+ *     console.error(error.path, error.schemaKey, error.value);
+ *   }
+ * }
+ * ```
+ */
+export class NormalizrError extends Error {
+  /** The formatted path to the offending value, if the error is about a value in the input. */
+  readonly path?: string;
+  /** The offending value. */
+  readonly value?: unknown;
+  /** The key of the entity schema involved, if any. */
+  readonly schemaKey?: string;
+
+  constructor(message: string, details: NormalizrErrorDetails = {}) {
+    const path = details.path ? formatPath(details.path) : undefined;
+    super(path ? `${message} (at ${path})` : message);
+    this.name = new.target.name;
+    this.path = path;
+    this.value = details.value;
+    this.schemaKey = details.schemaKey;
+  }
+}
+
+/**
+ * Thrown when a value in the input doesn't have the shape its schema expects.
+ */
+export class InvalidInputError extends NormalizrError {}
+
+/**
+ * Thrown when a schema is defined incorrectly.
+ */
+export class InvalidSchemaError extends NormalizrError {}
+
+/**
+ * Thrown by `normalizeJsonApi` when a resource's `type` has no entity schema. Union, Array and Values schemas keep
+ * values whose schema attribute isn't defined as is.
+ */
+export class UnknownSchemaAttributeError extends NormalizrError {}
+
+/**
+ * Thrown when an entity's ID is missing or isn't a string or number.
+ */
+export class MissingIdError extends NormalizrError {}
+
+/**
+ * Thrown when an entity has the value of another entity in a unique index.
+ */
+export class IndexConflictError extends NormalizrError {}
+
+/**
+ * Thrown when an entity fails the validation of its schema's `validator`.
+ */
+export class ValidationError extends InvalidInputError {
+  /** The issues reported by the validator. */
+  readonly issues: readonly StandardSchemaIssue[];
+
+  constructor(message: string, issues: readonly StandardSchemaIssue[], details: NormalizrErrorDetails = {}) {
+    super(message, details);
+    this.issues = issues;
+  }
+}
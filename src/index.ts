@@ -21,15 +21,46 @@
  */
 
 // Main functions
-export { normalize } from './normalize.js';
+export { normalize, normalizeInto } from './normalize.js';
 export { denormalize } from './denormalize.js';
+export { createLazyUnvisit } from './lazy.js';
+export { DenormalizeCache } from './DenormalizeCache.js';
+export { EntityStore } from './EntityStore.js';
+export { ObservableStore } from './ObservableStore.js';
+export { normalizeJsonApi, denormalizeJsonApi } from './jsonapi.js';
+export { replaceId } from './replaceId.js';
+export { collectGarbage } from './collectGarbage.js';
+export { checkIntegrity } from './checkIntegrity.js';
+export { getReferencedBy } from './reverseIndex.js';
+export { buildIndexes, findByIndex } from './indexes.js';
+export { INVALIDATED, isInvalidated } from './utils/invalidated.js';
+export type { Invalidated } from './utils/invalidated.js';
+export { composeId } from './utils/compositeId.js';
+export {
+  NormalizrError,
+  InvalidInputError,
+  InvalidSchemaError,
+  UnknownSchemaAttributeError,
+  MissingIdError,
+  IndexConflictError,
+  ValidationError,
+  appendPath,
+} from './errors.js';
+export type { NormalizrErrorDetails } from './errors.js';
 
 // Schema classes
 import EntitySchema from './schemas/Entity.js';
 import ArraySchema from './schemas/Array.js';
+import CollectionSchema from './schemas/Collection.js';
+import ConnectionSchema from './schemas/Connection.js';
+import TupleSchema from './schemas/Tuple.js';
+import MapSchema from './schemas/Map.js';
+import SetSchema from './schemas/Set.js';
 import ObjectSchema from './schemas/Object.js';
 import UnionSchema from './schemas/Union.js';
 import ValuesSchema from './schemas/Values.js';
+import GraphQLSchema from './schemas/GraphQL.js';
+import InvalidateSchema from './schemas/Invalidate.js';
 
 /**
  * Schema namespace containing all schema constructors.
@@ -44,19 +75,33 @@ import ValuesSchema from './schemas/Values.js';
  */
 export const schema = {
   Array: ArraySchema,
+  Collection: CollectionSchema,
+  Connection: ConnectionSchema,
   Entity: EntitySchema,
   Object: ObjectSchema,
   Union: UnionSchema,
   Values: ValuesSchema,
+  GraphQL: GraphQLSchema,
+  Invalidate: InvalidateSchema,
+  Tuple: TupleSchema,
+  Map: MapSchema,
+  Set: SetSchema,
 };
 
 // Also export schema classes individually for direct imports
 export { default as EntitySchema } from './schemas/Entity.js';
 export { default as ArraySchema } from './schemas/Array.js';
+export { default as CollectionSchema } from './schemas/Collection.js';
+export { default as ConnectionSchema } from './schemas/Connection.js';
 export { default as ObjectSchema } from './schemas/Object.js';
 export { default as UnionSchema } from './schemas/Union.js';
 export { default as ValuesSchema } from './schemas/Values.js';
 export { default as PolymorphicSchema } from './schemas/Polymorphic.js';
+export { default as GraphQLSchema } from './schemas/GraphQL.js';
+export { default as InvalidateSchema } from './schemas/Invalidate.js';
+export { default as TupleSchema } from './schemas/Tuple.js';
+export { default as MapSchema } from './schemas/Map.js';
+export { default as SetSchema } from './schemas/Set.js';
 
 // Export types for consumers
 export type {
@@ -76,10 +121,53 @@ export type {
   MergeStrategy,
   ProcessStrategy,
   FallbackStrategy,
+  MissingIdStrategy,
+  InverseDefinition,
+  IndexOptions,
+  IndexDefinitions,
+
+  // Standard Schema types
+  StandardSchemaV1,
+  StandardSchemaProps,
+  StandardSchemaResult,
+  StandardSchemaIssue,
+
+  // Collection types
+  CollectionCursor,
+  CollectionPage,
+  CollectionData,
+  CollectionMergeMode,
+  CollectionOptions,
+  CollectionPageOptions,
+
+  // Connection types
+  ConnectionEdge,
+  ConnectionPageInfo,
+  ConnectionData,
+  ConnectionDirection,
+
+  // Tuple types
+  TupleDefinition,
+  DenormalizedTuple,
+  NormalizedTuple,
+
+  // Map and Set types
+  NativeSchemaOptions,
+  DenormalizedMap,
+  NormalizedMap,
+  DenormalizedSet,
+  NormalizedSet,
 
   // Normalization types
   EntitiesMap,
   NormalizedSchema,
+  NormalizeOptions,
+  EntityChanges,
+  EntityTableChanges,
+  ReverseIndex,
+  ReverseReference,
+  EntityIndexes,
+  NormalizePath,
   VisitedEntities,
 
   // Denormalization types
@@ -88,6 +176,21 @@ export type {
   UnvisitFn,
   GetEntityFn,
 
+  // Store maintenance types
+  GarbageCollectionRoot,
+  GarbageCollectionResult,
+  StoredEntityRef,
+  DanglingReference,
+  UnknownSchemaReference,
+  IntegrityReport,
+
+  // JSON:API types
+  JsonApiDocument,
+  JsonApiResource,
+  JsonApiResourceIdentifier,
+  JsonApiRelationship,
+  NormalizedJsonApiDocument,
+
   // Internal types (useful for extensions)
   VisitFn,
   AddEntityFn,
@@ -98,6 +201,7 @@ export type {
   Normalized,
   AllEntitiesOf,
   EntityLike,
+  EntityData,
   NormalizedEntity,
   UnionToIntersection,
 } from './types.js';
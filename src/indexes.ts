@@ -0,0 +1,332 @@
+import { collectEntitySchemas } from './utils/collectEntitySchemas.js';
+import { hasOwn } from './utils/hasOwn.js';
+import { isInvalidated } from './utils/invalidated.js';
+import { IndexConflictError } from './errors.js';
+import type { EntitiesMap, EntityIndexes, EntitySchemaInterface, IdType, NormalizePath, Schema } from './types.js';
+
+/**
+ * Get the key of a field value in an index. Only strings and numbers are indexed.
+ *
+ * @param entity - The entity (or tombstone) from the entities store
+ * @param field - The indexed field
+ * @returns The index key, or undefined if the value isn't indexed
+ */
+function indexKey(entity: unknown, field: string): string | undefined {
+  if (entity === undefined || isInvalidated(entity) || typeof entity !== 'object' || entity === null) {
+    return undefined;
+  }
+  // Cast justified: entities store contains Record<string, unknown> values
+  const value = (entity as Record<string, unknown>)[field];
+  return typeof value === 'string' || typeof value === 'number' ? String(value) : undefined;
+}
+
+/**
+ * A unique index conflict with an entity that the normalize call may still
+ * write, checked once every entity was written.
+ */
+interface DeferredConflict {
+  schema: EntitySchemaInterface;
+  id: string;
+  field: string;
+  key: string;
+  previous: unknown;
+  next: unknown;
+  path?: NormalizePath;
+}
+
+/**
+ * An entity rejected because of a conflict in a unique index.
+ */
+export interface IndexConflict {
+  error: IndexConflictError;
+  schema: EntitySchemaInterface;
+  id: string;
+  /** The entity stored before the rejected write, if any. */
+  previous: unknown;
+}
+
+/**
+ * Incrementally update the secondary indexes of a store as entities are
+ * written, copying the tables and lists it changes so the given indexes are
+ * never mutated. IDs are indexed as strings, like the keys of the entities store.
+ *
+ * An entity taking a unique value from an entity this writer didn't write yet
+ * is only a conflict if that entity still has the value after every write, so
+ * that a response can swap the values of two entities.
+ */
+export class EntityIndexWriter {
+  readonly indexes: EntityIndexes;
+  private readonly _ownTables = new Set<string>();
+  private readonly _ownLists = new Set<string[]>();
+  private readonly _written = new Set<string>();
+  private readonly _deferred: DeferredConflict[] = [];
+
+  constructor(indexes: EntityIndexes) {
+    this.indexes = { ...indexes };
+  }
+
+  /**
+   * Whether any index was written to.
+   */
+  get changed(): boolean {
+    return this._ownTables.size > 0;
+  }
+
+  /**
+   * Update the indexes of an entity that is about to be written. Nothing is
+   * updated if the entity conflicts with another entity written by this writer
+   * in a unique index.
+   *
+   * @param schema - The entity's schema
+   * @param id - The entity's ID
+   * @param previous - The entity stored before the write, if any
+   * @param next - The entity to write
+   * @param table - The entity's table, to index the first time an entity of the schema is written
+   * @param path - The path to the entity in the input, for error reporting
+   * @throws IndexConflictError if another entity written by this writer has the same value in a unique index
+   */
+  write(
+    schema: EntitySchemaInterface,
+    id: IdType,
+    previous: unknown,
+    next: unknown,
+    table: Record<IdType, unknown>,
+    path?: NormalizePath,
+  ): void {
+    const definitions = schema.indexes ?? {};
+    const fields = Object.keys(definitions);
+    if (fields.length === 0) {
+      return;
+    }
+    const indexes = this._table(schema, table);
+    const deferred: DeferredConflict[] = [];
+
+    fields.forEach((field) => {
+      const key = indexKey(next, field);
+      if (!definitions[field].unique || key === undefined || !hasOwn(indexes[field], key)) {
+        return;
+      }
+      const others = indexes[field][key].filter(
+        (item) => item !== String(id) && !this._isDeferred(schema, item, field, key),
+      );
+      const other = others.find((item) => this._written.has(entityKey(schema, item)));
+      if (other !== undefined) {
+        throw conflictError(schema, String(id), field, key, other, next, path);
+      }
+      if (others.length > 0) {
+        deferred.push({ schema, id: String(id), field, key, previous, next, path });
+      }
+    });
+
+    this._deferred.push(...deferred);
+    this._written.add(entityKey(schema, String(id)));
+    this._update(indexes, fields, String(id), previous, next);
+  }
+
+  /**
+   * Index the entities of a table for the fields missing from the given indexes.
+   * Does nothing once the indexes of its schema were written to.
+   *
+   * @param schema - The schema of the table's entities
+   * @param table - The table to index
+   */
+  indexTable(schema: EntitySchemaInterface, table: Record<IdType, unknown>): void {
+    this._table(schema, table);
+  }
+
+  /**
+   * Check the conflicts with entities that weren't written yet when they were
+   * found. Entities that still conflict are removed from the indexes again.
+   *
+   * @param entities - The entities store after every write
+   * @returns The rejected entities, whose previous entity should be restored
+   */
+  resolveConflicts(entities: EntitiesMap): IndexConflict[] {
+    const conflicts = new Map<string, IndexConflict>();
+
+    this._deferred.forEach(({ schema, id, field, key, previous, next, path }) => {
+      const ids = this.indexes[schema.key][field][key] ?? [];
+      const other = ids.find((item) => item !== id);
+      if (!ids.includes(id) || other === undefined || conflicts.has(entityKey(schema, id))) {
+        return;
+      }
+      const error = conflictError(schema, id, field, key, other, next, path);
+      conflicts.set(entityKey(schema, id), { error, schema, id, previous });
+    });
+
+    conflicts.forEach(({ schema, id, previous }) =>
+      this._update(this.indexes[schema.key], Object.keys(schema.indexes ?? {}), id, entities[schema.key][id], previous),
+    );
+    return [...conflicts.values()];
+  }
+
+  /**
+   * Whether an entity's conflict on a value is deferred, in which case the
+   * entity gives way to other entities with the value.
+   */
+  private _isDeferred(schema: EntitySchemaInterface, id: string, field: string, key: string): boolean {
+    return this._deferred.some(
+      (conflict) =>
+        conflict.schema.key === schema.key && conflict.id === id && conflict.field === field && conflict.key === key,
+    );
+  }
+
+  /**
+   * Move an entity from the index values of its previous entity to those of its next one.
+   */
+  private _update(
+    indexes: Record<string, Record<string, string[]>>,
+    fields: string[],
+    id: string,
+    previous: unknown,
+    next: unknown,
+  ): void {
+    fields.forEach((field) => {
+      const previousKey = indexKey(previous, field);
+      const key = indexKey(next, field);
+      if (previousKey === key) {
+        return;
+      }
+      if (previousKey !== undefined && hasOwn(indexes[field], previousKey)) {
+        const ids = indexes[field][previousKey].filter((item) => item !== id);
+        if (ids.length > 0) {
+          indexes[field][previousKey] = ids;
+          this._ownLists.add(ids);
+        } else {
+          delete indexes[field][previousKey];
+        }
+      }
+      if (key !== undefined) {
+        const ids = this._list(indexes[field], key);
+        if (!ids.includes(id)) {
+          ids.push(id);
+        }
+      }
+    });
+  }
+
+  /**
+   * Get the indexes of a schema, owned by this writer. The first time, they
+   * are copied from the given indexes, and the fields missing from them are
+   * built from the entities of the table.
+   */
+  private _table(
+    schema: EntitySchemaInterface,
+    table: Record<IdType, unknown>,
+  ): Record<string, Record<string, string[]>> {
+    if (!this._ownTables.has(schema.key)) {
+      this._ownTables.add(schema.key);
+      const existing = hasOwn(this.indexes, schema.key) ? this.indexes[schema.key] : {};
+      const fields = Object.keys(schema.indexes ?? {});
+      const missing = fields.filter((field) => !hasOwn(existing, field));
+
+      this.indexes[schema.key] = Object.fromEntries(
+        fields.map((field) => [field, hasOwn(existing, field) ? { ...existing[field] } : {}]),
+      );
+      Object.keys(table).forEach((id) =>
+        missing.forEach((field) => {
+          const key = indexKey(table[id], field);
+          if (key !== undefined) {
+            this._list(this.indexes[schema.key][field], key).push(id);
+          }
+        }),
+      );
+    }
+    return this.indexes[schema.key];
+  }
+
+  /**
+   * Get the list of IDs with a value, owned by this writer.
+   */
+  private _list(index: Record<string, string[]>, key: string): string[] {
+    if (!hasOwn(index, key) || !this._ownLists.has(index[key])) {
+      index[key] = hasOwn(index, key) ? [...index[key]] : [];
+      this._ownLists.add(index[key]);
+    }
+    return index[key];
+  }
+}
+
+/**
+ * Get the key of an entity in the sets of written entities.
+ */
+function entityKey(schema: EntitySchemaInterface, id: string): string {
+  return `${schema.key}\u0000${id}`;
+}
+
+/**
+ * Create the error for an entity that has the value of another entity in a unique index.
+ */
+function conflictError(
+  schema: EntitySchemaInterface,
+  id: string,
+  field: string,
+  key: string,
+  other: string,
+  value: unknown,
+  path?: NormalizePath,
+): IndexConflictError {
+  return new IndexConflictError(
+    `Expected a unique "${field}" for entity "${schema.key}" "${id}", but entity "${other}" already has "${key}".`,
+    { path, value, schemaKey: schema.key },
+  );
+}
+
+/**
+ * Build the secondary indexes of an entities store.
+ *
+ * Indexes are only maintained by `normalize()` and `normalizeInto()`. Rebuild
+ * them after changing the store in other ways, such as with `EntityStore`,
+ * `replaceId()`, `collectGarbage()` or `normalizeJsonApi()`. Entities with the
+ * same value in a unique index are all listed.
+ *
+ * @param entities - The entities store
+ * @param schemas - The schemas of the entities to index
+ * @returns The secondary indexes of the entity schemas found in `schemas` that declare `indexes`
+ *
+ * @example
+ * ```typescript
+ * const { entities } = collectGarbage(store, roots);
+ * const indexes = buildIndexes(entities, [user]);
+ * ```
+ */
+export function buildIndexes(entities: EntitiesMap, schemas: Schema | readonly Schema[]): EntityIndexes {
+  const registry = collectEntitySchemas(schemas);
+  const writer = new EntityIndexWriter({});
+
+  Object.keys(registry).forEach((schemaKey) => {
+    if (Object.keys(registry[schemaKey].indexes ?? {}).length > 0) {
+      writer.indexTable(registry[schemaKey], hasOwn(entities, schemaKey) ? entities[schemaKey] : {});
+    }
+  });
+  return writer.indexes;
+}
+
+/**
+ * Find the entities with a value in a secondary index.
+ *
+ * @param indexes - The `indexes` of a normalize output
+ * @param schema - The entity schema
+ * @param field - The indexed field
+ * @param value - The value to look up
+ * @returns The IDs of the entities with the value (at most one for a unique index)
+ *
+ * @example
+ * ```typescript
+ * const user = new schema.Entity('users', {}, { indexes: { email: { unique: true } } });
+ * const { indexes } = normalize(users, [user]);
+ *
+ * findByIndex(indexes!, user, 'email', 'ada@example.com'); // ['1']
+ * ```
+ */
+export function findByIndex(
+  indexes: EntityIndexes,
+  schema: EntitySchemaInterface,
+  field: string,
+  value: IdType,
+): string[] {
+  const key = String(value);
+  return hasOwn(indexes, schema.key) && hasOwn(indexes[schema.key], field) && hasOwn(indexes[schema.key][field], key)
+    ? indexes[schema.key][field][key]
+    : [];
+}
@@ -0,0 +1,277 @@
+import EntitySchema from './schemas/Entity.js';
+import { childSchemas } from './utils/collectEntitySchemas.js';
+import { mapReferences } from './utils/references.js';
+import { hasOwn } from './utils/hasOwn.js';
+import { isInvalidated } from './utils/invalidated.js';
+import { InvalidSchemaError } from './errors.js';
+import type { WrittenEntities } from './changes.js';
+import type { EntitiesMap, IdType, Schema } from './types.js';
+
+/**
+ * A back-reference field: `target[field]` lists the `source` entities whose
+ * `sourceField` references the target entity.
+ */
+export interface InverseField {
+  target: EntitySchema;
+  field: string;
+  source: EntitySchema;
+  sourceField: string;
+}
+
+/**
+ * Function writing an entity to the output store.
+ */
+export type SetEntityFn = (schema: EntitySchema, id: IdType, entity: Record<string, unknown>) => void;
+
+/**
+ * The definition of a schema as of when back-reference fields were collected
+ * from it. `define()` and `defineInverse()` replace the definition objects,
+ * so a schema whose definitions are the same objects hasn't changed.
+ */
+interface DefinitionSnapshot {
+  schema: object;
+  definition: unknown;
+  inverse: unknown;
+}
+
+/**
+ * The back-reference fields reachable from a schema, with the definitions they were collected from.
+ */
+interface CollectedInverses {
+  inverses: readonly InverseField[];
+  snapshots: ReadonlyMap<object, DefinitionSnapshot>;
+}
+
+/**
+ * The back-reference fields reachable from each schema class.
+ */
+const cache = new WeakMap<object, CollectedInverses>();
+
+/**
+ * Take a snapshot of the definition of a schema.
+ */
+function snapshot(schema: object): DefinitionSnapshot {
+  return {
+    schema,
+    definition: 'schema' in schema ? schema.schema : undefined,
+    inverse: schema instanceof EntitySchema ? schema.inverse : undefined,
+  };
+}
+
+/**
+ * Check that none of the definitions back-reference fields were collected from has changed since.
+ */
+function isCurrent(collected: CollectedInverses): boolean {
+  return [...collected.snapshots.values()].every((item) => {
+    const current = snapshot(item.schema);
+    return current.definition === item.definition && current.inverse === item.inverse;
+  });
+}
+
+/**
+ * Collect the back-reference fields of every entity schema reachable from a schema.
+ *
+ * The fields are cached for each schema class, until the definition of a
+ * schema they were collected from changes, and combined for the schemas
+ * holding it. Schemas created for a single call, such as the pages of a
+ * collection, thus only collect their own fields. Array and object
+ * shorthands, which are often written inline, are not cached themselves.
+ *
+ * @param schema - The schema being normalized
+ * @returns The back-reference fields
+ * @throws InvalidSchemaError if a source schema doesn't define its source field
+ */
+export function collectInverses(schema: Schema): readonly InverseField[] {
+  return collect(schema, new Map()).inverses;
+}
+
+/**
+ * Collect the back-reference fields reachable from a schema, visiting circular
+ * definitions once.
+ *
+ * @param schema - The schema to collect from
+ * @param inProgress - The schemas being collected, with their depth
+ * @returns The collected fields, and the smallest depth of the schemas in
+ * progress it reached: fields collected for a schema that reached a schema
+ * above it are incomplete, and are not cached
+ */
+function collect(schema: Schema, inProgress: Map<object, number>): CollectedInverses & { reached: number } {
+  if (typeof schema !== 'object' || schema === null) {
+    // Schema functions are skipped, since their result depends on the data
+    return { inverses: [], snapshots: new Map(), reached: Infinity };
+  }
+  const cached = cache.get(schema);
+  if (cached && isCurrent(cached)) {
+    return { ...cached, reached: Infinity };
+  }
+  if (inProgress.has(schema)) {
+    return { inverses: [], snapshots: new Map(), reached: inProgress.get(schema)! };
+  }
+
+  const depth = inProgress.size;
+  inProgress.set(schema, depth);
+  const inverses = new Map<string, InverseField>();
+  const snapshots = new Map<object, DefinitionSnapshot>([[schema, snapshot(schema)]]);
+  let reached = Infinity;
+
+  if (schema instanceof EntitySchema) {
+    Object.keys(schema.inverse).forEach((field) => {
+      const [source, sourceField] = schema.inverse[field];
+      // Cast justified: defineInverse only accepts EntitySchema sources
+      const entitySource = source as EntitySchema;
+      if (!hasOwn(entitySource.schema, sourceField)) {
+        throw new InvalidSchemaError(
+          `Expected entity "${source.key}" to define the field "${sourceField}" of the inverse field "${field}" of entity "${schema.key}".`,
+        );
+      }
+      snapshots.set(entitySource, snapshot(entitySource));
+      inverses.set(`${schema.key}\u0000${field}`, { target: schema, field, source: entitySource, sourceField });
+    });
+  }
+  childSchemas(schema).forEach((child) => {
+    const collected = collect(child, inProgress);
+    collected.inverses.forEach((inverse) => {
+      const key = `${inverse.target.key}\u0000${inverse.field}`;
+      if (!inverses.has(key)) {
+        inverses.set(key, inverse);
+      }
+    });
+    collected.snapshots.forEach((item, key) => snapshots.set(key, item));
+    reached = Math.min(reached, collected.reached);
+  });
+  inProgress.delete(schema);
+
+  const result: CollectedInverses = { inverses: [...inverses.values()], snapshots };
+  const isComplete = reached >= depth;
+  if (isComplete && !Array.isArray(schema) && 'normalize' in schema) {
+    cache.set(schema, result);
+  }
+  return { ...result, reached: isComplete ? Infinity : reached };
+}
+
+/**
+ * List the IDs of the target entities a source entity references through its source field.
+ */
+function referencedIds(entity: unknown, inverse: InverseField): IdType[] {
+  const ids: IdType[] = [];
+  if (typeof entity !== 'object' || entity === null || !hasOwn(entity, inverse.sourceField)) {
+    return ids;
+  }
+  // Cast justified: entity definitions map field names to schemas
+  const fieldSchema = (inverse.source.schema as Record<string, Schema>)[inverse.sourceField];
+  // Cast justified: checked to be an object above
+  mapReferences((entity as Record<string, unknown>)[inverse.sourceField], fieldSchema, (schema, id) => {
+    if (schema.key === inverse.target.key) {
+      ids.push(id);
+    }
+    return id;
+  });
+  return ids;
+}
+
+/**
+ * Get the ID of a stored entity as it was normalized, rather than as the
+ * string key it is stored under.
+ */
+function storedId(schema: EntitySchema, entity: unknown, key: string): IdType {
+  const idAttribute = schema.idAttribute;
+  if (typeof idAttribute === 'string' && typeof entity === 'object' && entity !== null && hasOwn(entity, idAttribute)) {
+    // Cast justified: checked to be an object above
+    const id = (entity as Record<string, unknown>)[idAttribute];
+    if ((typeof id === 'string' || typeof id === 'number') && String(id) === key) {
+      return id;
+    }
+  }
+  return key;
+}
+
+/**
+ * Check if a value from the entities store is an entity (not a tombstone).
+ */
+function isEntity(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !isInvalidated(value);
+}
+
+/**
+ * Update the back-reference fields of the entities store after a normalize call.
+ *
+ * Written target entities without the back-reference field (such as new
+ * entities) get it from the entities of the source schema in the store. Then
+ * written source entities are added to the back-reference field of the
+ * targets they reference, and removed from the targets they no longer reference.
+ * Targets that are missing or invalidated are left as is.
+ *
+ * @param inverses - The back-reference fields to update
+ * @param base - The entities store before normalization
+ * @param entities - The entities store after normalization (read only, written through `setEntity`)
+ * @param written - The entities written during normalization
+ * @param setEntity - Writes an updated target entity to the store
+ */
+export function applyInverses(
+  inverses: readonly InverseField[],
+  base: EntitiesMap,
+  entities: EntitiesMap,
+  written: WrittenEntities,
+  setEntity: SetEntityFn,
+): void {
+  const read = (schema: EntitySchema, id: IdType): unknown =>
+    hasOwn(entities, schema.key) && hasOwn(entities[schema.key], id) ? entities[schema.key][id] : undefined;
+
+  inverses.forEach((inverse) => {
+    const { target, field, source } = inverse;
+    const update = (targetId: IdType, mapIds: (ids: IdType[]) => IdType[]): void => {
+      const entity = read(target, targetId);
+      if (!isEntity(entity)) {
+        return;
+      }
+      const ids = Array.isArray(entity[field]) ? (entity[field] as IdType[]) : [];
+      const nextIds = mapIds(ids);
+      if (nextIds !== ids || !hasOwn(entity, field)) {
+        setEntity(target, targetId, { ...entity, [field]: nextIds });
+      }
+    };
+    // IDs are compared as strings, since that is how they are stored
+    const sameId = (a: IdType) => (b: IdType) => String(a) === String(b);
+
+    // Snapshot the written IDs, since writing targets records more writes
+    const writtenSources = [...(written.get(source.key) ?? new Map<string, IdType>())];
+    const writtenTargets = [...(written.get(target.key) ?? new Map<string, IdType>())];
+
+    // Targets without the field are filled from the source table first, which already holds the written sources
+    let scanned: Map<string, IdType[]> | undefined;
+    writtenTargets.forEach(([idKey]) => {
+      const entity = read(target, idKey);
+      if (!isEntity(entity) || hasOwn(entity, field)) {
+        return;
+      }
+      if (!scanned) {
+        // Index the source table once, the first time a target needs it
+        scanned = new Map();
+        const table = hasOwn(entities, source.key) ? entities[source.key] : {};
+        Object.keys(table).forEach((sourceKey) => {
+          referencedIds(table[sourceKey], inverse).forEach((targetId) => {
+            const ids = scanned!.get(String(targetId)) ?? [];
+            if (!ids.some(sameId(sourceKey))) {
+              scanned!.set(String(targetId), [...ids, storedId(source, table[sourceKey], sourceKey)]);
+            }
+          });
+        });
+      }
+      update(idKey, () => scanned!.get(idKey) ?? []);
+    });
+
+    writtenSources.forEach(([idKey, id]) => {
+      const previous =
+        hasOwn(base, source.key) && hasOwn(base[source.key], idKey) ? base[source.key][idKey] : undefined;
+      const next = entities[source.key][idKey];
+      const nextTargets = referencedIds(next, inverse);
+
+      referencedIds(previous, inverse)
+        .filter((targetId) => !nextTargets.some(sameId(targetId)))
+        .forEach((targetId) =>
+          update(targetId, (ids) => (ids.some(sameId(id)) ? ids.filter((item) => !sameId(id)(item)) : ids)),
+        );
+      nextTargets.forEach((targetId) => update(targetId, (ids) => (ids.some(sameId(id)) ? ids : [...ids, id])));
+    });
+  });
+}
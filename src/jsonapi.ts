@@ -0,0 +1,419 @@
+import EntitySchema from './schemas/Entity.js';
+import PolymorphicSchema from './schemas/Polymorphic.js';
+import { addEntities } from './normalize.js';
+import { collectEntitySchemas } from './utils/collectEntitySchemas.js';
+import { hasOwn } from './utils/hasOwn.js';
+import { isInvalidated } from './utils/invalidated.js';
+import { InvalidInputError, UnknownSchemaAttributeError, ROOT_PATH, appendPath } from './errors.js';
+import type {
+  Schema,
+  EntitiesMap,
+  IdType,
+  NormalizePath,
+  JsonApiDocument,
+  JsonApiRelationship,
+  JsonApiResource,
+  JsonApiResourceIdentifier,
+  NormalizedJsonApiDocument,
+} from './types.js';
+
+/**
+ * The entity field holding the resource `links` and `meta`, the relationships
+ * of fields without a schema, and the `links` and `meta` of the others.
+ * JSON:API member names can't contain `$`, so it never collides with an attribute.
+ */
+const RESOURCE_FIELD = '$jsonapi';
+
+/**
+ * The resource members kept in the `$jsonapi` field of an entity.
+ */
+interface ResourceMembers {
+  links?: Record<string, unknown>;
+  meta?: Record<string, unknown>;
+  relationships?: Record<string, JsonApiRelationship>;
+}
+
+/**
+ * Find the key in a polymorphic mapping whose entity schema has the given key.
+ * Falls back to the entity key itself when the mapping has no such entry.
+ */
+function getMappingKey(schema: PolymorphicSchema, type: string): string {
+  // Cast justified: multi-schema polymorphic definitions are mappings of schemas
+  const mapping = schema.schema as Record<string, Schema>;
+  return (
+    Object.keys(mapping).find((key) => {
+      const candidate = mapping[key];
+      return candidate instanceof EntitySchema && candidate.key === type;
+    }) ?? type
+  );
+}
+
+/**
+ * Convert resource linkage into the value `normalize()` would store for a field schema.
+ *
+ * Entity fields store the ID, polymorphic fields store `{ id, schema }`, and
+ * fields without a known schema keep the resource identifier as is.
+ */
+function normalizeLinkage(identifier: JsonApiResourceIdentifier, schema: Schema | undefined): unknown {
+  if (schema instanceof EntitySchema) {
+    return identifier.id;
+  }
+  if (schema instanceof PolymorphicSchema) {
+    if (schema.isSingleSchema) {
+      return normalizeLinkage(identifier, schema.schema);
+    }
+    return { id: identifier.id, schema: getMappingKey(schema, identifier.type) };
+  }
+  return identifier;
+}
+
+/**
+ * Convert a relationship's data into its normalized field value.
+ */
+function normalizeRelationship(relationship: JsonApiRelationship, schema: Schema | undefined): unknown {
+  const { data } = relationship;
+  if (data === null || data === undefined) {
+    return data;
+  }
+  if (Array.isArray(data)) {
+    // Cast justified: array shorthand [schema] holds the schema of its items
+    const itemSchema = Array.isArray(schema) ? (schema[0] as Schema) : schema;
+    return data.map((identifier) => normalizeLinkage(identifier, itemSchema));
+  }
+  return normalizeLinkage(data, schema);
+}
+
+/**
+ * Flatten a resource object into an entity: attributes and the linkage of the
+ * relationships in the schema definition become fields, next to the ID (in the
+ * idAttribute field, when it is a string). The resource `links` and `meta`, the
+ * other relationships, and the members of these relationships other than `data`
+ * are kept in the `$jsonapi` field.
+ */
+function flattenResource(resource: JsonApiResource, schema: EntitySchema): Record<string, unknown> {
+  // Cast justified: entity definitions map field names to schemas
+  const definition = schema.schema as Record<string, Schema>;
+  const idField = typeof schema.idAttribute === 'string' ? schema.idAttribute : 'id';
+  const entity: Record<string, unknown> = { [idField]: resource.id, ...resource.attributes };
+  const members: ResourceMembers = {};
+
+  Object.keys(resource.relationships ?? {}).forEach((field) => {
+    const relationship = resource.relationships![field];
+    if (!hasOwn(definition, field)) {
+      members.relationships = { ...members.relationships, [field]: relationship };
+      return;
+    }
+    const { data, ...others } = relationship;
+    if (hasOwn(relationship, 'data')) {
+      entity[field] = normalizeRelationship({ data }, definition[field]);
+    }
+    if (Object.keys(others).length > 0) {
+      members.relationships = { ...members.relationships, [field]: others };
+    }
+  });
+
+  if (resource.links) {
+    members.links = resource.links;
+  }
+  if (resource.meta) {
+    members.meta = resource.meta;
+  }
+  if (Object.keys(members).length > 0) {
+    entity[RESOURCE_FIELD] = members;
+  }
+  return entity;
+}
+
+/**
+ * Normalize a JSON:API document into an entities store.
+ *
+ * Every resource in `data` and `included` is flattened into an entity of the
+ * schema whose key matches the resource `type`: attributes become fields and
+ * relationships become IDs (or `{ id, schema }` references for polymorphic
+ * fields), exactly as `normalize()` would store the nested data. Resources
+ * that appear more than once are combined with the schema's merge strategy.
+ *
+ * Entities are stored under their resource `id`, which is also written to the
+ * idAttribute field when it is a string. Resource `links` and `meta`,
+ * relationships that are not in the schema definition, and the `links` and
+ * `meta` of the others, are kept in a `$jsonapi` field, so that they never
+ * overwrite attributes.
+ *
+ * Resources are flattened without calling the entity schema's `normalize()`,
+ * so its `processStrategy`, `validator` and `missingIdStrategy` don't apply.
+ *
+ * @param document - The JSON:API document
+ * @param schemas - Schemas containing an entity schema for every resource type
+ * @param store - Optional entities store to normalize into (never mutated)
+ * @returns The entities, the result, and the document's top-level `links` and `meta`
+ * @throws InvalidInputError if the document has no `data`
+ * @throws UnknownSchemaAttributeError if a resource type has no matching entity schema
+ *
+ * @example
+ * ```typescript
+ * const user = new schema.Entity('people');
+ * const article = new schema.Entity('articles', { author: user });
+ *
+ * const { entities, result } = normalizeJsonApi(
+ *   {
+ *     data: {
+ *       type: 'articles',
+ *       id: '1',
+ *       attributes: { title: 'JSON:API' },
+ *       relationships: { author: { data: { type: 'people', id: '9' } } },
+ *     },
+ *     included: [{ type: 'people', id: '9', attributes: { name: 'Dan' } }],
+ *   },
+ *   [article],
+ * );
+ * // result: '1'
+ * // entities: {
+ * //   articles: { '1': { id: '1', title: 'JSON:API', author: '9' } },
+ * //   people: { '9': { id: '9', name: 'Dan' } }
+ * // }
+ * ```
+ */
+export function normalizeJsonApi(
+  document: JsonApiDocument,
+  schemas: Schema | readonly Schema[],
+  store: EntitiesMap = {},
+): NormalizedJsonApiDocument<EntitiesMap, unknown> {
+  if (!document || typeof document !== 'object' || !hasOwn(document, 'data')) {
+    throw new InvalidInputError(
+      'Unexpected input given to normalizeJsonApi. Expected a JSON:API document with "data".',
+      {
+        path: ROOT_PATH,
+        value: document,
+      },
+    );
+  }
+
+  const registry = collectEntitySchemas(schemas);
+  const entities: EntitiesMap = { ...store };
+  const addEntity = addEntities(entities);
+
+  const getSchema = (resource: JsonApiResource, path: NormalizePath): EntitySchema => {
+    if (!hasOwn(registry, resource.type)) {
+      throw new UnknownSchemaAttributeError(`No entity schema found for JSON:API resource type "${resource.type}".`, {
+        path,
+        value: resource,
+      });
+    }
+    return registry[resource.type];
+  };
+
+  const addResource = (resource: JsonApiResource, path: NormalizePath): IdType => {
+    const schema = getSchema(resource, path);
+    const entity = flattenResource(resource, schema);
+    addEntity(schema, entity, entity, undefined, undefined, resource.id, path);
+    return resource.id;
+  };
+
+  const primary = document.data === null ? [] : Array.isArray(document.data) ? document.data : [document.data];
+  const ids = primary.map((resource, index) =>
+    addResource(
+      resource,
+      Array.isArray(document.data) ? appendPath(appendPath(ROOT_PATH, 'data'), index) : appendPath(ROOT_PATH, 'data'),
+    ),
+  );
+  (document.included ?? []).forEach((resource, index) =>
+    addResource(resource, appendPath(appendPath(ROOT_PATH, 'included'), index)),
+  );
+
+  // Mixed primary data is referenced like a polymorphic array would be
+  const isPolymorphic = new Set(primary.map((resource) => resource.type)).size > 1;
+  const references = ids.map((id, index) => (isPolymorphic ? { id, schema: primary[index].type } : id));
+  const result = document.data === null ? null : Array.isArray(document.data) ? references : references[0];
+
+  const output: NormalizedJsonApiDocument<EntitiesMap, unknown> = { entities, result };
+  if (document.links) {
+    output.links = document.links;
+  }
+  if (document.meta) {
+    output.meta = document.meta;
+  }
+  return output;
+}
+
+/**
+ * Resolve a normalized reference to the entity schema it points to and its ID.
+ */
+function resolveReference(
+  value: unknown,
+  schema: Schema | undefined,
+): { schema: EntitySchema; id: IdType } | undefined {
+  if (value === null || value === undefined) {
+    return undefined;
+  }
+  if (schema instanceof EntitySchema) {
+    // Cast justified: entity fields hold the referenced entity's ID
+    return { schema, id: value as IdType };
+  }
+  if (schema instanceof PolymorphicSchema) {
+    if (schema.isSingleSchema) {
+      return resolveReference(value, schema.schema);
+    }
+    // Cast justified: polymorphic normalized values have { id, schema } shape
+    const { id, schema: schemaKey } = value as { id: IdType; schema: string };
+    // Cast justified: multi-schema polymorphic definitions are mappings of schemas
+    const mapping = schema.schema as Record<string, Schema>;
+    return hasOwn(mapping, schemaKey) ? resolveReference(id, mapping[schemaKey]) : undefined;
+  }
+  return undefined;
+}
+
+/**
+ * Denormalize a result into a JSON:API compound document.
+ *
+ * The entities referenced by `result` become the primary `data`, and every
+ * entity they reference (directly or indirectly) that exists in the store is
+ * added once to `included`. Fields declared in an entity's schema definition
+ * become relationships; every other field becomes an attribute, except the
+ * `$jsonapi` field collected by `normalizeJsonApi()`, which restores the
+ * resource `links` and `meta`, the relationships without a schema, and the
+ * `links` and `meta` of the others.
+ *
+ * @param result - The normalized result (an ID, an array of IDs, or polymorphic references)
+ * @param schema - The schema of the result: an entity schema, an array of one, or a polymorphic schema
+ * @param entities - The entities store
+ * @returns A JSON:API compound document
+ *
+ * @example
+ * ```typescript
+ * const document = denormalizeJsonApi('1', article, entities);
+ * // {
+ * //   data: { type: 'articles', id: '1', attributes: { title: 'JSON:API' },
+ * //           relationships: { author: { data: { type: 'people', id: '9' } } } },
+ * //   included: [{ type: 'people', id: '9', attributes: { name: 'Dan' } }]
+ * // }
+ * ```
+ */
+export function denormalizeJsonApi(result: unknown, schema: Schema, entities: object): JsonApiDocument {
+  // Cast justified: entities parameter accepts any store shape, like denormalize()
+  const entitiesMap = entities as EntitiesMap;
+  const seen = new Set<string>();
+  const queue: Array<{ schema: EntitySchema; id: IdType }> = [];
+
+  // Resolve a reference, treating invalidated entities as missing
+  const resolve = (
+    value: unknown,
+    fieldSchema: Schema | undefined,
+  ): { schema: EntitySchema; id: IdType } | undefined => {
+    const reference = resolveReference(value, fieldSchema);
+    if (!reference) {
+      return undefined;
+    }
+    const table = hasOwn(entitiesMap, reference.schema.key) ? entitiesMap[reference.schema.key] : {};
+    return hasOwn(table, reference.id) && isInvalidated(table[reference.id]) ? undefined : reference;
+  };
+
+  const toIdentifier = (reference: { schema: EntitySchema; id: IdType }): JsonApiResourceIdentifier => {
+    const key = `${reference.schema.key}:${reference.id}`;
+    if (!seen.has(key)) {
+      seen.add(key);
+      queue.push(reference);
+    }
+    return { type: reference.schema.key, id: String(reference.id) };
+  };
+
+  const toResource = ({
+    schema: entitySchema,
+    id,
+  }: {
+    schema: EntitySchema;
+    id: IdType;
+  }): JsonApiResource | undefined => {
+    const table = hasOwn(entitiesMap, entitySchema.key) ? entitiesMap[entitySchema.key] : {};
+    if (!hasOwn(table, id) || isInvalidated(table[id])) {
+      return undefined;
+    }
+    // Cast justified: entities store contains Record<string, unknown> values
+    const entity = table[id] as Record<string, unknown>;
+    // Cast justified: entity definitions map field names to schemas
+    const definition = entitySchema.schema as Record<string, Schema>;
+    const idAttribute = typeof entitySchema.idAttribute === 'string' ? entitySchema.idAttribute : 'id';
+    const resource: JsonApiResource = { type: entitySchema.key, id: String(id) };
+    const attributes: Record<string, unknown> = {};
+    const relationships: Record<string, JsonApiRelationship> = {};
+    let relationshipMembers: Record<string, JsonApiRelationship> = {};
+
+    Object.keys(entity).forEach((field) => {
+      const value = entity[field];
+      if (field === idAttribute) {
+        return;
+      }
+      if (field === RESOURCE_FIELD) {
+        // Cast justified: the $jsonapi field is stored by normalizeJsonApi
+        const members = value as ResourceMembers;
+        relationshipMembers = members.relationships ?? {};
+        if (members.links) {
+          resource.links = members.links;
+        }
+        if (members.meta) {
+          resource.meta = members.meta;
+        }
+        return;
+      }
+      if (!hasOwn(definition, field)) {
+        attributes[field] = value;
+        return;
+      }
+
+      const fieldSchema = definition[field];
+      if (value === null || value === undefined) {
+        relationships[field] = { data: null };
+      } else if (Array.isArray(value)) {
+        // Cast justified: array shorthand [schema] holds the schema of its items
+        const itemSchema = Array.isArray(fieldSchema) ? (fieldSchema[0] as Schema) : fieldSchema;
+        relationships[field] = {
+          data: value.flatMap((item) => {
+            const reference = resolve(item, itemSchema);
+            return reference ? [toIdentifier(reference)] : [];
+          }),
+        };
+      } else {
+        const reference = resolve(value, fieldSchema);
+        relationships[field] = { data: reference ? toIdentifier(reference) : null };
+      }
+    });
+
+    // Relationships in the definition get back the members other than `data` they were normalized with
+    Object.keys(relationshipMembers).forEach((field) => {
+      relationships[field] = { ...relationshipMembers[field], ...relationships[field] };
+    });
+
+    if (Object.keys(attributes).length > 0) {
+      resource.attributes = attributes;
+    }
+    if (Object.keys(relationships).length > 0) {
+      resource.relationships = relationships;
+    }
+    return resource;
+  };
+
+  // Mark primary data as seen first, so that it is excluded from `included`
+  const isMany = Array.isArray(result);
+  // Cast justified: array shorthand [schema] holds the schema of its items
+  const itemSchema = isMany && Array.isArray(schema) ? (schema[0] as Schema) : schema;
+  const primary = (isMany ? result : [result]).flatMap((item) => {
+    const reference = resolve(item, itemSchema);
+    return reference ? [reference] : [];
+  });
+  primary.forEach((reference) => seen.add(`${reference.schema.key}:${reference.id}`));
+
+  const resources = primary.flatMap((reference) => {
+    const resource = toResource(reference);
+    return resource ? [resource] : [];
+  });
+  const data = isMany ? resources : (resources[0] ?? null);
+
+  const included: JsonApiResource[] = [];
+  while (queue.length > 0) {
+    const resource = toResource(queue.shift()!);
+    if (resource) {
+      included.push(resource);
+    }
+  }
+
+  return included.length > 0 ? { data, included } : { data };
+}
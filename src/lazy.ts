@@ -0,0 +1,154 @@
+import EntitySchema from './schemas/Entity.js';
+import * as ArrayUtils from './schemas/Array.js';
+import * as ObjectUtils from './schemas/Object.js';
+import { hasOwn } from './utils/hasOwn.js';
+import { isInvalidated } from './utils/invalidated.js';
+import type { Schema, SchemaClass, SchemaDefinition, UnvisitFn, CreateUnvisitFn, IdType } from './types.js';
+
+/**
+ * Check if a schema has a denormalize method (is a schema class).
+ */
+function isSchemaClass(schema: Schema): schema is SchemaClass {
+  return (
+    typeof schema === 'object' && schema !== null && 'denormalize' in schema && typeof schema.denormalize === 'function'
+  );
+}
+
+/**
+ * Create a proxy for an entity that resolves its nested schema fields on first access.
+ *
+ * The proxy wraps a shallow copy of the entity, so the entities store is never
+ * mutated. Each nested field is denormalized once, the first time it is read
+ * (or its property descriptor is requested, e.g. by spreading or `Object.entries`),
+ * and the resolved value replaces the ID on the copy.
+ *
+ * @param entity - The normalized entity from the store
+ * @param schema - The entity schema
+ * @param unvisit - The unvisit function used to resolve nested fields
+ * @returns A proxy that behaves like the denormalized entity
+ */
+function createEntityProxy(
+  entity: Record<string, unknown>,
+  schema: EntitySchema,
+  unvisit: UnvisitFn,
+): Record<string, unknown> {
+  const target = { ...entity };
+  // Cast justified: schema.schema is a SchemaDefinition keyed by field name
+  const definition = schema.schema as SchemaDefinition;
+  const unresolved = new Set(Object.keys(definition).filter((field) => hasOwn(target, field)));
+
+  const resolve = (prop: string | symbol): void => {
+    if (typeof prop !== 'string' || !unresolved.has(prop)) {
+      return;
+    }
+    // Remove before resolving so that re-entrant access sees the raw value instead of recursing
+    unresolved.delete(prop);
+    const value = unvisit(target[prop], definition[prop]);
+    target[prop] = isInvalidated(value) ? undefined : value;
+  };
+
+  return new Proxy(target, {
+    get(obj, prop, receiver) {
+      resolve(prop);
+      return Reflect.get(obj, prop, receiver);
+    },
+    getOwnPropertyDescriptor(obj, prop) {
+      resolve(prop);
+      return Reflect.getOwnPropertyDescriptor(obj, prop);
+    },
+    set(obj, prop, value, receiver) {
+      // An explicit write wins over the pending lazy value
+      if (typeof prop === 'string') {
+        unresolved.delete(prop);
+      }
+      return Reflect.set(obj, prop, value, receiver);
+    },
+  });
+}
+
+/**
+ * Create a lazy unvisit function.
+ *
+ * Instead of resolving the whole graph up front, every entity is returned as a
+ * proxy whose nested entity references are only denormalized when the property
+ * is accessed. Non-entity schemas (arrays, objects, values, unions) are walked
+ * immediately, but the entities inside them are proxies as well.
+ *
+ * Like the default eager strategy, each entity is materialized at most once per
+ * `denormalize()` call, so the same ID always yields the same proxy. This keeps
+ * referential identity for circular graphs. Missing entities are resolved with
+ * the schema's `fallbackStrategy`.
+ *
+ * Note that the proxies resolve fields using the entity schema's definition
+ * directly, so overrides of `EntitySchema.denormalize` are not consulted.
+ *
+ * @param _entities - The entities store (unused, entities are read through getEntity)
+ * @param getEntity - Function to get entities from the store
+ * @returns An unvisit function for lazy denormalization
+ *
+ * @example
+ * ```typescript
+ * const article = denormalize('123', articleSchema, entities, {
+ *   createUnvisit: createLazyUnvisit,
+ * });
+ * // article.author is only denormalized once it is read
+ * ```
+ */
+export const createLazyUnvisit: CreateUnvisitFn = (_entities, getEntity) => {
+  const cache: Record<string, Record<IdType, unknown>> = {};
+
+  const unvisitEntity = (input: unknown, schema: EntitySchema): unknown => {
+    // Cast justified: for entity schemas, input is the entity ID (or an already denormalized object)
+    const id = input as IdType | Record<string, unknown>;
+    let entity = getEntity(id, schema);
+
+    // Try fallback if entity is missing
+    if (entity === undefined && typeof id !== 'object') {
+      // Cast justified: fallback returns TData which extends Record<string, unknown>
+      entity = schema.fallback(id, schema) as Record<string, unknown> | undefined;
+    }
+
+    // Missing entities and tombstones of invalidated entities are returned as is
+    if (typeof entity !== 'object' || entity === null || isInvalidated(entity)) {
+      return entity;
+    }
+
+    // Partially denormalized input has no ID to cache under
+    if (typeof id === 'object') {
+      return createEntityProxy(entity, schema, unvisit);
+    }
+
+    if (!hasOwn(cache, schema.key)) {
+      cache[schema.key] = {};
+    }
+    if (!hasOwn(cache[schema.key], id)) {
+      cache[schema.key][id] = createEntityProxy(entity, schema, unvisit);
+    }
+    return cache[schema.key][id];
+  };
+
+  const unvisit: UnvisitFn = (input, schema) => {
+    // Handle shorthand syntax for arrays and objects
+    if (!isSchemaClass(schema)) {
+      if (Array.isArray(schema)) {
+        return ArrayUtils.denormalize(schema, input, unvisit);
+      }
+      // Cast justified: not array and not SchemaClass, so must be object shorthand { key: schema }
+      return ObjectUtils.denormalize(schema as SchemaDefinition, input, unvisit);
+    }
+
+    if (input === undefined || input === null) {
+      return input;
+    }
+
+    if (schema instanceof EntitySchema) {
+      return unvisitEntity(input, schema);
+    }
+
+    return schema.denormalize(input, unvisit);
+  };
+
+  return unvisit;
+};
+
+export default createLazyUnvisit;
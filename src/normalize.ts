@@ -1,12 +1,22 @@
 import * as ArrayUtils from './schemas/Array.js';
 import * as ObjectUtils from './schemas/Object.js';
 import { hasOwn } from './utils/hasOwn.js';
+import { describeType } from './utils/describeType.js';
+import { isInvalidated } from './utils/invalidated.js';
+import type { Invalidated } from './utils/invalidated.js';
+import { diffEntities, forgetWrite, recordWrite } from './changes.js';
+import { buildReverseIndex, updateReverseIndex } from './reverseIndex.js';
+import { applyInverses, collectInverses } from './inverse.js';
+import { EntityIndexWriter } from './indexes.js';
+import { InvalidInputError, InvalidSchemaError, NormalizrError, ROOT_PATH } from './errors.js';
+import type { WrittenEntities } from './changes.js';
 import type {
   Schema,
   SchemaClass,
   SchemaDefinition,
   EntitiesMap,
   NormalizedSchema,
+  NormalizeOptions,
   VisitFn,
   AddEntityFn,
   VisitedEntities,
@@ -14,6 +24,8 @@ import type {
   Denormalized,
   Normalized,
   AllEntitiesOf,
+  IdType,
+  NormalizePath,
 } from './types.js';
 
 /**
@@ -26,64 +38,238 @@ function isSchemaClass(schema: Schema): schema is SchemaClass {
 }
 
 /**
- * Visit a value and normalize it according to its schema.
- *
- * @param value - The value to normalize
- * @param parent - The parent object
- * @param key - The key of the value in the parent
- * @param schema - The schema to use for normalization
- * @param addEntity - Function to add entities to the store
- * @param visitedEntities - Tracking for circular references
- * @returns The normalized value
+ * Create a visit function, which normalizes a value according to its schema.
+ *
+ * Without an error handler, errors propagate. With one, a `NormalizrError`
+ * about the visited value (other than an `InvalidSchemaError`) is passed to
+ * the handler, and its return value replaces the normalized value. The
+ * handler can also `skip()` the value, to leave it out of the collection
+ * holding it. Since every nested value is visited with the same function,
+ * errors are handled at the innermost value they are about.
+ *
+ * @param handleError - Optional handler for errors about invalid values
+ * @returns A visit function
  */
-const visit: VisitFn = (value, parent, key, schema, addEntity, visitedEntities) => {
-  if (typeof value !== 'object' || value === null) {
-    return value;
-  }
+function createVisit(handleError?: (error: NormalizrError, value: unknown, skip: () => void) => unknown): VisitFn {
+  // Paths are created for each visited value, so they identify the skipped values
+  const skipped = new WeakSet<NormalizePath>();
 
-  // Handle shorthand syntax for arrays and objects
-  if (!isSchemaClass(schema)) {
-    if (Array.isArray(schema)) {
-      return ArrayUtils.normalize(schema, value, parent, key, visit, addEntity, visitedEntities);
+  /**
+   * Visit a value and normalize it according to its schema.
+   *
+   * @param value - The value to normalize
+   * @param parent - The parent object
+   * @param key - The key of the value in the parent
+   * @param schema - The schema to use for normalization
+   * @param addEntity - Function to add entities to the store
+   * @param visitedEntities - Tracking for circular references
+   * @param path - The path to the value in the input
+   * @returns The normalized value
+   */
+  const visit = (
+    value: unknown,
+    parent: unknown,
+    key: string | undefined,
+    schema: Schema,
+    addEntity: AddEntityFn,
+    visitedEntities: VisitedEntities,
+    path: NormalizePath = ROOT_PATH,
+  ): unknown => {
+    if (typeof value !== 'object' || value === null) {
+      return value;
     }
-    // Cast justified: not array and not SchemaClass, so must be object shorthand { key: schema }
-    return ObjectUtils.normalize(schema as SchemaDefinition, value, parent, key, visit, addEntity, visitedEntities);
-  }
 
-  return schema.normalize(value, parent, key, visit, addEntity, visitedEntities);
-};
+    try {
+      // Handle shorthand syntax for arrays and objects
+      if (!isSchemaClass(schema)) {
+        if (Array.isArray(schema)) {
+          return ArrayUtils.normalize(schema, value, parent, key, visit, addEntity, visitedEntities, path);
+        }
+        // Cast justified: not array and not SchemaClass, so must be object shorthand { key: schema }
+        return ObjectUtils.normalize(
+          schema as SchemaDefinition,
+          value,
+          parent,
+          key,
+          visit,
+          addEntity,
+          visitedEntities,
+          path,
+        );
+      }
+
+      return schema.normalize(value, parent, key, visit, addEntity, visitedEntities, path);
+    } catch (error) {
+      if (!handleError || !(error instanceof NormalizrError) || error instanceof InvalidSchemaError) {
+        throw error;
+      }
+      return handleError(error, value, () => skipped.add(path));
+    }
+  };
+
+  return Object.assign(visit, {
+    skip: (path: NormalizePath) => {
+      skipped.add(path);
+    },
+    isSkipped: (path: NormalizePath) => skipped.has(path),
+  });
+}
 
 /**
  * Create an addEntity function that adds entities to the entities store.
  *
+ * Entity tables are copied the first time they are written to, so tables
+ * inherited from an existing store are never mutated and untouched tables
+ * keep their identity.
+ *
  * @param entities - The entities store to add to
+ * @param ownTables - Keys of the tables already copied into `entities`
+ * @param written - Optional record of every entity written
+ * @param indexes - Optional secondary indexes to update, which can reject an entity before it is written
  * @returns An addEntity function
  */
-const addEntities =
-  (entities: EntitiesMap): AddEntityFn =>
+export const addEntities =
+  (
+    entities: EntitiesMap,
+    ownTables: Set<string> = new Set(),
+    written?: WrittenEntities,
+    indexes?: EntityIndexWriter,
+  ): AddEntityFn =>
   (
     schema: EntitySchemaInterface,
-    processedEntity: Record<string, unknown>,
+    processedEntity: Record<string, unknown> | Invalidated,
     value: unknown,
     parent: unknown,
     key: string | undefined,
+    resolvedId?: IdType,
+    path?: NormalizePath,
   ) => {
     const schemaKey = schema.key;
-    const id = schema.getId(value, parent, key);
+    // Entities without an ID are stored under "undefined", like with the `'keep'` missingIdStrategy
+    const id = resolvedId ?? schema.getId(value, parent, key) ?? 'undefined';
 
-    if (!hasOwn(entities, schemaKey)) {
-      entities[schemaKey] = {};
+    if (!ownTables.has(schemaKey)) {
+      entities[schemaKey] = hasOwn(entities, schemaKey) ? { ...entities[schemaKey] } : {};
+      ownTables.add(schemaKey);
     }
 
-    if (hasOwn(entities[schemaKey], id)) {
-      const existingEntity = entities[schemaKey][id];
-      // Cast justified: entities store contains Record<string, unknown> values
-      entities[schemaKey][id] = schema.merge(existingEntity as Record<string, unknown>, processedEntity);
-    } else {
-      entities[schemaKey][id] = processedEntity;
+    const existingEntity = hasOwn(entities[schemaKey], id) ? entities[schemaKey][id] : undefined;
+    // Tombstones replace the existing entity, and an entity that is added again replaces its tombstone
+    const entity =
+      existingEntity !== undefined && !isInvalidated(processedEntity) && !isInvalidated(existingEntity)
+        ? // Cast justified: entities store contains Record<string, unknown> values
+          schema.merge(existingEntity as Record<string, unknown>, processedEntity)
+        : processedEntity;
+
+    if (indexes) {
+      indexes.write(schema, id, existingEntity, entity, entities[schemaKey], path);
+    }
+    entities[schemaKey][id] = entity;
+
+    if (written) {
+      recordWrite(written, schemaKey, id);
     }
   };
 
+/**
+ * Shared implementation of `normalize()` and `normalizeInto()`.
+ *
+ * @param store - The entities store to start from (never mutated)
+ * @param input - The data to normalize
+ * @param schema - The schema describing the data structure
+ * @param options - Normalization options
+ * @returns An object with the new `entities` store and the `result`
+ */
+function normalizeWithStore(
+  store: EntitiesMap,
+  input: unknown,
+  schema: Schema,
+  options: NormalizeOptions = {},
+): NormalizedSchema<EntitiesMap, unknown> {
+  if (!input || typeof input !== 'object') {
+    throw new InvalidInputError(
+      `Unexpected input given to normalize. Expected type to be "object", found "${describeType(input)}".`,
+      { path: ROOT_PATH, value: input },
+    );
+  }
+
+  const entities: EntitiesMap = { ...store };
+  const { reverseIndex = false } = options;
+  const inverses = collectInverses(schema);
+  const written: WrittenEntities | undefined =
+    options.changes || reverseIndex || inverses.length > 0 ? new Map() : undefined;
+  const ownTables = new Set<string>();
+  const indexes = new EntityIndexWriter(options.indexes ?? {});
+  const addToStore = addEntities(entities, ownTables, written, indexes);
+  const writtenSchemas = new Map<string, EntitySchemaInterface>();
+  const addEntity: AddEntityFn = written
+    ? (entitySchema, ...args) => {
+        writtenSchemas.set(entitySchema.key, entitySchema);
+        addToStore(entitySchema, ...args);
+      }
+    : addToStore;
+  const visitedEntities: VisitedEntities = {};
+  const { onError = 'throw' } = options;
+  const errors: NormalizrError[] = [];
+  const visitValue =
+    onError === 'throw'
+      ? createVisit()
+      : createVisit((error, value, skip) => {
+          errors.push(error);
+          if (onError === 'collect') {
+            return value;
+          }
+          skip();
+          return undefined;
+        });
+
+  const result = visitValue(input, input, undefined, schema, addEntity, visitedEntities, ROOT_PATH);
+
+  indexes.resolveConflicts(entities).forEach(({ error, schema: entitySchema, id, previous }) => {
+    if (onError === 'throw') {
+      throw error;
+    }
+    errors.push(error);
+    // The rejected entity keeps its previous value, but references to it are kept
+    if (previous === undefined) {
+      delete entities[entitySchema.key][id];
+      if (written) {
+        forgetWrite(written, entitySchema.key, id);
+      }
+    } else {
+      entities[entitySchema.key][id] = previous;
+    }
+  });
+
+  if (inverses.length > 0) {
+    applyInverses(inverses, store, entities, written!, (entitySchema, id, entity) => {
+      if (!ownTables.has(entitySchema.key)) {
+        entities[entitySchema.key] = { ...entities[entitySchema.key] };
+        ownTables.add(entitySchema.key);
+      }
+      entities[entitySchema.key][id] = entity;
+      writtenSchemas.set(entitySchema.key, entitySchema);
+      recordWrite(written!, entitySchema.key, id);
+    });
+  }
+
+  const output: NormalizedSchema<EntitiesMap, unknown> = { entities, result };
+  if (options.changes) {
+    output.changes = diffEntities(store, entities, written!);
+  }
+  if (reverseIndex) {
+    const index = reverseIndex === true ? buildReverseIndex(store, schema) : reverseIndex;
+    output.referencedBy = updateReverseIndex(index, store, entities, written!, writtenSchemas);
+  }
+  if (onError !== 'throw') {
+    output.errors = errors;
+  }
+  if (options.indexes || indexes.changed) {
+    output.indexes = indexes.indexes;
+  }
+  return output;
+}
+
 /**
  * Normalize input data according to a schema.
  *
@@ -94,6 +280,8 @@ const addEntities =
  *
  * @param input - The data to normalize (must be an object or array)
  * @param schema - The schema describing the data structure
+ * @param options - Optional configuration (e.g., `changes` to report what was added or updated, `onError` to
+ *   keep going past invalid values, `reverseIndex` to index the entities referencing each entity)
  * @returns An object with `entities` and `result` properties
  *
  * @example
@@ -118,25 +306,62 @@ const addEntities =
 export function normalize<S extends Schema>(
   input: Denormalized<S>,
   schema: S,
+  options?: NormalizeOptions,
 ): NormalizedSchema<AllEntitiesOf<S>, Normalized<S>>;
 
 // Implementation signature
-export function normalize(input: unknown, schema: Schema): NormalizedSchema<EntitiesMap, unknown> {
-  if (!input || typeof input !== 'object') {
-    throw new Error(
-      `Unexpected input given to normalize. Expected type to be "object", found "${
-        input === null ? 'null' : typeof input
-      }".`,
-    );
-  }
-
-  const entities: EntitiesMap = {};
-  const addEntity = addEntities(entities);
-  const visitedEntities: VisitedEntities = {};
+export function normalize(
+  input: unknown,
+  schema: Schema,
+  options?: NormalizeOptions,
+): NormalizedSchema<EntitiesMap, unknown> {
+  return normalizeWithStore({}, input, schema, options);
+}
 
-  const result = visit(input, input, undefined, schema, addEntity, visitedEntities);
+/**
+ * Normalize input data into an existing entities store.
+ *
+ * Works like `normalize()`, but entities that already exist in `store` are
+ * combined with the incoming ones using each schema's `merge()` (and thus its
+ * `mergeStrategy`). The given store is never mutated: a new store is returned,
+ * and entity tables that were not written to are shared with the original.
+ *
+ * @typeParam S - The schema type
+ * @typeParam E - The type of the existing entities store
+ *
+ * @param store - The existing entities store to merge into
+ * @param input - The data to normalize (must be an object or array)
+ * @param schema - The schema describing the data structure
+ * @param options - Optional configuration (e.g., `changes` to report what was added or updated, `onError` to
+ *   keep going past invalid values, `reverseIndex` to index the entities referencing each entity)
+ * @returns An object with the new `entities` store and the `result`
+ *
+ * @example
+ * ```typescript
+ * const user = new schema.Entity('users');
+ *
+ * const first = normalize({ id: '1', name: 'Paul' }, user);
+ * const { entities } = normalizeInto(first.entities, { id: '1', email: 'paul@example.com' }, user);
+ * // entities: {
+ * //   users: { '1': { id: '1', name: 'Paul', email: 'paul@example.com' } }
+ * // }
+ * ```
+ */
+export function normalizeInto<S extends Schema, E extends EntitiesMap>(
+  store: E,
+  input: Denormalized<S>,
+  schema: S,
+  options?: NormalizeOptions,
+): NormalizedSchema<AllEntitiesOf<S>, Normalized<S>> & { entities: E };
 
-  return { entities, result };
+// Implementation signature
+export function normalizeInto(
+  store: EntitiesMap,
+  input: unknown,
+  schema: Schema,
+  options?: NormalizeOptions,
+): NormalizedSchema<EntitiesMap, unknown> {
+  return normalizeWithStore(store, input, schema, options);
 }
 
 export default normalize;
@@ -0,0 +1,116 @@
+import EntitySchema from './schemas/Entity.js';
+import { collectEntitySchemas } from './utils/collectEntitySchemas.js';
+import { mapEntityReferences } from './utils/references.js';
+import { hasOwn } from './utils/hasOwn.js';
+import { isInvalidated } from './utils/invalidated.js';
+import type { EntitiesMap, IdType, Schema } from './types.js';
+
+/**
+ * Convert a part of a composite ID back to the type of the field it replaces:
+ * number fields stay numbers when the new part is numeric.
+ */
+function toIdPart(part: string, previous: unknown): IdType {
+  return typeof previous === 'number' && String(Number(part)) === part ? Number(part) : part;
+}
+
+/**
+ * Give the entity stored under `oldId` its new ID, merging it into the entity
+ * already stored under `newId`, if any.
+ */
+function moveEntity(table: Record<IdType, unknown>, schema: EntitySchema, oldId: IdType, newId: IdType): void {
+  let entity = table[oldId];
+  delete table[oldId];
+
+  // Update the ID fields of the entity itself
+  if (typeof schema.idAttribute === 'string' && !isInvalidated(entity)) {
+    // Cast justified: entities store contains Record<string, unknown> values
+    entity = { ...(entity as Record<string, unknown>), [schema.idAttribute]: newId };
+  } else if (Array.isArray(schema.idAttribute) && !isInvalidated(entity)) {
+    // Cast justified: entities store contains Record<string, unknown> values
+    const fields = entity as Record<string, unknown>;
+    const parts = schema.parseId(newId);
+    entity = Object.keys(parts).reduce(
+      (updated, field) => ({ ...updated, [field]: toIdPart(parts[field], fields[field]) }),
+      fields,
+    );
+  }
+
+  if (!hasOwn(table, newId)) {
+    table[newId] = entity;
+  } else if (!isInvalidated(entity) && !isInvalidated(table[newId])) {
+    // The entity under the new ID (e.g. from the server response) is the most recent
+    // Cast justified: entities store contains Record<string, unknown> values
+    table[newId] = schema.merge(entity as Record<string, unknown>, table[newId] as Record<string, unknown>);
+  }
+}
+
+/**
+ * Replace the ID of an entity, such as a temporary client-side ID once the
+ * server has assigned the real one.
+ *
+ * The entity is moved to its new ID (merged into the entity already stored
+ * there, if any, which takes precedence) and its `idAttribute` fields are
+ * updated, from the parts of the new ID for composite IDs. Every reference to
+ * the old ID in the entities of `schema` and of the entity schemas found in
+ * `schemas` is rewritten, including references in arrays, `schema.Values`,
+ * and the `{ id, schema }` references of polymorphic schemas.
+ *
+ * References in normalized results are not part of the entities store;
+ * update them separately. Fields with a schema function, and the fields of
+ * GraphQL entities that their entity definition doesn't declare, are left as is.
+ *
+ * @param entities - The entities store (never mutated)
+ * @param schema - The entity schema of the entity
+ * @param oldId - The current ID of the entity
+ * @param newId - The new ID of the entity
+ * @param schemas - The schemas whose entities may reference the entity
+ * @returns The new entities store
+ * @throws InvalidInputError if the new ID doesn't have a part for each field of a composite `idAttribute`
+ *
+ * @example
+ * ```typescript
+ * const user = new schema.Entity('users');
+ * const article = new schema.Entity('articles', { author: user });
+ *
+ * // POST /users responded with { id: 987 } for the user created as tmp-1
+ * const updated = replaceId(entities, user, 'tmp-1', 987, [article]);
+ * // users: { 987: { id: 987, ... } }, articles: { 1: { id: 1, author: 987 } }
+ * ```
+ */
+export function replaceId(
+  entities: EntitiesMap,
+  schema: EntitySchema,
+  oldId: IdType,
+  newId: IdType,
+  schemas: Schema | readonly Schema[],
+): EntitiesMap {
+  const output: EntitiesMap = { ...entities };
+  const registry = collectEntitySchemas(Array.isArray(schemas) ? [schema, ...schemas] : [schema, schemas]);
+
+  if (hasOwn(entities, schema.key) && hasOwn(entities[schema.key], oldId)) {
+    output[schema.key] = { ...entities[schema.key] };
+    moveEntity(output[schema.key], schema, oldId, newId);
+  }
+
+  // Object keys are strings, so IDs are compared as strings
+  const mapId = (referencedSchema: EntitySchema, id: IdType): IdType =>
+    referencedSchema.key === schema.key && String(id) === String(oldId) ? newId : id;
+
+  Object.keys(registry).forEach((key) => {
+    if (!hasOwn(output, key)) {
+      return;
+    }
+    const table = output[key];
+    Object.keys(table).forEach((id) => {
+      const entity = mapEntityReferences(table[id], registry[key], mapId);
+      if (entity !== table[id]) {
+        output[key] = output[key] === entities[key] ? { ...table } : output[key];
+        output[key][id] = entity;
+      }
+    });
+  });
+
+  return output;
+}
+
+export default replaceId;
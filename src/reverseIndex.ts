@@ -0,0 +1,185 @@
+import EntitySchema from './schemas/Entity.js';
+import { collectEntitySchemas } from './utils/collectEntitySchemas.js';
+import { mapEntityReferences } from './utils/references.js';
+import { hasOwn } from './utils/hasOwn.js';
+import { pathSegments } from './errors.js';
+import type { WrittenEntities } from './changes.js';
+import type { EntitiesMap, EntitySchemaInterface, IdType, ReverseIndex, ReverseReference, Schema } from './types.js';
+
+/**
+ * List the entities an entity references, with the field holding each reference.
+ *
+ * @param entity - The entity (or tombstone) from the entities store
+ * @param schema - The entity's schema
+ * @param id - The entity's ID
+ * @returns The referenced entities, each with a reference back to the entity
+ */
+function collectReferences(
+  entity: unknown,
+  schema: EntitySchemaInterface,
+  id: string,
+): Array<{ schemaKey: string; id: string; reference: ReverseReference }> {
+  const references: Array<{ schemaKey: string; id: string; reference: ReverseReference }> = [];
+  if (!(schema instanceof EntitySchema)) {
+    // Custom entity schemas don't declare where their references are
+    return references;
+  }
+  mapEntityReferences(entity, schema, (target, targetId, { path }) => {
+    references.push({
+      schemaKey: target.key,
+      id: String(targetId),
+      reference: { schemaKey: schema.key, id, field: String(pathSegments(path)[0]) },
+    });
+    return targetId;
+  });
+  return references;
+}
+
+/**
+ * Check if two reverse references point back to the same entity field.
+ */
+function isSameReference(a: ReverseReference, b: ReverseReference): boolean {
+  return a.schemaKey === b.schemaKey && a.id === b.id && a.field === b.field;
+}
+
+/**
+ * Incrementally update a reverse index, copying the tables and lists it
+ * changes so the given index is never mutated.
+ */
+class ReverseIndexWriter {
+  readonly index: ReverseIndex;
+  private readonly _ownTables = new Set<string>();
+  private readonly _ownLists = new Set<ReverseReference[]>();
+
+  constructor(index: ReverseIndex) {
+    this.index = { ...index };
+  }
+
+  /**
+   * Replace the references an entity holds.
+   *
+   * @param schema - The entity's schema
+   * @param id - The entity's ID
+   * @param previous - The entity before the change, if any
+   * @param next - The entity after the change
+   */
+  write(schema: EntitySchemaInterface, id: string, previous: unknown, next: unknown): void {
+    collectReferences(previous, schema, id).forEach(({ schemaKey, id: targetId, reference }) => {
+      const list = this._list(schemaKey, targetId);
+      const index = list.findIndex((item) => isSameReference(item, reference));
+      if (index !== -1) {
+        list.splice(index, 1);
+      }
+      if (list.length === 0) {
+        delete this.index[schemaKey][targetId];
+      }
+    });
+    collectReferences(next, schema, id).forEach(({ schemaKey, id: targetId, reference }) => {
+      const list = this._list(schemaKey, targetId);
+      if (!list.some((item) => isSameReference(item, reference))) {
+        list.push(reference);
+      }
+    });
+  }
+
+  /**
+   * Get a copy of the list of references to an entity, owned by this writer.
+   */
+  private _list(schemaKey: string, id: string): ReverseReference[] {
+    if (!this._ownTables.has(schemaKey)) {
+      this.index[schemaKey] = hasOwn(this.index, schemaKey) ? { ...this.index[schemaKey] } : {};
+      this._ownTables.add(schemaKey);
+    }
+    const table = this.index[schemaKey];
+    if (!hasOwn(table, id) || !this._ownLists.has(table[id])) {
+      table[id] = hasOwn(table, id) ? [...table[id]] : [];
+      this._ownLists.add(table[id]);
+    }
+    return table[id];
+  }
+}
+
+/**
+ * Build the reverse index of an entities store.
+ *
+ * @param entities - The entities store
+ * @param schemas - The schemas of the entities to index
+ * @returns The entities referencing each entity, by schema key and ID
+ */
+export function buildReverseIndex(entities: EntitiesMap, schemas: Schema | readonly Schema[]): ReverseIndex {
+  const registry = collectEntitySchemas(schemas);
+  const writer = new ReverseIndexWriter({});
+
+  Object.keys(registry).forEach((schemaKey) => {
+    if (hasOwn(entities, schemaKey)) {
+      Object.keys(entities[schemaKey]).forEach((id) =>
+        writer.write(registry[schemaKey], id, undefined, entities[schemaKey][id]),
+      );
+    }
+  });
+  return writer.index;
+}
+
+/**
+ * Update a reverse index with the entities written during a normalize call.
+ * References an entity no longer holds after being merged are removed.
+ *
+ * @param index - The reverse index of the store before normalization (never mutated)
+ * @param base - The entities store before normalization
+ * @param entities - The entities store after normalization
+ * @param written - The entities written during normalization
+ * @param schemas - The schemas of the written entities, by schema key
+ * @returns The reverse index of the store after normalization
+ */
+export function updateReverseIndex(
+  index: ReverseIndex,
+  base: EntitiesMap,
+  entities: EntitiesMap,
+  written: WrittenEntities,
+  schemas: Map<string, EntitySchemaInterface>,
+): ReverseIndex {
+  const writer = new ReverseIndexWriter(index);
+
+  written.forEach((ids, schemaKey) => {
+    const previousTable = hasOwn(base, schemaKey) ? base[schemaKey] : {};
+    ids.forEach((_id, idKey) => {
+      const previous = hasOwn(previousTable, idKey) ? previousTable[idKey] : undefined;
+      writer.write(schemas.get(schemaKey)!, idKey, previous, entities[schemaKey][idKey]);
+    });
+  });
+  return writer.index;
+}
+
+/**
+ * Get the entities referencing an entity, from a reverse index built by
+ * `normalize()` or `normalizeInto()` with the `reverseIndex` option.
+ *
+ * @param index - The reverse index
+ * @param schema - The schema of the referenced entity
+ * @param id - The ID of the referenced entity
+ * @param filter - Only return references from entities of this schema, and/or held in this field
+ * @returns The referencing entities and the field holding each reference, in the order they were indexed
+ *
+ * @example
+ * ```typescript
+ * const { referencedBy } = normalize(articles, [article], { reverseIndex: true });
+ *
+ * getReferencedBy(referencedBy!, user, '1', { from: article, field: 'author' });
+ * // [{ schemaKey: 'articles', id: '123', field: 'author' }]
+ * ```
+ */
+export function getReferencedBy(
+  index: ReverseIndex,
+  schema: EntitySchemaInterface,
+  id: IdType,
+  filter: { from?: EntitySchemaInterface; field?: string } = {},
+): ReverseReference[] {
+  if (!hasOwn(index, schema.key) || !hasOwn(index[schema.key], id)) {
+    return [];
+  }
+  return index[schema.key][id].filter(
+    (reference) =>
+      (!filter.from || reference.schemaKey === filter.from.key) &&
+      (filter.field === undefined || reference.field === filter.field),
+  );
+}
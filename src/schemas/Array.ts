@@ -1,13 +1,30 @@
 import { PolymorphicSchema } from './Polymorphic.js';
-import type { Schema, SchemaAttribute, VisitFn, AddEntityFn, VisitedEntities, UnvisitFn } from '../types.js';
+import { isInvalidated } from '../utils/invalidated.js';
+import { InvalidSchemaError, ROOT_PATH, appendPath } from '../errors.js';
+import type {
+  Schema,
+  SchemaAttribute,
+  VisitFn,
+  AddEntityFn,
+  VisitedEntities,
+  UnvisitFn,
+  NormalizePath,
+} from '../types.js';
 
 /**
  * Validate that a schema definition is a single schema (or array with one element).
+ *
+ * @param definition - The schema definition
+ * @param path - The path to the value being normalized, if any
+ * @throws InvalidSchemaError if the definition is an array of more than one schema
  */
-function validateSchema(definition: Schema | readonly Schema[]): Schema {
+function validateSchema(definition: Schema | readonly Schema[], path?: NormalizePath): Schema {
   if (Array.isArray(definition)) {
     if (definition.length > 1) {
-      throw new Error(`Expected schema definition to be a single schema, but found ${definition.length}.`);
+      throw new InvalidSchemaError(
+        `Expected schema definition to be a single schema, but found ${definition.length}.`,
+        { path },
+      );
     }
     // Cast justified: array branch confirmed, definition[0] is the schema element
     return definition[0] as Schema;
@@ -27,6 +44,27 @@ function getValues(input: unknown): unknown[] {
   return Object.keys(input as object).map((key) => (input as Record<string, unknown>)[key]);
 }
 
+/**
+ * Get the path segment of each value returned by `getValues`: the index for
+ * arrays, and the key for objects.
+ */
+function getSegments(input: unknown): Array<string | number> {
+  if (Array.isArray(input)) {
+    return input.map((_value, index) => index);
+  }
+  // Cast justified: not an array, so input must be an object (normalize validates this)
+  return Object.keys(input as object);
+}
+
+/**
+ * Remove the tombstones of invalidated entities from denormalized values.
+ */
+function withoutInvalidated(values: unknown[] | unknown): unknown[] | unknown {
+  // Cast justified: values is either an array or Immutable.List (both have .filter)
+  const filterable = values as { filter?: (fn: (v: unknown) => boolean) => unknown };
+  return typeof filterable.filter === 'function' ? filterable.filter((value) => !isInvalidated(value)) : values;
+}
+
 /**
  * Normalize an array using shorthand syntax [schema].
  *
@@ -37,6 +75,7 @@ function getValues(input: unknown): unknown[] {
  * @param visit - The visit function for recursive normalization
  * @param addEntity - Function to add entities to the store
  * @param visitedEntities - Tracking for circular references
+ * @param path - The path to the input
  * @returns The normalized array of values
  */
 export function normalize(
@@ -47,13 +86,24 @@ export function normalize(
   visit: VisitFn,
   addEntity: AddEntityFn,
   visitedEntities: VisitedEntities,
+  path: NormalizePath = ROOT_PATH,
 ): unknown[] {
-  const validatedSchema = validateSchema(schema);
+  const validatedSchema = validateSchema(schema, path);
   const values = getValues(input);
+  const segments = getSegments(input);
 
   // Special case: Arrays pass *their* parent on to their children, since there
   // is not any special information that can be gathered from themselves directly
-  return values.map((value) => visit(value, parent, key, validatedSchema, addEntity, visitedEntities));
+  const output: unknown[] = [];
+  values.forEach((value, index) => {
+    const valuePath = appendPath(path, segments[index]);
+    const normalizedValue = visit(value, parent, key, validatedSchema, addEntity, visitedEntities, valuePath);
+    // Values left out of the result, e.g. by the `'skip'` onError mode, are dropped
+    if (!visit.isSkipped?.(valuePath)) {
+      output.push(normalizedValue);
+    }
+  });
+  return output;
 }
 
 /**
@@ -74,7 +124,8 @@ export function denormalize(
   const arrayInput = input as unknown[] | { map?: (fn: (v: unknown) => unknown) => unknown[] };
 
   if (arrayInput && typeof arrayInput.map === 'function') {
-    return arrayInput.map((entityOrId: unknown) => unvisit(entityOrId, validatedSchema));
+    // References to invalidated entities are dropped
+    return withoutInvalidated(arrayInput.map((entityOrId: unknown) => unvisit(entityOrId, validatedSchema)));
   }
   return input;
 }
@@ -109,11 +160,23 @@ export class ArraySchema<TDefinition extends Schema = Schema> extends Polymorphi
     visit: VisitFn,
     addEntity: AddEntityFn,
     visitedEntities: VisitedEntities,
+    path: NormalizePath = ROOT_PATH,
   ): unknown[] {
     const values = getValues(input);
+    const segments = getSegments(input);
 
     return values
-      .map((value) => this.normalizeValue(value, parent, key ?? '', visit, addEntity, visitedEntities))
+      .map((value, index) =>
+        this.normalizeValue(
+          value,
+          parent,
+          key ?? '',
+          visit,
+          addEntity,
+          visitedEntities,
+          appendPath(path, segments[index]),
+        ),
+      )
       .filter((value) => value !== undefined && value !== null);
   }
 
@@ -125,7 +188,8 @@ export class ArraySchema<TDefinition extends Schema = Schema> extends Polymorphi
     const arrayInput = input as unknown[] | { map?: (fn: (v: unknown) => unknown) => unknown[] };
 
     if (arrayInput && typeof arrayInput.map === 'function') {
-      return arrayInput.map((value: unknown) => this.denormalizeValue(value, unvisit));
+      // References to invalidated entities are dropped
+      return withoutInvalidated(arrayInput.map((value: unknown) => this.denormalizeValue(value, unvisit)));
     }
     return input;
   }
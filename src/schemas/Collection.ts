@@ -0,0 +1,206 @@
+import EntitySchema from './Entity.js';
+import * as ArrayUtils from './Array.js';
+import { hasOwn } from '../utils/hasOwn.js';
+import { describeType } from '../utils/describeType.js';
+import { uniqueReferences } from '../utils/uniqueReferences.js';
+import { InvalidInputError, InvalidSchemaError, ROOT_PATH, appendPath } from '../errors.js';
+import type {
+  Schema,
+  CollectionData,
+  CollectionMergeMode,
+  CollectionOptions,
+  CollectionPageOptions,
+  Denormalized,
+  VisitFn,
+  AddEntityFn,
+  VisitedEntities,
+  NormalizePath,
+} from '../types.js';
+
+/**
+ * Get the items of a stored collection.
+ */
+function itemsOf(collection: Record<string, unknown>): unknown[] {
+  return Array.isArray(collection.items) ? collection.items : [];
+}
+
+/**
+ * Collection schema for normalizing the pages of a paginated list.
+ *
+ * A page (`{ items, nextCursor, prevCursor, total }`) is normalized with
+ * `page(args)`, which gives the query args the page was fetched with. The
+ * collection is stored in the entities store like an entity: in the table
+ * named by the collection's `key`, under the key `getCollectionKey(args)`
+ * returns. The result is that collection key.
+ *
+ * Normalizing another page of the same collection into a store appends (or
+ * prepends) its items to the stored ones, leaving out items that are already
+ * there, and updates the cursor of that end of the list. The page's mode is
+ * stored with it, so that merging the normalized page later (e.g. with
+ * `EntityStore.ingest`) combines it the same way. Denormalizing the
+ * collection key gives back every item normalized so far, as a single ordered list.
+ *
+ * @typeParam TItem - The schema of the items
+ * @typeParam TKey - The literal string key of the collections table
+ * @typeParam TArgs - The type of the query args
+ *
+ * @example
+ * ```typescript
+ * const article = new schema.Entity('articles');
+ * const feed = new schema.Collection(article, {
+ *   key: 'feeds',
+ *   getCollectionKey: (args: { tag: string }) => args.tag,
+ * });
+ *
+ * const first = normalize(page1, feed.page({ tag: 'js' }));
+ * const { entities } = normalizeInto(first.entities, page2, feed.page({ tag: 'js' }));
+ * denormalize('js', feed, entities); // { args: { tag: 'js' }, items: [...page1.items, ...page2.items], ... }
+ * ```
+ */
+export class CollectionSchema<
+  TItem extends Schema = Schema,
+  TKey extends string = string,
+  TArgs = Record<string, unknown>,
+> extends EntitySchema<TKey, CollectionData<Denormalized<TItem>, TArgs>, { items: [TItem] }> {
+  private _options: CollectionOptions<TKey, TArgs>;
+  private _args?: TArgs;
+  private _mode: CollectionMergeMode = 'append';
+
+  /**
+   * Create a new Collection schema.
+   *
+   * @param itemSchema - The schema of the items of the pages
+   * @param options - The key of the collections table, and how to key collections by query args
+   */
+  constructor(itemSchema: TItem, options: CollectionOptions<TKey, TArgs>) {
+    super(options.key, { items: [itemSchema] });
+    if (typeof options.getCollectionKey !== 'function') {
+      throw new InvalidSchemaError(`Expected a getCollectionKey function for collection "${options.key}".`);
+    }
+    this._options = options;
+  }
+
+  /**
+   * The query args pages are normalized with, if given with `page()`.
+   */
+  get args(): TArgs | undefined {
+    return this._args;
+  }
+
+  /**
+   * Get a schema to normalize a page of the collection fetched with the given
+   * query args. It stores the page in the same table as this schema.
+   *
+   * @param args - The query args the page was fetched with
+   * @param options - How the page is combined with the stored collection
+   * @returns A Collection schema for the page
+   */
+  page(args: TArgs, { mode = 'append' }: CollectionPageOptions = {}): CollectionSchema<TItem, TKey, TArgs> {
+    const page = new CollectionSchema<TItem, TKey, TArgs>(this.schema.items[0], this._options);
+    page._args = args;
+    page._mode = mode;
+    return page;
+  }
+
+  /**
+   * Get the key of the collection in its table, from the query args given with `page()`.
+   */
+  getId(): string {
+    return this._collectionKey();
+  }
+
+  /**
+   * Get the key of the collection in its table.
+   *
+   * @param path - The path to the page, for error reporting
+   * @throws InvalidSchemaError if no query args were given with `page()`
+   */
+  private _collectionKey(path?: NormalizePath): string {
+    if (this._args === undefined) {
+      throw new InvalidSchemaError(
+        `Expected query args for collection "${this.key}", normalize pages with \`page(args)\`.`,
+        { path },
+      );
+    }
+    return this._options.getCollectionKey(this._args);
+  }
+
+  /**
+   * Combine a page with the stored collection, according to the `mode` stored with the page.
+   */
+  merge(existingEntity: Record<string, unknown>, newEntity: Record<string, unknown>): Record<string, unknown> {
+    if (newEntity.mode === 'replace') {
+      return newEntity;
+    }
+    const prepend = newEntity.mode === 'prepend';
+    const items = prepend
+      ? [...itemsOf(newEntity), ...itemsOf(existingEntity)]
+      : [...itemsOf(existingEntity), ...itemsOf(newEntity)];
+    const merged: Record<string, unknown> = { ...existingEntity, ...newEntity, items: uniqueReferences(items) };
+    if (!hasOwn(newEntity, 'mode')) {
+      delete merged.mode;
+    }
+
+    // The page only tells where the list continues at the end it was added to
+    const otherCursor = prepend ? 'nextCursor' : 'prevCursor';
+    if (hasOwn(existingEntity, otherCursor)) {
+      merged[otherCursor] = existingEntity[otherCursor];
+    } else {
+      delete merged[otherCursor];
+    }
+    return merged;
+  }
+
+  /**
+   * Validate that input is a page with an array of items.
+   *
+   * @throws InvalidInputError if the input is not an object with an `items` array
+   */
+  validate(input: unknown, path?: NormalizePath): CollectionData<Denormalized<TItem>, TArgs> {
+    const page = super.validate(input, path);
+    const items: unknown = page.items;
+    if (!Array.isArray(items)) {
+      throw new InvalidInputError(
+        `Expected an "items" array in the page of collection "${this.key}", but found ${describeType(items)}.`,
+        { path, value: input, schemaKey: this.key },
+      );
+    }
+    return page;
+  }
+
+  /**
+   * Normalize a page, storing its items in the collection, and return the collection key.
+   */
+  normalize(
+    input: unknown,
+    parent: unknown,
+    key: string | undefined,
+    visit: VisitFn,
+    addEntity: AddEntityFn,
+    visitedEntities: VisitedEntities,
+    path: NormalizePath = ROOT_PATH,
+  ): string {
+    const page = this.validate(input, path);
+    const id = this._collectionKey(path);
+    const items = ArrayUtils.normalize(
+      this.schema.items,
+      page.items,
+      page,
+      'items',
+      visit,
+      addEntity,
+      visitedEntities,
+      appendPath(path, 'items'),
+    );
+
+    const collection: Record<string, unknown> = { ...page, args: this._args, items: uniqueReferences(items) };
+    // Appending is the default, so only the other modes are stored
+    if (this._mode !== 'append') {
+      collection.mode = this._mode;
+    }
+    addEntity(this, collection, page, parent, key, id, path);
+    return id;
+  }
+}
+
+export default CollectionSchema;
@@ -0,0 +1,188 @@
+import { hasOwn } from '../utils/hasOwn.js';
+import { isObject } from '../utils/isObject.js';
+import { describeType } from '../utils/describeType.js';
+import { isInvalidated } from '../utils/invalidated.js';
+import { uniqueReferences } from '../utils/uniqueReferences.js';
+import { InvalidInputError, ROOT_PATH, appendPath } from '../errors.js';
+import type {
+  Schema,
+  ConnectionData,
+  ConnectionDirection,
+  ConnectionEdge,
+  ConnectionPageInfo,
+  Denormalized,
+  Normalized,
+  VisitFn,
+  AddEntityFn,
+  VisitedEntities,
+  UnvisitFn,
+  NormalizePath,
+} from '../types.js';
+
+/**
+ * Pick the fields of a page info that describe one end of the connection.
+ */
+function pickPageInfo(
+  pageInfo: ConnectionPageInfo | undefined,
+  fields: ReadonlyArray<keyof ConnectionPageInfo>,
+): ConnectionPageInfo {
+  // Cast justified: the entries are fields of a ConnectionPageInfo
+  return Object.fromEntries(
+    fields.filter((field) => pageInfo && hasOwn(pageInfo, field)).map((field) => [field, pageInfo![field]]),
+  ) as ConnectionPageInfo;
+}
+
+/**
+ * Connection schema for normalizing GraphQL Relay connections.
+ *
+ * The `node` of every edge is normalized with the node schema and replaced
+ * with its ID (or reference). Edge cursors, `pageInfo` and the other fields
+ * of the connection are kept in the normalized result as is.
+ *
+ * Pages fetched one after the other are combined with `mergePages()`.
+ *
+ * @typeParam TNode - The schema of the nodes
+ *
+ * @example
+ * ```typescript
+ * const user = new schema.Entity('users');
+ * const friends = new schema.Connection(user);
+ *
+ * normalize({ edges: [{ cursor: 'c1', node: { id: '1' } }], pageInfo: { hasNextPage: false } }, friends);
+ * // result: { edges: [{ cursor: 'c1', node: '1' }], pageInfo: { hasNextPage: false } }
+ * // entities: { users: { '1': { id: '1' } } }
+ * ```
+ */
+export class ConnectionSchema<TNode extends Schema = Schema> {
+  /**
+   * The schema of the nodes.
+   */
+  public schema: TNode;
+
+  /**
+   * Create a new Connection schema.
+   *
+   * @param nodeSchema - The schema of the nodes of the edges
+   */
+  constructor(nodeSchema: TNode) {
+    this.schema = nodeSchema;
+  }
+
+  /**
+   * Normalize a connection, replacing the node of every edge with its ID.
+   * Edges whose node is skipped are dropped.
+   *
+   * @throws InvalidInputError if the input is not an object with an `edges` array
+   */
+  normalize(
+    input: unknown,
+    _parent: unknown,
+    _key: string | undefined,
+    visit: VisitFn,
+    addEntity: AddEntityFn,
+    visitedEntities: VisitedEntities,
+    path: NormalizePath = ROOT_PATH,
+  ): ConnectionData<Normalized<TNode>> {
+    if (!isObject(input) || !Array.isArray(input.edges)) {
+      throw new InvalidInputError(
+        isObject(input)
+          ? `Expected an "edges" array in the connection, but found ${describeType(input.edges)}.`
+          : `Expected an object for the connection, but received ${describeType(input)}.`,
+        { path, value: input },
+      );
+    }
+
+    const edges: unknown[] = [];
+    input.edges.forEach((edge: unknown, index) => {
+      const edgePath = appendPath(appendPath(path, 'edges'), index);
+      if (!isObject(edge)) {
+        throw new InvalidInputError(`Expected an object for the edge, but received ${describeType(edge)}.`, {
+          path: edgePath,
+          value: edge,
+        });
+      }
+      const node = visit(
+        edge.node,
+        edge,
+        'node',
+        this.schema,
+        addEntity,
+        visitedEntities,
+        appendPath(edgePath, 'node'),
+      );
+      // Edges whose node was skipped (normalized to nothing) are dropped
+      if (edge.node === undefined || node !== undefined) {
+        edges.push({ ...edge, node });
+      }
+    });
+
+    // Cast justified: the edges hold the normalized nodes, the other fields are kept as is
+    return { ...input, edges } as unknown as ConnectionData<Normalized<TNode>>;
+  }
+
+  /**
+   * Denormalize a connection, replacing the node of every edge with the full
+   * entity. Edges whose node was invalidated are dropped.
+   */
+  denormalize(input: unknown, unvisit: UnvisitFn): ConnectionData<Denormalized<TNode>> {
+    if (!isObject(input) || !Array.isArray(input.edges)) {
+      // Cast justified: values that are not connections are returned as is
+      return input as ConnectionData<Denormalized<TNode>>;
+    }
+
+    const edges = input.edges
+      .map((edge: unknown) => (isObject(edge) ? { ...edge, node: unvisit(edge.node, this.schema) } : edge))
+      .filter((edge) => !isObject(edge) || !isInvalidated(edge.node));
+
+    // Cast justified: the edges hold the denormalized nodes, the other fields are kept as is
+    return { ...input, edges } as unknown as ConnectionData<Denormalized<TNode>>;
+  }
+
+  /**
+   * Combine two normalized pages of a connection into one.
+   *
+   * Going `'forward'`, the edges of `next` are added after those of
+   * `previous`, and `next` tells whether there is a next page (`hasNextPage`
+   * and `endCursor`). Going `'backward'`, they are added before, and `next`
+   * tells whether there is a previous page (`hasPreviousPage` and
+   * `startCursor`). Edges whose node is already in the connection are left out.
+   *
+   * @param previous - The pages combined so far, if any
+   * @param next - The page fetched after (or before) them
+   * @param direction - The direction `next` was fetched in. Defaults to `'forward'`.
+   * @returns The combined connection
+   *
+   * @example
+   * ```typescript
+   * const first = normalize(page1, friends);
+   * const second = normalizeInto(first.entities, page2, friends);
+   * const result = friends.mergePages(first.result, second.result);
+   * denormalize(result, friends, second.entities);
+   * ```
+   */
+  mergePages(
+    previous: ConnectionData<Normalized<TNode>> | undefined,
+    next: ConnectionData<Normalized<TNode>>,
+    direction: ConnectionDirection = 'forward',
+  ): ConnectionData<Normalized<TNode>> {
+    if (!previous) {
+      return next;
+    }
+    const forward = direction === 'forward';
+    const edges = uniqueReferences(
+      forward ? [...previous.edges, ...next.edges] : [...next.edges, ...previous.edges],
+      (edge: ConnectionEdge<Normalized<TNode>>) => edge.node,
+    );
+    const merged: ConnectionData<Normalized<TNode>> = { ...previous, ...next, edges };
+
+    if (previous.pageInfo || next.pageInfo) {
+      merged.pageInfo = {
+        ...previous.pageInfo,
+        ...pickPageInfo(next.pageInfo, forward ? ['hasNextPage', 'endCursor'] : ['hasPreviousPage', 'startCursor']),
+      };
+    }
+    return merged;
+  }
+}
+
+export default ConnectionSchema;
@@ -1,4 +1,16 @@
 import { hasOwn } from '../utils/hasOwn.js';
+import { isObject } from '../utils/isObject.js';
+import { describeType } from '../utils/describeType.js';
+import { isInvalidated } from '../utils/invalidated.js';
+import { composeId, splitId } from '../utils/compositeId.js';
+import {
+  InvalidInputError,
+  InvalidSchemaError,
+  MissingIdError,
+  ValidationError,
+  ROOT_PATH,
+  appendPath,
+} from '../errors.js';
 import type {
   Schema,
   SchemaDefinition,
@@ -8,14 +20,41 @@ import type {
   MergeStrategy,
   ProcessStrategy,
   FallbackStrategy,
+  MissingIdStrategy,
+  InverseDefinition,
+  IndexDefinitions,
+  StandardSchemaV1,
+  StandardSchemaIssue,
   VisitFn,
   AddEntityFn,
   VisitedEntities,
   UnvisitFn,
   EntitySchemaInterface,
   SchemaFunction,
+  NormalizePath,
 } from '../types.js';
 
+/**
+ * Check if an ID can be used as a key in the entities store.
+ */
+function isValidId(id: unknown): id is IdType {
+  return typeof id === 'string' || (typeof id === 'number' && !Number.isNaN(id));
+}
+
+/**
+ * Describe the issues found by a validator, e.g. `email: Invalid email; name: Required`.
+ */
+function formatIssues(issues: readonly StandardSchemaIssue[]): string {
+  return issues
+    .map((issue) => {
+      const path = (issue.path ?? [])
+        .map((segment) => String(typeof segment === 'object' ? segment.key : segment))
+        .join('.');
+      return path ? `${path}: ${issue.message}` : issue.message;
+    })
+    .join('; ');
+}
+
 /**
  * Get the default ID getter function for a string idAttribute.
  */
@@ -26,6 +65,21 @@ function getDefaultGetId<T>(idAttribute: string): (input: T, parent: unknown, ke
   };
 }
 
+/**
+ * Get the ID getter function for an array idAttribute, which composes the
+ * values of the fields into a single ID. The ID is undefined if any of the
+ * fields is missing, so that the entity's `missingIdStrategy` applies.
+ */
+function getCompositeGetId<T>(
+  idAttribute: readonly string[],
+): (input: T, parent: unknown, key: string | undefined) => IdType | undefined {
+  return (input: T) => {
+    // Cast justified: T is constrained to object types, accessing properties by string keys
+    const parts = idAttribute.map((field) => (input as Record<string, unknown>)[field]);
+    return parts.every(isValidId) ? composeId(parts) : undefined;
+  };
+}
+
 /**
  * Entity schema for normalizing objects with an ID.
  *
@@ -40,10 +94,14 @@ export class EntitySchema<
 > implements EntitySchemaInterface {
   private _key: TKey;
   private _idAttribute: IdAttribute<TData>;
-  private _getId: (input: TData, parent: unknown, key: string | undefined) => IdType;
+  private _getId: (input: TData, parent: unknown, key: string | undefined) => IdType | undefined;
   private _mergeStrategy: MergeStrategy<Record<string, unknown>>;
   private _processStrategy: ProcessStrategy<TData>;
   private _fallbackStrategy: FallbackStrategy<TData>;
+  private _missingIdStrategy: MissingIdStrategy<TData>;
+  private _inverse: InverseDefinition = {};
+  private _indexes: IndexDefinitions;
+  private _validator?: StandardSchemaV1<unknown, TData>;
 
   /**
    * Phantom property for type inference. Not used at runtime.
@@ -70,7 +128,7 @@ export class EntitySchema<
     options: EntityOptions<TData> = {},
   ) {
     if (!key || typeof key !== 'string') {
-      throw new Error(`Expected a string key for Entity, but found ${key}.`);
+      throw new InvalidSchemaError(`Expected a string key for Entity, but found ${key}.`);
     }
 
     const {
@@ -78,18 +136,35 @@ export class EntitySchema<
       mergeStrategy = (entityA, entityB) => ({ ...entityA, ...entityB }),
       processStrategy = (input) => ({ ...input }),
       fallbackStrategy = () => undefined,
+      missingIdStrategy = 'keep',
+      inverse = {},
+      indexes = {},
+      validator,
     } = options;
 
+    if (Array.isArray(idAttribute) && idAttribute.length === 0) {
+      throw new InvalidSchemaError(`Expected at least one field in the idAttribute of entity "${key}".`);
+    }
+
     this._key = key;
     this._idAttribute = idAttribute;
-    this._getId = typeof idAttribute === 'function' ? idAttribute : getDefaultGetId<TData>(idAttribute);
+    this._getId =
+      typeof idAttribute === 'function'
+        ? idAttribute
+        : typeof idAttribute === 'string'
+          ? getDefaultGetId<TData>(idAttribute)
+          : getCompositeGetId<TData>(idAttribute);
     // Cast justified: TData extends Record<string, unknown>, so this is a widening cast
     this._mergeStrategy = mergeStrategy as MergeStrategy<Record<string, unknown>>;
     this._processStrategy = processStrategy;
     this._fallbackStrategy = fallbackStrategy;
+    this._missingIdStrategy = missingIdStrategy;
+    this._indexes = indexes;
+    this._validator = validator;
     // Cast justified: {} satisfies SchemaDefinition, will be populated by define()
     this.schema = {} as TDefinition;
     this.define(definition);
+    this.defineInverse(inverse);
   }
 
   /**
@@ -140,13 +215,152 @@ export class EntitySchema<
   }
 
   /**
-   * Get the ID for an entity.
+   * The secondary indexes of this entity, by field name.
    */
-  getId(input: unknown, parent: unknown, key: string | undefined): IdType {
+  get indexes(): IndexDefinitions {
+    return this._indexes;
+  }
+
+  /**
+   * The back-reference fields of this entity.
+   */
+  get inverse(): InverseDefinition {
+    return this._inverse;
+  }
+
+  /**
+   * Define or extend the back-reference fields of this entity. Like `define()`,
+   * this is useful when the other schema references this one, and so is
+   * created after it.
+   *
+   * Each field is populated during normalization with the IDs of the entities
+   * of the source schema that reference this entity through the source field,
+   * and is added to the definition so that it is denormalized.
+   *
+   * @example
+   * ```typescript
+   * const user = new schema.Entity('users');
+   * const article = new schema.Entity('articles', { author: user });
+   * user.defineInverse({ articles: [article, 'author'] });
+   * ```
+   *
+   * @param inverse - The back-reference fields to add, by field name
+   * @throws InvalidSchemaError if a field isn't given an entity schema and a field name
+   */
+  defineInverse(inverse: InverseDefinition): void {
+    Object.keys(inverse).forEach((field) => {
+      const [source, sourceField] = inverse[field];
+      if (!(source instanceof EntitySchema) || typeof sourceField !== 'string') {
+        throw new InvalidSchemaError(
+          `Expected an entity schema and a field name for the inverse field "${field}" of entity "${this.key}".`,
+        );
+      }
+    });
+
+    this._inverse = { ...this._inverse, ...inverse };
+    // Inverse fields hold arrays of the source entities, added to the definition for denormalization
+    const fields: Record<string, readonly [Schema]> = Object.fromEntries(
+      Object.keys(inverse).map((field) => [field, [inverse[field][0]]]),
+    );
+    this.schema = { ...this.schema, ...fields };
+  }
+
+  /**
+   * Get the ID for an entity, or undefined if it has none.
+   */
+  getId(input: unknown, parent: unknown, key: string | undefined): IdType | undefined {
     // Cast justified: callers pass entity data; we accept unknown for interface compatibility
     return this._getId(input as TData, parent, key);
   }
 
+  /**
+   * Split an ID into the values of the fields it was made from, e.g. for
+   * lookups or in a `fallbackStrategy`. With an array idAttribute, this undoes
+   * the composition of the fields into a single ID.
+   *
+   * Values are returned as strings, since numbers can't be told apart from
+   * numeric strings once composed.
+   *
+   * @param id - An ID of this entity
+   * @returns The value of each idAttribute field, by field name
+   * @throws InvalidSchemaError if the idAttribute is a function
+   * @throws InvalidInputError if the ID doesn't have one part per idAttribute field
+   */
+  parseId(id: IdType): Record<string, string> {
+    const idAttribute: IdAttribute<TData> = this._idAttribute;
+    if (typeof idAttribute === 'function') {
+      throw new InvalidSchemaError(`Cannot parse the IDs of entity "${this.key}", its idAttribute is a function.`);
+    }
+    if (typeof idAttribute === 'string') {
+      return { [idAttribute]: String(id) };
+    }
+
+    const parts = splitId(id);
+    if (parts.length !== idAttribute.length) {
+      throw new InvalidInputError(
+        `Expected an ID with ${idAttribute.length} parts for entity "${this.key}", but found "${id}".`,
+        { value: id, schemaKey: this.key },
+      );
+    }
+    return Object.fromEntries(idAttribute.map((field, index) => [field, parts[index]]));
+  }
+
+  /**
+   * Get the ID for an entity being normalized, applying the `missingIdStrategy`
+   * when the ID is missing or invalid.
+   *
+   * @param input - The entity data
+   * @param parent - The parent of the entity
+   * @param key - The key of the entity in its parent
+   * @param path - The path to the entity, for error reporting
+   * @returns The ID, or undefined if the entity should be skipped
+   * @throws MissingIdError if the ID is invalid and the strategy is `'throw'`, or if the generated ID is invalid
+   */
+  resolveId(input: unknown, parent: unknown, key: string | undefined, path?: NormalizePath): IdType | undefined {
+    return this._resolveId(this.getId(input, parent, key), input, parent, key, path);
+  }
+
+  /**
+   * Apply the `missingIdStrategy` to an ID found by `getId()`, if it is missing or invalid.
+   */
+  private _resolveId(
+    id: unknown,
+    input: unknown,
+    parent: unknown,
+    key: string | undefined,
+    path: NormalizePath | undefined,
+  ): IdType | undefined {
+    if (isValidId(id)) {
+      return id;
+    }
+
+    const strategy = this._missingIdStrategy;
+    if (strategy === 'keep') {
+      return String(id);
+    }
+    if (strategy === 'skip') {
+      return undefined;
+    }
+    if (strategy === 'throw') {
+      throw new MissingIdError(`Expected a string or number ID for entity "${this.key}", but found ${String(id)}.`, {
+        path,
+        value: input,
+        schemaKey: this.key,
+      });
+    }
+    // Cast justified: callers pass entity data; we accept unknown for interface compatibility
+    const generatedId: unknown = strategy(input as TData, parent, key);
+    if (!isValidId(generatedId)) {
+      throw new MissingIdError(
+        `Expected the missingIdStrategy of entity "${this.key}" to generate a string or number ID, but found ${String(
+          generatedId,
+        )}.`,
+        { path, value: input, schemaKey: this.key },
+      );
+    }
+    return generatedId;
+  }
+
   /**
    * Merge two entities with the same ID.
    */
@@ -168,20 +382,48 @@ export class EntitySchema<
    * checking for required fields or validating against a schema.
    *
    * @param input - The input to validate
+   * @param path - The path to the input, for error reporting
    * @returns The validated input as TData
-   * @throws Error if the input is not a valid object
+   * @throws InvalidInputError if the input is not a valid object
    */
-  validate(input: unknown): TData {
-    if (input === null || typeof input !== 'object' || Array.isArray(input)) {
-      throw new Error(
-        `Expected an object for entity "${this.key}", but received ${
-          input === null ? 'null' : Array.isArray(input) ? 'an array' : typeof input
-        }.`,
-      );
+  validate(input: unknown, path?: NormalizePath): TData {
+    if (!isObject(input)) {
+      throw new InvalidInputError(`Expected an object for entity "${this.key}", but received ${describeType(input)}.`, {
+        path,
+        value: input,
+        schemaKey: this.key,
+      });
     }
     return input as TData;
   }
 
+  /**
+   * Run the entity's `validator`, if any, on a validated input.
+   *
+   * @param input - The input, already checked by `validate()`
+   * @param path - The path to the input, for error reporting
+   * @returns The validator's output, or the input without a validator
+   * @throws ValidationError if the validator reports issues
+   * @throws InvalidSchemaError if the validator is asynchronous
+   */
+  private _runValidator(input: TData, path: NormalizePath): TData {
+    if (!this._validator) {
+      return input;
+    }
+    const result = this._validator['~standard'].validate(input);
+    if (result instanceof Promise) {
+      throw new InvalidSchemaError(`Expected a synchronous validator for entity "${this.key}".`);
+    }
+    if (result.issues) {
+      throw new ValidationError(`Invalid entity "${this.key}": ${formatIssues(result.issues)}.`, result.issues, {
+        path,
+        value: input,
+        schemaKey: this.key,
+      });
+    }
+    return result.value;
+  }
+
   /**
    * Normalize an entity, extracting nested entities and replacing them with IDs.
    */
@@ -192,22 +434,29 @@ export class EntitySchema<
     visit: VisitFn,
     addEntity: AddEntityFn,
     visitedEntities: VisitedEntities,
-  ): IdType {
-    const typedInput = this.validate(input);
-    const id = this.getId(typedInput, parent, key);
+    path: NormalizePath = ROOT_PATH,
+  ): IdType | undefined {
+    const typedInput = this._runValidator(this.validate(input, path), path);
+    const ownId = this.getId(typedInput, parent, key);
+    const id = this._resolveId(ownId, typedInput, parent, key, path);
+    if (id === undefined) {
+      visit.skip?.(path);
+      return undefined;
+    }
     const entityType = this.key;
 
-    // Track visited entities to handle circular references
+    // Track visited entities to handle circular references. The raw input is
+    // tracked, since validators may return a new object on every visit
     if (!hasOwn(visitedEntities, entityType)) {
       visitedEntities[entityType] = {};
     }
     if (!hasOwn(visitedEntities[entityType], id)) {
       visitedEntities[entityType][id] = [];
     }
-    if (visitedEntities[entityType][id].some((entity) => entity === typedInput)) {
+    if (visitedEntities[entityType][id].some((entity) => entity === input)) {
       return id;
     }
-    visitedEntities[entityType][id].push(typedInput);
+    visitedEntities[entityType][id].push(input);
 
     // Process the entity (transform, add defaults, etc.)
     // Cast justified: processStrategy returns TData, but we need to mutate it as a generic record
@@ -231,12 +480,15 @@ export class EntitySchema<
           resolvedSchema,
           addEntity,
           visitedEntities,
+          appendPath(path, schemaKey),
         );
       }
     });
 
-    addEntity(this, processedEntity, typedInput, parent, key);
-    return id;
+    // The store gets the IDs found by getId() from the input itself, only other IDs are passed on
+    addEntity(this, processedEntity, typedInput, parent, key, id === ownId ? undefined : id, path);
+    // Entities kept without a valid ID are stored, but can't be referenced
+    return id === ownId || this._missingIdStrategy !== 'keep' ? id : undefined;
   }
 
   /**
@@ -254,7 +506,9 @@ export class EntitySchema<
       if (Object.prototype.hasOwnProperty.call(typedEntity, schemaKey)) {
         // Cast justified: Object.keys() returns string[], but schemaKey is from this.schema
         const nestedSchema = this.schema[schemaKey as keyof TDefinition] as Schema;
-        typedEntity[schemaKey] = unvisit(typedEntity[schemaKey], nestedSchema);
+        const value = unvisit(typedEntity[schemaKey], nestedSchema);
+        // Invalidated entities are treated as missing
+        typedEntity[schemaKey] = isInvalidated(value) ? undefined : value;
       }
     });
 
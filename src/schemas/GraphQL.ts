@@ -0,0 +1,226 @@
+import EntitySchema from './Entity.js';
+import { PolymorphicSchema } from './Polymorphic.js';
+import { hasOwn } from '../utils/hasOwn.js';
+import { isObject } from '../utils/isObject.js';
+import { isInvalidated } from '../utils/invalidated.js';
+import { ROOT_PATH, appendPath } from '../errors.js';
+import type { IdType, VisitFn, AddEntityFn, VisitedEntities, UnvisitFn, NormalizePath } from '../types.js';
+
+/**
+ * GraphQL schema for normalizing responses using `__typename`.
+ *
+ * Every object found anywhere in the input whose `__typename` is a key of the
+ * registry, and which has an ID, is normalized with that entity schema. Its
+ * fields are searched for further entities as well, so nested fields don't
+ * need to be declared in entity definitions. Fields that are declared in an
+ * entity's definition are normalized with their declared schema.
+ *
+ * Entities are replaced with `{ id, schema }` references, where `schema` is
+ * the typename, like the references produced by `schema.Union`. Objects that
+ * are not entities (connections, payloads, ...) are kept in place.
+ *
+ * @example
+ * ```typescript
+ * const user = new schema.Entity('users');
+ * const post = new schema.Entity('posts');
+ * const graphql = new schema.GraphQL({ User: user, Post: post });
+ *
+ * normalize({ viewer: { __typename: 'User', id: '1', posts: [{ __typename: 'Post', id: '7' }] } }, graphql);
+ * // result: { viewer: { id: '1', schema: 'User' } }
+ * // entities: {
+ * //   posts: { '7': { __typename: 'Post', id: '7' } },
+ * //   users: { '1': { __typename: 'User', id: '1', posts: [{ id: '7', schema: 'Post' }] } }
+ * // }
+ * ```
+ */
+export class GraphQLSchema<
+  TDefinition extends Record<string, EntitySchema> = Record<string, EntitySchema>,
+> extends PolymorphicSchema<TDefinition> {
+  /**
+   * Create a new GraphQL schema.
+   *
+   * @param definition - A mapping of GraphQL typenames to entity schemas
+   */
+  constructor(definition: TDefinition) {
+    super(definition, '__typename');
+  }
+
+  /**
+   * Get the entity schema registered for an object's `__typename`, if any.
+   */
+  private getEntitySchema(value: Record<string, unknown>): EntitySchema | undefined {
+    const typename = value.__typename;
+    return typeof typename === 'string' && hasOwn(this.schema, typename) ? this.schema[typename] : undefined;
+  }
+
+  /**
+   * Check if a value is an `{ id, schema }` reference to a registered typename.
+   */
+  isReference(value: unknown): value is { id: IdType; schema: string } {
+    if (!isObject(value)) {
+      return false;
+    }
+    const keys = Object.keys(value);
+    return (
+      keys.length === 2 && hasOwn(value, 'id') && typeof value.schema === 'string' && hasOwn(this.schema, value.schema)
+    );
+  }
+
+  /**
+   * Normalize a GraphQL response, replacing every entity found with a reference.
+   */
+  normalize(
+    input: unknown,
+    parent: unknown,
+    key: string | undefined,
+    visit: VisitFn,
+    addEntity: AddEntityFn,
+    visitedEntities: VisitedEntities,
+    path: NormalizePath = ROOT_PATH,
+  ): unknown {
+    if (Array.isArray(input)) {
+      return input.map((item, index) =>
+        this.normalize(item, input, key, visit, addEntity, visitedEntities, appendPath(path, index)),
+      );
+    }
+    if (!isObject(input)) {
+      return input;
+    }
+
+    const entitySchema = this.getEntitySchema(input);
+    const id = entitySchema?.getId(input, parent, key);
+    // Cast justified: entity definitions map field names to schemas
+    const definition = (entitySchema?.schema ?? {}) as Record<string, unknown>;
+
+    // Normalize every field that the entity definition (if any) doesn't handle
+    const output: Record<string, unknown> = { ...input };
+    Object.keys(input).forEach((field) => {
+      if (!hasOwn(definition, field)) {
+        output[field] = this.normalize(
+          input[field],
+          input,
+          field,
+          visit,
+          addEntity,
+          visitedEntities,
+          appendPath(path, field),
+        );
+      }
+    });
+
+    if (!entitySchema || id === undefined || id === null) {
+      return output;
+    }
+
+    return {
+      id: visit(output, parent, key, entitySchema, addEntity, visitedEntities, path),
+      schema: input.__typename,
+    };
+  }
+
+  /**
+   * Denormalize a GraphQL result, replacing every reference with its entity.
+   *
+   * Entities are resolved into new objects on every call, so a `DenormalizeCache`
+   * doesn't return the same object for GraphQL results.
+   */
+  denormalize(input: unknown, unvisit: UnvisitFn): unknown {
+    return this.denormalizeResult(input, unvisit, new Map());
+  }
+
+  /**
+   * Denormalize a value of the result, with the entities resolved so far.
+   */
+  private denormalizeResult(
+    input: unknown,
+    unvisit: UnvisitFn,
+    resolvedEntities: Map<object, Record<string, unknown>>,
+  ): unknown {
+    if (Array.isArray(input)) {
+      // References to invalidated entities are dropped
+      return input
+        .map((item) => this.denormalizeResult(item, unvisit, resolvedEntities))
+        .filter((item) => !isInvalidated(item));
+    }
+    if (!isObject(input)) {
+      return input;
+    }
+
+    if (this.isReference(input)) {
+      const entitySchema = this.schema[input.schema];
+      return this.resolveEntity(unvisit(input.id, entitySchema), entitySchema, unvisit, resolvedEntities);
+    }
+
+    // Copy objects that are not entities, so the entities store is never mutated
+    return Object.keys(input).reduce(
+      (output, field) => ({ ...output, [field]: this.denormalizeField(input[field], unvisit, resolvedEntities) }),
+      // Cast justified: empty object accumulator, will be populated by reduction
+      {} as Record<string, unknown>,
+    );
+  }
+
+  /**
+   * Denormalize the value of a field, treating invalidated entities as missing.
+   */
+  private denormalizeField(
+    value: unknown,
+    unvisit: UnvisitFn,
+    resolvedEntities: Map<object, Record<string, unknown>>,
+  ): unknown {
+    const denormalized = this.denormalizeResult(value, unvisit, resolvedEntities);
+    return isInvalidated(denormalized) ? undefined : denormalized;
+  }
+
+  /**
+   * Copy a denormalized entity, resolving the references in the fields that
+   * its entity definition doesn't handle. Entities nested through definition
+   * fields are resolved as well. The denormalized entity is never mutated, as
+   * it may be shared with other denormalize calls through a `DenormalizeCache`.
+   *
+   * Each entity is resolved once per result, so circular references resolve
+   * to the same copy.
+   */
+  private resolveEntity(
+    entity: unknown,
+    entitySchema: EntitySchema,
+    unvisit: UnvisitFn,
+    resolvedEntities: Map<object, Record<string, unknown>>,
+  ): unknown {
+    if (!isObject(entity)) {
+      return entity;
+    }
+    const existing = resolvedEntities.get(entity);
+    if (existing) {
+      return existing;
+    }
+    // Registered before its fields are resolved, so circular references resolve to it
+    const resolved: Record<string, unknown> = {};
+    resolvedEntities.set(entity, resolved);
+
+    // Cast justified: entity definitions map field names to schemas
+    const definition = entitySchema.schema as Record<string, unknown>;
+    Object.keys(entity).forEach((field) => {
+      resolved[field] = hasOwn(definition, field)
+        ? this.resolveNested(entity[field], unvisit, resolvedEntities)
+        : this.denormalizeField(entity[field], unvisit, resolvedEntities);
+    });
+    return resolved;
+  }
+
+  /**
+   * Find the entities denormalized by a definition field and resolve them.
+   */
+  private resolveNested(
+    value: unknown,
+    unvisit: UnvisitFn,
+    resolvedEntities: Map<object, Record<string, unknown>>,
+  ): unknown {
+    if (Array.isArray(value)) {
+      return value.map((item) => this.resolveNested(item, unvisit, resolvedEntities));
+    }
+    const entitySchema = isObject(value) ? this.getEntitySchema(value) : undefined;
+    return entitySchema ? this.resolveEntity(value, entitySchema, unvisit, resolvedEntities) : value;
+  }
+}
+
+export default GraphQLSchema;
@@ -0,0 +1,83 @@
+import EntitySchema from './Entity.js';
+import { INVALIDATED, isInvalidated } from '../utils/invalidated.js';
+import { InvalidSchemaError, ROOT_PATH } from '../errors.js';
+import type {
+  IdType,
+  VisitFn,
+  AddEntityFn,
+  VisitedEntities,
+  UnvisitFn,
+  Denormalized,
+  NormalizePath,
+} from '../types.js';
+
+/**
+ * Invalidate schema for marking entities as deleted.
+ *
+ * Normalizing an object with this schema doesn't store the object: it records
+ * a tombstone for the entity's ID instead, replacing any existing entity when
+ * normalizing into a store. Denormalizing an invalidated entity yields
+ * `undefined`, and array and values schemas drop references to it.
+ *
+ * An entity that is normalized again after being invalidated replaces its tombstone.
+ *
+ * @example
+ * ```typescript
+ * const article = new schema.Entity('articles');
+ *
+ * // DELETE /articles/5 responded with { id: 5 }
+ * const { entities } = normalizeInto(store, { id: 5 }, new schema.Invalidate(article));
+ * denormalize([5, 6], [article], entities); // [{ id: 6, ... }]
+ * ```
+ */
+export class InvalidateSchema<TEntity extends EntitySchema = EntitySchema> {
+  /**
+   * The entity schema whose entities are invalidated.
+   */
+  public schema: TEntity;
+
+  /**
+   * Create a new Invalidate schema.
+   *
+   * @param entity - The entity schema of the entities to invalidate
+   */
+  constructor(entity: TEntity) {
+    if (!(entity instanceof EntitySchema)) {
+      throw new InvalidSchemaError('Expected an Entity schema for Invalidate.');
+    }
+    this.schema = entity;
+  }
+
+  /**
+   * Normalize an entity by recording a tombstone for its ID.
+   */
+  normalize(
+    input: unknown,
+    parent: unknown,
+    key: string | undefined,
+    visit: VisitFn,
+    addEntity: AddEntityFn,
+    _visitedEntities: VisitedEntities,
+    path: NormalizePath = ROOT_PATH,
+  ): IdType | undefined {
+    const typedInput = this.schema.validate(input, path);
+    const id = this.schema.resolveId(typedInput, parent, key, path);
+    if (id === undefined) {
+      visit.skip?.(path);
+      return undefined;
+    }
+    addEntity(this.schema, INVALIDATED, typedInput, parent, key, id, path);
+    return id;
+  }
+
+  /**
+   * Denormalize an entity, yielding undefined if it was invalidated.
+   */
+  denormalize(input: unknown, unvisit: UnvisitFn): Denormalized<TEntity> | undefined {
+    const entity = unvisit(input, this.schema);
+    // Cast justified: unvisit with an entity schema returns the entity's denormalized data
+    return isInvalidated(entity) ? undefined : (entity as Denormalized<TEntity>);
+  }
+}
+
+export default InvalidateSchema;
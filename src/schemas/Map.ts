@@ -0,0 +1,125 @@
+import { isInvalidated } from '../utils/invalidated.js';
+import { describeType } from '../utils/describeType.js';
+import { InvalidInputError, ROOT_PATH, appendPath } from '../errors.js';
+import type {
+  Schema,
+  DenormalizedMap,
+  NormalizedMap,
+  NativeSchemaOptions,
+  VisitFn,
+  AddEntityFn,
+  VisitedEntities,
+  UnvisitFn,
+  NormalizePath,
+} from '../types.js';
+
+/**
+ * Map schema for normalizing `Map`s whose values are entities.
+ *
+ * The values are normalized with the value schema, and the map is normalized
+ * into an array of `[key, value]` entries, so that keys that are not strings
+ * survive. Plain objects are accepted too, like with `schema.Values`.
+ *
+ * Maps are denormalized back into a `Map`, or into a plain object with
+ * `native: false`.
+ *
+ * @typeParam TValue - The schema of the values
+ * @typeParam TNative - Whether the map is denormalized into a `Map`
+ *
+ * @example
+ * ```typescript
+ * const user = new schema.Entity('users');
+ * const usersById = new schema.Map(user);
+ *
+ * normalize(new Map([['a', { id: '1' }]]), usersById);
+ * // result: [['a', '1']]
+ * ```
+ */
+export class MapSchema<TValue extends Schema = Schema, TNative extends boolean = true> {
+  /**
+   * The schema of the values.
+   */
+  public schema: TValue;
+
+  /**
+   * Whether the map is denormalized into a `Map`.
+   */
+  public readonly native: TNative;
+
+  /**
+   * Create a new Map schema.
+   *
+   * @param schema - The schema of the values
+   * @param options - Map options
+   */
+  constructor(schema: TValue, options: NativeSchemaOptions<TNative> = {}) {
+    this.schema = schema;
+    // Cast justified: native defaults to true, which is also the default of TNative
+    this.native = (options.native ?? true) as TNative;
+  }
+
+  /**
+   * Normalize the values of a map (or plain object) into `[key, value]` entries.
+   * Missing values, and values that are skipped, are left out.
+   *
+   * @throws InvalidInputError if the input is neither a Map nor an object
+   */
+  normalize(
+    input: unknown,
+    _parent: unknown,
+    _key: string | undefined,
+    visit: VisitFn,
+    addEntity: AddEntityFn,
+    visitedEntities: VisitedEntities,
+    path: NormalizePath = ROOT_PATH,
+  ): NormalizedMap<TValue> {
+    if (!(input instanceof Map) && (typeof input !== 'object' || input === null || Array.isArray(input))) {
+      throw new InvalidInputError(`Expected a Map or an object for the map, but received ${describeType(input)}.`, {
+        path,
+        value: input,
+      });
+    }
+
+    // Cast justified: checked to be a Map or a plain object above
+    const entries: Array<[unknown, unknown]> =
+      input instanceof Map ? [...input] : Object.entries(input as Record<string, unknown>);
+
+    const normalized = entries
+      .filter(([, value]) => value !== undefined && value !== null)
+      .map(([entryKey, value]): [unknown, unknown] => {
+        // Like Values, the map is the parent of its values
+        const pathKey = typeof entryKey === 'number' ? entryKey : String(entryKey);
+        return [
+          entryKey,
+          visit(value, input, String(entryKey), this.schema, addEntity, visitedEntities, appendPath(path, pathKey)),
+        ];
+      })
+      .filter(([, value]) => value !== undefined);
+
+    // Cast justified: the values are normalized with the value schema
+    return normalized as NormalizedMap<TValue>;
+  }
+
+  /**
+   * Denormalize `[key, value]` entries into a `Map`, or a plain object when the
+   * schema isn't `native`. Entries whose value was invalidated are left out.
+   */
+  denormalize(input: unknown, unvisit: UnvisitFn): DenormalizedMap<TValue, TNative> {
+    if (!Array.isArray(input)) {
+      // Cast justified: values that are not entries are returned as is
+      return input as DenormalizedMap<TValue, TNative>;
+    }
+
+    const entries = input
+      .filter((entry: unknown): entry is [unknown, unknown] => Array.isArray(entry))
+      .map(([entryKey, value]): [unknown, unknown] => [entryKey, unvisit(value, this.schema)])
+      .filter(([, value]) => !isInvalidated(value));
+
+    // Cast justified: the entries hold the denormalized values of the map
+    return (
+      this.native ? new Map(entries) : Object.fromEntries(entries.map(([key, value]) => [String(key), value]))
+    ) as DenormalizedMap<TValue, TNative>;
+  }
+}
+
+export default MapSchema;
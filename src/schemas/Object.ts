@@ -1,3 +1,5 @@
+import { isInvalidated } from '../utils/invalidated.js';
+import { ROOT_PATH, appendPath } from '../errors.js';
 import type {
   Schema,
   SchemaDefinition,
@@ -6,6 +8,7 @@ import type {
   VisitedEntities,
   UnvisitFn,
   SchemaFunction,
+  NormalizePath,
 } from '../types.js';
 
 /**
@@ -18,6 +21,7 @@ import type {
  * @param visit - The visit function for recursive normalization
  * @param addEntity - Function to add entities to the store
  * @param visitedEntities - Tracking for circular references
+ * @param path - The path to the input
  * @returns The normalized object
  */
 export function normalize(
@@ -28,6 +32,7 @@ export function normalize(
   visit: VisitFn,
   addEntity: AddEntityFn,
   visitedEntities: VisitedEntities,
+  path: NormalizePath = ROOT_PATH,
 ): Record<string, unknown> {
   // Cast justified: normalize() is called with objects matching the schema shape
   const typedInput = input as Record<string, unknown>;
@@ -39,7 +44,15 @@ export function normalize(
     const resolvedLocalSchema: Schema =
       typeof localSchema === 'function' ? (localSchema as SchemaFunction)(typedInput) : localSchema;
 
-    const value = visit(typedInput[schemaKey], typedInput, schemaKey, resolvedLocalSchema, addEntity, visitedEntities);
+    const value = visit(
+      typedInput[schemaKey],
+      typedInput,
+      schemaKey,
+      resolvedLocalSchema,
+      addEntity,
+      visitedEntities,
+      appendPath(path, schemaKey),
+    );
 
     if (value === undefined || value === null) {
       delete object[schemaKey];
@@ -66,7 +79,9 @@ export function denormalize(schema: SchemaDefinition, input: unknown, unvisit: U
 
   Object.keys(schema).forEach((schemaKey) => {
     if (object[schemaKey] != null) {
-      object[schemaKey] = unvisit(object[schemaKey], schema[schemaKey]);
+      const value = unvisit(object[schemaKey], schema[schemaKey]);
+      // Invalidated entities are treated as missing
+      object[schemaKey] = isInvalidated(value) ? undefined : value;
     }
   });
 
@@ -123,8 +138,9 @@ export class ObjectSchema<TDefinition extends SchemaDefinition = SchemaDefinitio
     visit: VisitFn,
     addEntity: AddEntityFn,
     visitedEntities: VisitedEntities,
+    path?: NormalizePath,
   ): Record<string, unknown> {
-    return normalize(this.schema, input, parent, key, visit, addEntity, visitedEntities);
+    return normalize(this.schema, input, parent, key, visit, addEntity, visitedEntities, path);
   }
 
   /**
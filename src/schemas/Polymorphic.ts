@@ -6,6 +6,7 @@ import type {
   AddEntityFn,
   VisitedEntities,
   UnvisitFn,
+  NormalizePath,
 } from '../types.js';
 
 /**
@@ -103,6 +104,7 @@ export class PolymorphicSchema<TDefinition extends Schema = Schema> {
    * @param visit - The visit function for recursive normalization
    * @param addEntity - Function to add entities to the store
    * @param visitedEntities - Tracking for circular references
+   * @param path - The path to the value in the input
    * @returns The normalized value
    */
   normalizeValue(
@@ -112,13 +114,14 @@ export class PolymorphicSchema<TDefinition extends Schema = Schema> {
     visit: VisitFn,
     addEntity: AddEntityFn,
     visitedEntities: VisitedEntities,
+    path?: NormalizePath,
   ): unknown {
     const schema = this.inferSchema(value, parent, key);
     if (!schema) {
       return value;
     }
 
-    const normalizedValue = visit(value, parent, key, schema, addEntity, visitedEntities);
+    const normalizedValue = visit(value, parent, key, schema, addEntity, visitedEntities, path);
 
     if (this.isSingleSchema || normalizedValue === undefined || normalizedValue === null) {
       return normalizedValue;
@@ -0,0 +1,112 @@
+import { isInvalidated } from '../utils/invalidated.js';
+import { describeType } from '../utils/describeType.js';
+import { uniqueReferences } from '../utils/uniqueReferences.js';
+import { InvalidInputError, ROOT_PATH, appendPath } from '../errors.js';
+import type {
+  Schema,
+  DenormalizedSet,
+  NormalizedSet,
+  NativeSchemaOptions,
+  VisitFn,
+  AddEntityFn,
+  VisitedEntities,
+  UnvisitFn,
+  NormalizePath,
+} from '../types.js';
+
+/**
+ * Set schema for normalizing `Set`s of entities.
+ *
+ * The items are normalized with the item schema into an array, without the
+ * items that normalize to the same ID (or reference). Arrays are accepted too.
+ *
+ * Sets are denormalized back into a `Set`, or into an array with `native: false`.
+ *
+ * @typeParam TItem - The schema of the items
+ * @typeParam TNative - Whether the set is denormalized into a `Set`
+ *
+ * @example
+ * ```typescript
+ * const tag = new schema.Entity('tags');
+ * const tags = new schema.Set(tag);
+ *
+ * normalize(new Set([{ id: 'ts' }, { id: 'js' }]), tags);
+ * // result: ['ts', 'js']
+ * ```
+ */
+export class SetSchema<TItem extends Schema = Schema, TNative extends boolean = true> {
+  /**
+   * The schema of the items.
+   */
+  public schema: TItem;
+
+  /**
+   * Whether the set is denormalized into a `Set`.
+   */
+  public readonly native: TNative;
+
+  /**
+   * Create a new Set schema.
+   *
+   * @param schema - The schema of the items
+   * @param options - Set options
+   */
+  constructor(schema: TItem, options: NativeSchemaOptions<TNative> = {}) {
+    this.schema = schema;
+    // Cast justified: native defaults to true, which is also the default of TNative
+    this.native = (options.native ?? true) as TNative;
+  }
+
+  /**
+   * Normalize the items of a set (or array) into an array. Missing items, and
+   * items that are skipped, are left out.
+   *
+   * @throws InvalidInputError if the input is neither a Set nor an array
+   */
+  normalize(
+    input: unknown,
+    parent: unknown,
+    key: string | undefined,
+    visit: VisitFn,
+    addEntity: AddEntityFn,
+    visitedEntities: VisitedEntities,
+    path: NormalizePath = ROOT_PATH,
+  ): NormalizedSet<TItem> {
+    if (!(input instanceof Set) && !Array.isArray(input)) {
+      throw new InvalidInputError(`Expected a Set or an array for the set, but received ${describeType(input)}.`, {
+        path,
+        value: input,
+      });
+    }
+
+    // Like arrays, sets pass *their* parent on to their items
+    const items = [...input]
+      .map((item: unknown, index) =>
+        item === undefined || item === null
+          ? undefined
+          : visit(item, parent, key, this.schema, addEntity, visitedEntities, appendPath(path, index)),
+      )
+      .filter((item) => item !== undefined);
+
+    // Cast justified: the items are normalized with the item schema
+    return uniqueReferences(items) as NormalizedSet<TItem>;
+  }
+
+  /**
+   * Denormalize an array of items into a `Set`, or an array when the schema
+   * isn't `native`. Items that were invalidated are left out.
+   */
+  denormalize(input: unknown, unvisit: UnvisitFn): DenormalizedSet<TItem, TNative> {
+    if (!Array.isArray(input)) {
+      // Cast justified: values that are not arrays are returned as is
+      return input as DenormalizedSet<TItem, TNative>;
+    }
+
+    const items = input.map((item: unknown) => unvisit(item, this.schema)).filter((item) => !isInvalidated(item));
+
+    // Cast justified: the items are denormalized with the item schema
+    return (this.native ? new Set(items) : items) as DenormalizedSet<TItem, TNative>;
+  }
+}
+
+export default SetSchema;
@@ -0,0 +1,107 @@
+import { isInvalidated } from '../utils/invalidated.js';
+import { describeType } from '../utils/describeType.js';
+import { InvalidInputError, InvalidSchemaError, ROOT_PATH, appendPath } from '../errors.js';
+import type {
+  TupleDefinition,
+  DenormalizedTuple,
+  NormalizedTuple,
+  VisitFn,
+  AddEntityFn,
+  VisitedEntities,
+  UnvisitFn,
+  NormalizePath,
+} from '../types.js';
+
+/**
+ * Tuple schema for normalizing arrays whose positions hold different types.
+ *
+ * Each position is normalized with the schema at the same position of the
+ * definition. Positions whose schema is `null`, and positions past the end of
+ * the definition, are kept as is.
+ *
+ * @typeParam TDefinition - The schemas of the positions, inferred as a tuple
+ *
+ * @example
+ * ```typescript
+ * const user = new schema.Entity('users');
+ * const team = new schema.Entity('teams');
+ * const session = new schema.Tuple([user, null, team]);
+ *
+ * normalize([{ id: '1' }, ['admin'], { id: '7' }], session);
+ * // result: ['1', ['admin'], '7']
+ * ```
+ */
+export class TupleSchema<const TDefinition extends TupleDefinition = TupleDefinition> {
+  /**
+   * The schemas of the positions.
+   */
+  public schema: TDefinition;
+
+  /**
+   * Create a new Tuple schema.
+   *
+   * @param definition - The schema of each position, or `null` for positions kept as is
+   */
+  constructor(definition: TDefinition) {
+    if (!Array.isArray(definition)) {
+      throw new InvalidSchemaError(`Expected an array of schemas for Tuple, but found ${typeof definition}.`);
+    }
+    this.schema = definition;
+  }
+
+  /**
+   * Normalize each position of a tuple with its schema.
+   *
+   * @throws InvalidInputError if the input is not an array
+   */
+  normalize(
+    input: unknown,
+    parent: unknown,
+    key: string | undefined,
+    visit: VisitFn,
+    addEntity: AddEntityFn,
+    visitedEntities: VisitedEntities,
+    path: NormalizePath = ROOT_PATH,
+  ): NormalizedTuple<TDefinition> {
+    if (!Array.isArray(input)) {
+      throw new InvalidInputError(`Expected an array for the tuple, but received ${describeType(input)}.`, {
+        path,
+        value: input,
+      });
+    }
+
+    // Like arrays, tuples pass *their* parent on to their values
+    const schemas: TupleDefinition = this.schema;
+    // Cast justified: each position is normalized with the schema of the same position
+    return input.map((value: unknown, index) => {
+      const positionSchema = schemas[index];
+      return positionSchema === null || positionSchema === undefined
+        ? value
+        : visit(value, parent, key, positionSchema, addEntity, visitedEntities, appendPath(path, index));
+    }) as NormalizedTuple<TDefinition>;
+  }
+
+  /**
+   * Denormalize each position of a tuple with its schema. Invalidated entities
+   * are treated as missing, so that the other values keep their position.
+   */
+  denormalize(input: unknown, unvisit: UnvisitFn): DenormalizedTuple<TDefinition> {
+    if (!Array.isArray(input)) {
+      // Cast justified: values that are not tuples are returned as is
+      return input as DenormalizedTuple<TDefinition>;
+    }
+
+    const schemas: TupleDefinition = this.schema;
+    // Cast justified: each position is denormalized with the schema of the same position
+    return input.map((value: unknown, index) => {
+      const positionSchema = schemas[index];
+      if (positionSchema === null || positionSchema === undefined) {
+        return value;
+      }
+      const denormalized = unvisit(value, positionSchema);
+      return isInvalidated(denormalized) ? undefined : denormalized;
+    }) as DenormalizedTuple<TDefinition>;
+  }
+}
+
+export default TupleSchema;
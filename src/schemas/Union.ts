@@ -1,5 +1,15 @@
 import { PolymorphicSchema } from './Polymorphic.js';
-import type { Schema, SchemaAttribute, VisitFn, AddEntityFn, VisitedEntities, UnvisitFn } from '../types.js';
+import { isInvalidated } from '../utils/invalidated.js';
+import { InvalidSchemaError } from '../errors.js';
+import type {
+  Schema,
+  SchemaAttribute,
+  VisitFn,
+  AddEntityFn,
+  VisitedEntities,
+  UnvisitFn,
+  NormalizePath,
+} from '../types.js';
 
 /**
  * Union schema for normalizing polymorphic data.
@@ -21,7 +31,7 @@ export class UnionSchema<
    */
   constructor(definition: TDefinition, schemaAttribute: SchemaAttribute) {
     if (!schemaAttribute) {
-      throw new Error('Expected option "schemaAttribute" not found on UnionSchema.');
+      throw new InvalidSchemaError('Expected option "schemaAttribute" not found on UnionSchema.');
     }
     super(definition, schemaAttribute);
   }
@@ -36,15 +46,18 @@ export class UnionSchema<
     visit: VisitFn,
     addEntity: AddEntityFn,
     visitedEntities: VisitedEntities,
+    path?: NormalizePath,
   ): unknown {
-    return this.normalizeValue(input, parent, key ?? '', visit, addEntity, visitedEntities);
+    return this.normalizeValue(input, parent, key ?? '', visit, addEntity, visitedEntities, path);
   }
 
   /**
    * Denormalize a single polymorphic value.
    */
   denormalize(input: unknown, unvisit: UnvisitFn): unknown {
-    return this.denormalizeValue(input, unvisit);
+    const value = this.denormalizeValue(input, unvisit);
+    // Invalidated entities are treated as missing
+    return isInvalidated(value) ? undefined : value;
   }
 }
 
@@ -1,5 +1,15 @@
 import { PolymorphicSchema } from './Polymorphic.js';
-import type { Schema, SchemaAttribute, VisitFn, AddEntityFn, VisitedEntities, UnvisitFn } from '../types.js';
+import { isInvalidated } from '../utils/invalidated.js';
+import { ROOT_PATH, appendPath } from '../errors.js';
+import type {
+  Schema,
+  SchemaAttribute,
+  VisitFn,
+  AddEntityFn,
+  VisitedEntities,
+  UnvisitFn,
+  NormalizePath,
+} from '../types.js';
 
 /**
  * Values schema for normalizing object maps where values are entities.
@@ -32,6 +42,7 @@ export class ValuesSchema<TDefinition extends Schema = Schema> extends Polymorph
     visit: VisitFn,
     addEntity: AddEntityFn,
     visitedEntities: VisitedEntities,
+    path: NormalizePath = ROOT_PATH,
   ): Record<string, unknown> {
     // Cast justified: Values schema operates on object maps
     const typedInput = input as Record<string, unknown>;
@@ -43,7 +54,15 @@ export class ValuesSchema<TDefinition extends Schema = Schema> extends Polymorph
         if (value !== undefined && value !== null) {
           return {
             ...output,
-            [inputKey]: this.normalizeValue(value, typedInput, inputKey, visit, addEntity, visitedEntities),
+            [inputKey]: this.normalizeValue(
+              value,
+              typedInput,
+              inputKey,
+              visit,
+              addEntity,
+              visitedEntities,
+              appendPath(path, inputKey),
+            ),
           };
         }
 
@@ -64,10 +83,16 @@ export class ValuesSchema<TDefinition extends Schema = Schema> extends Polymorph
     return Object.keys(typedInput).reduce(
       (output, inputKey) => {
         const entityOrId = typedInput[inputKey];
+        const value = this.denormalizeValue(entityOrId, unvisit);
+
+        // References to invalidated entities are dropped
+        if (isInvalidated(value)) {
+          return output;
+        }
 
         return {
           ...output,
-          [inputKey]: this.denormalizeValue(entityOrId, unvisit),
+          [inputKey]: value,
         };
       },
       // Cast justified: empty object accumulator, will be populated by reduction
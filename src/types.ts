@@ -2,6 +2,10 @@
  * Core type definitions for normalizr
  */
 
+import type { DenormalizeCache } from './DenormalizeCache.js';
+import type { Invalidated } from './utils/invalidated.js';
+import type { NormalizrError } from './errors.js';
+
 // ============================================================================
 // Basic Types
 // ============================================================================
@@ -42,6 +46,7 @@ export interface SchemaClass<TInput = unknown, TOutput = unknown> {
     visit: VisitFn,
     addEntity: AddEntityFn,
     visitedEntities: VisitedEntities,
+    path?: NormalizePath,
   ): TOutput;
 
   denormalize(input: unknown, unvisit: UnvisitFn): TInput;
@@ -71,6 +76,20 @@ export type SchemaDefinition = Record<string, Schema>;
 // Normalization Context Types
 // ============================================================================
 
+/**
+ * The keys and array indexes leading from the normalized input to a value.
+ * Used to report where invalid values are, e.g. `$.articles[3].author`.
+ *
+ * Each path links to the path of its parent value, so that visiting a value
+ * doesn't copy the whole path. Extend a path with `appendPath()`.
+ */
+export interface NormalizePath {
+  /** The path of the parent value. Undefined for the normalized input itself. */
+  readonly parent?: NormalizePath;
+  /** The key or array index of the value in its parent. Undefined for the normalized input itself. */
+  readonly key?: string | number;
+}
+
 /**
  * Tracks visited entities to handle circular references.
  */
@@ -78,25 +97,45 @@ export type VisitedEntities = Record<string, Record<IdType, unknown[]>>;
 
 /**
  * Function to visit and normalize a value.
+ *
+ * The visit function of a normalize call also keeps track of the values left
+ * out of the result, e.g. invalid values with the `'skip'` onError mode, so
+ * that the collections holding them can drop them.
  */
-export type VisitFn = (
-  value: unknown,
-  parent: unknown,
-  key: string | undefined,
-  schema: Schema,
-  addEntity: AddEntityFn,
-  visitedEntities: VisitedEntities,
-) => unknown;
+export interface VisitFn {
+  (
+    value: unknown,
+    parent: unknown,
+    key: string | undefined,
+    schema: Schema,
+    addEntity: AddEntityFn,
+    visitedEntities: VisitedEntities,
+    path?: NormalizePath,
+  ): unknown;
+
+  /**
+   * Leave the value visited at a path out of the collection holding it.
+   */
+  readonly skip?: (path: NormalizePath) => void;
+
+  /**
+   * Whether the value visited at a path was left out with `skip()`.
+   */
+  readonly isSkipped?: (path: NormalizePath) => boolean;
+}
 
 /**
  * Function to add an entity to the entities store.
+ * Adding the `INVALIDATED` tombstone marks the entity as deleted.
  */
 export type AddEntityFn = (
   schema: EntitySchemaInterface,
-  processedEntity: Record<string, unknown>,
+  processedEntity: Record<string, unknown> | Invalidated,
   value: unknown,
   parent: unknown,
   key: string | undefined,
+  id?: IdType,
+  path?: NormalizePath,
 ) => void;
 
 /**
@@ -105,9 +144,10 @@ export type AddEntityFn = (
 export interface EntitySchemaInterface {
   key: string;
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  idAttribute: string | ((value: any, parent: any, key: string | undefined) => IdType);
-  getId(value: unknown, parent: unknown, key: string | undefined): IdType;
+  idAttribute: string | readonly string[] | ((value: any, parent: any, key: string | undefined) => IdType);
+  getId(value: unknown, parent: unknown, key: string | undefined): IdType | undefined;
   merge(existingEntity: Record<string, unknown>, newEntity: Record<string, unknown>): Record<string, unknown>;
+  indexes?: IndexDefinitions;
 }
 
 // ============================================================================
@@ -116,11 +156,12 @@ export interface EntitySchemaInterface {
 
 /**
  * Function to get an entity from the entities store.
+ * Returns the `INVALIDATED` tombstone for entities that were invalidated.
  */
 export type GetEntityFn = (
   entityOrId: IdType | Record<string, unknown>,
   schema: EntitySchemaInterface,
-) => Record<string, unknown> | undefined;
+) => Record<string, unknown> | Invalidated | undefined;
 
 /**
  * Function to unvisit (denormalize) a value.
@@ -136,13 +177,65 @@ export type CreateUnvisitFn<TEntities = unknown> = (entities: TEntities, getEnti
  * Options for the denormalize function.
  */
 export interface DenormalizeOptions<TEntities = unknown> {
+  /**
+   * Cache shared across calls. When given, an entity that (transitively)
+   * references only unchanged entity objects denormalizes to the same object
+   * it did last time. Only used by the default eager strategy.
+   */
+  cache?: DenormalizeCache;
+
   /**
    * Custom strategy for resolving entity references.
-   * Default is eager resolution. Can be replaced with lazy/proxy-based approach.
+   * Default is eager resolution. Pass `createLazyUnvisit` for proxy-based
+   * resolution on property access, or provide your own implementation.
    */
   createUnvisit?: CreateUnvisitFn<TEntities>;
 }
 
+// ============================================================================
+// Standard Schema Types
+// ============================================================================
+
+/**
+ * A validator implementing the Standard Schema interface (https://standardschema.dev),
+ * such as a Zod, Valibot or ArkType schema. Copied from the spec so that no
+ * validation library is required.
+ */
+export interface StandardSchemaV1<Input = unknown, Output = Input> {
+  readonly '~standard': StandardSchemaProps<Input, Output>;
+}
+
+/**
+ * The properties of a Standard Schema validator.
+ */
+export interface StandardSchemaProps<Input = unknown, Output = Input> {
+  /** The version number of the standard. */
+  readonly version: 1;
+  /** The vendor name of the schema library. */
+  readonly vendor: string;
+  /** Validates unknown input values. */
+  readonly validate: (value: unknown) => StandardSchemaResult<Output> | Promise<StandardSchemaResult<Output>>;
+  /** Inferred types associated with the schema. */
+  readonly types?: { readonly input: Input; readonly output: Output } | undefined;
+}
+
+/**
+ * The result of a Standard Schema validation: the output value, or the issues found.
+ */
+export type StandardSchemaResult<Output> =
+  | { readonly value: Output; readonly issues?: undefined }
+  | { readonly issues: readonly StandardSchemaIssue[] };
+
+/**
+ * An issue found by a Standard Schema validator.
+ */
+export interface StandardSchemaIssue {
+  /** The error message of the issue. */
+  readonly message: string;
+  /** The path of the issue, if any. */
+  readonly path?: ReadonlyArray<PropertyKey | { readonly key: PropertyKey }> | undefined;
+}
+
 // ============================================================================
 // Entity Options
 // ============================================================================
@@ -153,9 +246,10 @@ export interface DenormalizeOptions<TEntities = unknown> {
 export type IdAttributeFn<T = unknown> = (value: T, parent: unknown, key: string | undefined) => IdType;
 
 /**
- * ID attribute can be a string key or a function.
+ * ID attribute can be a string key, an array of keys composed into a single
+ * ID, or a function.
  */
-export type IdAttribute<T = unknown> = string | IdAttributeFn<T>;
+export type IdAttribute<T = unknown> = string | readonly string[] | IdAttributeFn<T>;
 
 /**
  * Strategy for merging two entities with the same ID.
@@ -172,13 +266,46 @@ export type ProcessStrategy<T = unknown> = (value: T, parent: unknown, key: stri
  */
 export type FallbackStrategy<T = unknown> = (id: IdType, schema: EntitySchemaInterface) => T | undefined;
 
+/**
+ * What to do when an entity's ID is missing or invalid during normalization:
+ * keep the entity under the string form of its ID, throw a `MissingIdError`,
+ * skip the entity, or generate an ID for it.
+ */
+export type MissingIdStrategy<T = unknown> = 'keep' | 'throw' | 'skip' | IdAttributeFn<T>;
+
+/**
+ * Back-reference fields of an entity, by field name. Each field lists the
+ * entities of another schema that reference the entity through one of their
+ * fields, e.g. `{ articles: [article, 'author'] }`.
+ */
+export type InverseDefinition = Record<string, readonly [source: EntitySchemaInterface & SchemaClass, field: string]>;
+
+/**
+ * Options of a secondary index on an entity field.
+ */
+export interface IndexOptions {
+  /**
+   * Whether at most one entity may have each value of the field. Writing an
+   * entity with the value of another entity throws an `IndexConflictError`.
+   * Defaults to false.
+   */
+  unique?: boolean;
+}
+
+/**
+ * Secondary indexes of an entity, by field name, e.g. `{ email: { unique: true } }`.
+ */
+export type IndexDefinitions = Record<string, IndexOptions>;
+
 /**
  * Options for creating an Entity schema.
  */
 export interface EntityOptions<T = unknown> {
   /**
    * The attribute to use as the entity's ID.
-   * Can be a string key or a function that extracts the ID.
+   * Can be a string key, an array of keys whose values are composed into a
+   * single ID (e.g. `['orgId', 'userId']` gives `'acme|42'`), or a function
+   * that extracts the ID.
    * Defaults to 'id'.
    */
   idAttribute?: IdAttribute<T>;
@@ -201,8 +328,213 @@ export interface EntityOptions<T = unknown> {
    * Defaults to returning undefined.
    */
   fallbackStrategy?: FallbackStrategy<T>;
+
+  /**
+   * What to do when the ID is missing or invalid (undefined, null, NaN or not
+   * a string or number). `'keep'` stores the entity under the string form of
+   * its ID (e.g. `"undefined"`) without referencing it, `'throw'` throws a
+   * `MissingIdError`, `'skip'` leaves the entity out, and a function generates
+   * an ID for the entity. Defaults to `'keep'`.
+   */
+  missingIdStrategy?: MissingIdStrategy<T>;
+
+  /**
+   * Back-reference fields populated during normalization, e.g.
+   * `{ articles: [article, 'author'] }` lists the IDs of the articles whose
+   * `author` is the entity. Use `defineInverse()` when the other schema is
+   * created after this one.
+   */
+  inverse?: InverseDefinition;
+
+  /**
+   * Secondary indexes on entity fields, e.g. `{ email: { unique: true }, role: {} }`.
+   * Normalization maintains them in the `indexes` property of the output.
+   */
+  indexes?: IndexDefinitions;
+
+  /**
+   * A Standard Schema validator (e.g. a Zod, Valibot or ArkType schema) run
+   * on each entity before it is normalized. Its output replaces the entity,
+   * and its output type becomes the entity's data type. Only synchronous
+   * validators are supported.
+   */
+  validator?: StandardSchemaV1<unknown, T>;
+}
+
+// ============================================================================
+// Collection Types
+// ============================================================================
+
+/**
+ * A cursor of a paginated list, as returned by the API.
+ */
+export type CollectionCursor = string | number | null;
+
+/**
+ * A page of a paginated list, as returned by a list endpoint.
+ */
+export interface CollectionPage<TItem = unknown> {
+  /** The items of the page. */
+  items: TItem[];
+  /** The cursor of the page after this one, if any. */
+  nextCursor?: CollectionCursor;
+  /** The cursor of the page before this one, if any. */
+  prevCursor?: CollectionCursor;
+  /** The total number of items in the list. */
+  total?: number;
+}
+
+/**
+ * A collection as stored in the entities store (with item references) and
+ * denormalized (with items): the pages normalized so far as a single list,
+ * with the query args they were fetched with.
+ */
+export interface CollectionData<TItem = unknown, TArgs = Record<string, unknown>> extends CollectionPage<TItem> {
+  /** The query args of the collection. */
+  args?: TArgs;
+  /** How the last page was combined with the collection, if not appended. */
+  mode?: CollectionMergeMode;
+}
+
+/**
+ * How a page is combined with the collection it is normalized into:
+ * - `'append'`: add the items after the collection's items, and take the page's `nextCursor`.
+ * - `'prepend'`: add the items before the collection's items, and take the page's `prevCursor`.
+ * - `'replace'`: replace the collection with the page.
+ */
+export type CollectionMergeMode = 'append' | 'prepend' | 'replace';
+
+/**
+ * Options for creating a Collection schema.
+ */
+export interface CollectionOptions<TKey extends string = string, TArgs = Record<string, unknown>> {
+  /**
+   * The key of the collections table in the entities store.
+   */
+  key: TKey;
+
+  /**
+   * Get the key of a collection in its table from its query args, e.g.
+   * `({ tag }) => tag`. Each distinct key is a separate list.
+   */
+  getCollectionKey: (args: TArgs) => string;
+}
+
+/**
+ * Options for normalizing a page of a collection.
+ */
+export interface CollectionPageOptions {
+  /**
+   * How the page is combined with the collection. Defaults to `'append'`.
+   */
+  mode?: CollectionMergeMode;
+}
+
+// ============================================================================
+// Connection Types
+// ============================================================================
+
+/**
+ * An edge of a Relay connection: a node with its cursor.
+ */
+export interface ConnectionEdge<TNode = unknown> {
+  /** The cursor of the edge. */
+  cursor?: string;
+  /** The node of the edge. */
+  node: TNode;
+}
+
+/**
+ * The page info of a Relay connection.
+ */
+export interface ConnectionPageInfo {
+  hasNextPage?: boolean;
+  hasPreviousPage?: boolean;
+  startCursor?: string | null;
+  endCursor?: string | null;
+}
+
+/**
+ * A Relay connection (`{ edges: [{ cursor, node }], pageInfo }`), with its
+ * nodes denormalized or normalized.
+ */
+export interface ConnectionData<TNode = unknown> {
+  edges: ConnectionEdge<TNode>[];
+  pageInfo?: ConnectionPageInfo;
+  /** The total number of nodes, a common addition to connections. */
+  totalCount?: number;
+}
+
+/**
+ * The direction a page of a connection was fetched in: `'forward'` (with
+ * `first`/`after`) or `'backward'` (with `last`/`before`).
+ */
+export type ConnectionDirection = 'forward' | 'backward';
+
+// ============================================================================
+// Tuple Types
+// ============================================================================
+
+/**
+ * The schemas of the positions of a tuple. Positions whose schema is `null`
+ * are kept as is.
+ */
+export type TupleDefinition = readonly (Schema | null)[];
+
+/**
+ * The denormalized type of a tuple, e.g. `[User, unknown, Team]` for `[user, null, team]`.
+ */
+export type DenormalizedTuple<TDefinition extends TupleDefinition> = {
+  -readonly [K in keyof TDefinition]: TDefinition[K] extends null ? unknown : Denormalized<TDefinition[K]>;
+};
+
+/**
+ * The normalized type of a tuple, e.g. `[IdType, unknown, IdType]` for `[user, null, team]`.
+ */
+export type NormalizedTuple<TDefinition extends TupleDefinition> = {
+  -readonly [K in keyof TDefinition]: TDefinition[K] extends null ? unknown : Normalized<TDefinition[K]>;
+};
+
+// ============================================================================
+// Map and Set Types
+// ============================================================================
+
+/**
+ * Options for creating a Map or Set schema.
+ */
+export interface NativeSchemaOptions<TNative extends boolean = boolean> {
+  /**
+   * Whether to denormalize into a `Map` (or `Set`). With `false`, maps are
+   * denormalized into plain objects (keyed by the string form of their keys)
+   * and sets into arrays. Defaults to true.
+   */
+  native?: TNative;
 }
 
+/**
+ * The denormalized type of a Map schema: a `Map`, or a plain object when it isn't `native`.
+ */
+export type DenormalizedMap<TValue, TNative extends boolean = true> = TNative extends false
+  ? Record<string, Denormalized<TValue>>
+  : Map<unknown, Denormalized<TValue>>;
+
+/**
+ * The normalized type of a Map schema: its `[key, value]` entries, which keep keys that are not strings.
+ */
+export type NormalizedMap<TValue> = Array<[unknown, Normalized<TValue>]>;
+
+/**
+ * The denormalized type of a Set schema: a `Set`, or an array when it isn't `native`.
+ */
+export type DenormalizedSet<TItem, TNative extends boolean = true> = TNative extends false
+  ? Denormalized<TItem>[]
+  : Set<Denormalized<TItem>>;
+
+/**
+ * The normalized type of a Set schema: an array of its items.
+ */
+export type NormalizedSet<TItem> = Array<Normalized<TItem>>;
+
 // ============================================================================
 // Normalized Output Types
 // ============================================================================
@@ -212,12 +544,253 @@ export interface EntityOptions<T = unknown> {
  */
 export type EntitiesMap = Record<string, Record<IdType, unknown>>;
 
+/**
+ * Changes made to one entity table by a normalize call.
+ */
+export interface EntityTableChanges {
+  /** IDs of entities that were not in the store before. */
+  added: IdType[];
+  /** Entities that were already in the store and changed, mapped to the names of the changed fields. */
+  updated: Record<string, string[]>;
+  /** IDs of entities that were already in the store and were normalized again without changes. */
+  unchanged: IdType[];
+  /** IDs of entities that were invalidated. */
+  removed: IdType[];
+}
+
+/**
+ * Changes made by a normalize call, keyed by entity schema key.
+ * Only tables that were written to are included.
+ */
+export type EntityChanges = Record<string, EntityTableChanges>;
+
+/**
+ * Options for the normalize functions.
+ */
+export interface NormalizeOptions {
+  /**
+   * Report which entities were added, updated (and which of their fields
+   * changed), removed or left unchanged, in the `changes` property of the output.
+   * Defaults to false.
+   */
+  changes?: boolean;
+
+  /**
+   * What to do when a value in the input is invalid (e.g. an entity that is
+   * not an object):
+   * - `'throw'`: abort normalization by throwing the `NormalizrError` (default).
+   * - `'collect'`: keep the invalid value as is in the result, unnormalized.
+   * - `'skip'`: leave the invalid value out of the result. Arrays drop it.
+   *
+   * With `'collect'` and `'skip'`, every error is reported in the `errors`
+   * property of the output. Errors in schema definitions are always thrown.
+   */
+  onError?: 'throw' | 'collect' | 'skip';
+
+  /**
+   * Build an index of the entities referencing each entity, in the
+   * `referencedBy` property of the output:
+   * - `true`: index every entity of the output store whose schema is found in the schema.
+   * - A `ReverseIndex` (the `referencedBy` of a previous output for the same
+   *   store): update it with the entities written by this call.
+   * Defaults to false.
+   */
+  reverseIndex?: boolean | ReverseIndex;
+
+  /**
+   * The `indexes` of a previous output for the same store, to update instead
+   * of indexing the store's entities again.
+   */
+  indexes?: EntityIndexes;
+}
+
+/**
+ * A reference from an entity field to another entity, as stored in a `ReverseIndex`.
+ */
+export interface ReverseReference {
+  /** The key of the schema of the referencing entity. */
+  schemaKey: string;
+  /** The ID of the referencing entity. */
+  id: string;
+  /** The field of the referencing entity holding the reference. */
+  field: string;
+}
+
+/**
+ * The entities referencing each entity, by schema key and ID of the referenced entity.
+ *
+ * @example
+ * ```typescript
+ * // referencedBy.users['1'] = [{ schemaKey: 'articles', id: '123', field: 'author' }]
+ * ```
+ */
+export type ReverseIndex = Record<string, Record<string, ReverseReference[]>>;
+
+/**
+ * The secondary indexes of the entities, by schema key, field name and field
+ * value, listing the IDs of the entities with that value.
+ *
+ * @example
+ * ```typescript
+ * // indexes.users.email['ada@example.com'] = ['1']
+ * ```
+ */
+export type EntityIndexes = Record<string, Record<string, Record<string, string[]>>>;
+
 /**
  * The result of normalizing data.
  */
 export interface NormalizedSchema<TEntities extends EntitiesMap = EntitiesMap, TResult = unknown> {
   entities: TEntities;
   result: TResult;
+
+  /**
+   * The entities added or updated by the normalize call.
+   * Only present when the `changes` option is enabled.
+   */
+  changes?: EntityChanges;
+
+  /**
+   * The errors for invalid values that were kept or skipped.
+   * Only present when the `onError` option is `'collect'` or `'skip'`.
+   */
+  errors?: NormalizrError[];
+
+  /**
+   * The entities referencing each entity.
+   * Only present when the `reverseIndex` option is enabled.
+   */
+  referencedBy?: ReverseIndex;
+
+  /**
+   * The secondary indexes of the entities.
+   * Only present when indexed entities were written, or the `indexes` option was given.
+   */
+  indexes?: EntityIndexes;
+}
+
+// ============================================================================
+// Store Maintenance Types
+// ============================================================================
+
+/**
+ * A normalized result whose entities are in use, as given to `collectGarbage` and `checkIntegrity`.
+ */
+export interface GarbageCollectionRoot {
+  /** The normalized result (usually IDs or ID references). */
+  result: unknown;
+  /** The schema describing the result. */
+  schema: Schema;
+}
+
+/**
+ * The output of `collectGarbage`.
+ */
+export interface GarbageCollectionResult {
+  /** The entities store with only the entities reachable from the roots. */
+  entities: EntitiesMap;
+  /** The IDs of the entities that were removed, by entity key. */
+  evicted: Record<string, IdType[]>;
+}
+
+/**
+ * An entity stored in the entities store, as reported by `checkIntegrity`.
+ */
+export interface StoredEntityRef {
+  /** The key of the entity's schema. */
+  schemaKey: string;
+  /** The ID of the entity (its key in the entities store). */
+  id: string;
+}
+
+/**
+ * A reference to an entity that isn't in the entities store.
+ */
+export interface DanglingReference extends StoredEntityRef {
+  /** The path to the reference in the entity holding it, e.g. `$.comments[1]`. */
+  path: string;
+  /** The missing entity. */
+  target: { schemaKey: string; id: IdType };
+}
+
+/**
+ * An `{ id, schema }` reference whose schema isn't in its polymorphic schema's definition.
+ */
+export interface UnknownSchemaReference extends StoredEntityRef {
+  /** The path to the reference in the entity holding it, e.g. `$.members[0]`. */
+  path: string;
+  /** The schema the reference names. */
+  schema: string;
+}
+
+/**
+ * The problems found by `checkIntegrity`.
+ */
+export interface IntegrityReport {
+  /** References to entities that aren't in the entities store. */
+  danglingReferences: DanglingReference[];
+  /** Entities that can't be reached from the roots given to `checkIntegrity` (empty without roots). */
+  orphanedEntities: StoredEntityRef[];
+  /** Polymorphic references to schemas their polymorphic schema doesn't define. */
+  unknownSchemaReferences: UnknownSchemaReference[];
+}
+
+// ============================================================================
+// JSON:API Types
+// ============================================================================
+
+/**
+ * A JSON:API resource identifier object (resource linkage).
+ */
+export interface JsonApiResourceIdentifier {
+  type: string;
+  id: string;
+  meta?: Record<string, unknown>;
+}
+
+/**
+ * A JSON:API relationship object.
+ */
+export interface JsonApiRelationship {
+  data?: JsonApiResourceIdentifier | JsonApiResourceIdentifier[] | null;
+  links?: Record<string, unknown>;
+  meta?: Record<string, unknown>;
+}
+
+/**
+ * A JSON:API resource object.
+ */
+export interface JsonApiResource {
+  type: string;
+  id: string;
+  attributes?: Record<string, unknown>;
+  relationships?: Record<string, JsonApiRelationship>;
+  links?: Record<string, unknown>;
+  meta?: Record<string, unknown>;
+}
+
+/**
+ * A JSON:API document with primary data.
+ */
+export interface JsonApiDocument {
+  data: JsonApiResource | JsonApiResource[] | null;
+  included?: JsonApiResource[];
+  links?: Record<string, unknown>;
+  meta?: Record<string, unknown>;
+}
+
+/**
+ * The result of normalizing a JSON:API document.
+ *
+ * `result` is an ID (or array of IDs) when the primary data has a single
+ * resource type, and `{ id, schema }` references otherwise.
+ */
+export interface NormalizedJsonApiDocument<
+  TEntities extends EntitiesMap = EntitiesMap,
+  TResult = unknown,
+> extends NormalizedSchema<TEntities, TResult> {
+  links?: Record<string, unknown>;
+  meta?: Record<string, unknown>;
 }
 
 // ============================================================================
@@ -270,6 +843,7 @@ export type Denormalized<S> =
  * This type utility walks a schema tree and produces the TypeScript type
  * that corresponds to the normalized result. For entities, this is the
  * entity's ID; for arrays, it's an array of the inner normalized types.
+ * Entities that are skipped (see `missingIdStrategy`) are not part of the type.
  *
  * @typeParam S - The schema to extract the normalized type from
  *
@@ -290,7 +864,7 @@ export type Denormalized<S> =
  */
 export type Normalized<S> =
   S extends SchemaClass<unknown, infer TOutput>
-    ? TOutput
+    ? Exclude<TOutput, undefined>
     : S extends readonly [infer Inner]
       ? Array<Normalized<Inner>>
       : S extends Record<string, unknown>
@@ -306,6 +880,22 @@ export interface EntityLike<TKey extends string = string, TData = unknown> {
   readonly _entityType?: TData;
 }
 
+/**
+ * Extract the data type of the entities of an entity schema, as stored in the
+ * entities store.
+ *
+ * @typeParam S - The entity schema
+ *
+ * @example
+ * ```typescript
+ * const userSchema = new schema.Entity<'users', User>('users');
+ *
+ * type UserData = EntityData<typeof userSchema>;
+ * // Result: User
+ * ```
+ */
+export type EntityData<S> = S extends EntityLike<string, infer TData> ? TData : never;
+
 /**
  * Recursively collects all entity types from a schema tree.
  *
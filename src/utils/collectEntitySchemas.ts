@@ -0,0 +1,81 @@
+import EntitySchema from '../schemas/Entity.js';
+import PolymorphicSchema from '../schemas/Polymorphic.js';
+import ObjectSchema from '../schemas/Object.js';
+import InvalidateSchema from '../schemas/Invalidate.js';
+import ConnectionSchema from '../schemas/Connection.js';
+import TupleSchema from '../schemas/Tuple.js';
+import MapSchema from '../schemas/Map.js';
+import SetSchema from '../schemas/Set.js';
+import { hasOwn } from './hasOwn.js';
+import type { Schema } from '../types.js';
+
+/**
+ * Get the schemas a schema holds: the fields of entity definitions, array and
+ * object shorthands, and the definitions of Array, Object, Union, Values,
+ * GraphQL, Invalidate, Connection, Tuple, Map and Set schemas.
+ *
+ * @param schema - The schema to look into
+ * @returns The schemas it holds
+ */
+export function childSchemas(schema: Schema): Schema[] {
+  if (!schema || typeof schema !== 'object') {
+    return [];
+  }
+  if (schema instanceof EntitySchema || schema instanceof ObjectSchema) {
+    // Cast justified: entity and object schema definitions map field names to schemas
+    return Object.values(schema.schema as Record<string, Schema>);
+  }
+  if (schema instanceof PolymorphicSchema) {
+    // Cast justified: multi-schema polymorphic definitions are mappings of schemas
+    return schema.isSingleSchema ? [schema.schema] : Object.values(schema.schema as Record<string, Schema>);
+  }
+  if (
+    schema instanceof InvalidateSchema ||
+    schema instanceof ConnectionSchema ||
+    schema instanceof MapSchema ||
+    schema instanceof SetSchema
+  ) {
+    return [schema.schema];
+  }
+  if (schema instanceof TupleSchema) {
+    return schema.schema.filter((positionSchema: Schema | null): positionSchema is Schema => positionSchema !== null);
+  }
+  if (Array.isArray(schema)) {
+    return [...schema];
+  }
+  if (!('normalize' in schema)) {
+    // Cast justified: not a schema class, so it is an object shorthand { key: schema }
+    return Object.values(schema as Record<string, Schema>);
+  }
+  return [];
+}
+
+/**
+ * Collect every entity schema reachable from the given schemas, keyed by entity key.
+ *
+ * Walks the schemas held by each schema (see `childSchemas`). Circular definitions are visited once.
+ * Schema functions are skipped, since their result depends on the data.
+ *
+ * @param schemas - The schemas to start from
+ * @returns A registry of entity schemas keyed by their `key`
+ */
+export function collectEntitySchemas(schemas: Schema | readonly Schema[]): Record<string, EntitySchema> {
+  const registry: Record<string, EntitySchema> = {};
+  const seen = new Set<unknown>();
+
+  const walk = (schema: Schema | undefined): void => {
+    if (!schema || typeof schema !== 'object' || seen.has(schema)) {
+      return;
+    }
+    seen.add(schema);
+
+    if (schema instanceof EntitySchema && !hasOwn(registry, schema.key)) {
+      registry[schema.key] = schema;
+    }
+    childSchemas(schema).forEach(walk);
+  };
+
+  // Cast justified: an array is either a list of schemas or the [schema] shorthand, both hold schemas
+  (Array.isArray(schemas) ? (schemas as readonly Schema[]) : [schemas as Schema]).forEach(walk);
+  return registry;
+}
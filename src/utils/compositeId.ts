@@ -0,0 +1,46 @@
+import type { IdType } from '../types.js';
+
+/**
+ * Join the parts of a composite ID into a single string ID.
+ *
+ * Parts are separated by `|`. Backslashes and `|` inside a part are escaped
+ * with a backslash, so any parts can be recovered with `splitId`.
+ *
+ * @param parts - The parts of the ID, e.g. `['acme', 42]`
+ * @returns The composite ID, e.g. `'acme|42'`
+ */
+export function composeId(parts: readonly IdType[]): string {
+  return parts.map((part) => String(part).replace(/[\\|]/g, '\\$&')).join('|');
+}
+
+/**
+ * Split a composite ID made by `composeId` back into its parts.
+ *
+ * Parts are returned as strings, since numbers can't be told apart from
+ * numeric strings once joined.
+ *
+ * @param id - The composite ID
+ * @returns The parts of the ID
+ */
+export function splitId(id: IdType): string[] {
+  const parts: string[] = [];
+  let part = '';
+  let escaped = false;
+
+  for (const char of String(id)) {
+    if (escaped) {
+      part += char;
+      escaped = false;
+    } else if (char === '\\') {
+      escaped = true;
+    } else if (char === '|') {
+      parts.push(part);
+      part = '';
+    } else {
+      part += char;
+    }
+  }
+  parts.push(part);
+
+  return parts;
+}
@@ -0,0 +1,9 @@
+/**
+ * Describe the type of a value for error messages.
+ *
+ * @param value - The value to describe
+ * @returns `'null'`, `'an array'`, or the `typeof` of the value
+ */
+export function describeType(value: unknown): string {
+  return value === null ? 'null' : Array.isArray(value) ? 'an array' : typeof value;
+}
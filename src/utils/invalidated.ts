@@ -0,0 +1,29 @@
+/**
+ * The type of the tombstone stored for invalidated entities.
+ */
+export interface Invalidated {
+  readonly $invalidated: true;
+}
+
+/**
+ * Tombstone stored in the entities store for an entity that was invalidated
+ * by `schema.Invalidate`.
+ *
+ * A plain object, so that tombstones survive `JSON.stringify`, `structuredClone`
+ * and stores that are persisted or hydrated from the server. Copies are
+ * recognized by `isInvalidated`.
+ */
+export const INVALIDATED: Invalidated = Object.freeze({ $invalidated: true });
+
+/**
+ * Check if a value from the entities store is the tombstone of an invalidated entity.
+ *
+ * @param value - The value to check
+ * @returns True if the value is the invalidation tombstone, or a copy of it
+ */
+export function isInvalidated(value: unknown): value is Invalidated {
+  return (
+    value === INVALIDATED ||
+    (typeof value === 'object' && value !== null && (value as Partial<Invalidated>).$invalidated === true)
+  );
+}
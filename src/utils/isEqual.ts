@@ -0,0 +1,45 @@
+import { hasOwn } from './hasOwn.js';
+
+/**
+ * Check whether a value is a plain object or an array (i.e. JSON-like data).
+ */
+function isPlainData(value: object): boolean {
+  if (Array.isArray(value)) {
+    return true;
+  }
+  const proto = Object.getPrototypeOf(value);
+  return proto === Object.prototype || proto === null;
+}
+
+/**
+ * Structural equality for JSON-like data.
+ *
+ * Plain objects and arrays are compared recursively by their own enumerable
+ * keys. Any other objects (dates, class instances, maps, ...) are only equal
+ * when they are the same object. Primitives are compared with `Object.is`.
+ *
+ * @param a - The first value
+ * @param b - The second value
+ * @returns True if the values are structurally equal
+ */
+export function isEqual(a: unknown, b: unknown): boolean {
+  if (Object.is(a, b)) {
+    return true;
+  }
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) {
+    return false;
+  }
+  if (!isPlainData(a) || !isPlainData(b) || Array.isArray(a) !== Array.isArray(b)) {
+    return false;
+  }
+
+  const keysA = Object.keys(a);
+  const keysB = Object.keys(b);
+  if (keysA.length !== keysB.length) {
+    return false;
+  }
+  // Cast justified: both values are plain objects or arrays, indexable by their own keys
+  return keysA.every(
+    (key) => hasOwn(b, key) && isEqual((a as Record<string, unknown>)[key], (b as Record<string, unknown>)[key]),
+  );
+}
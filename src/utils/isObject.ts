@@ -0,0 +1,9 @@
+/**
+ * Check if a value is a plain (non-array) object.
+ *
+ * @param value - The value to check
+ * @returns True if the value is an object that is not null or an array
+ */
+export function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,286 @@
+import EntitySchema from '../schemas/Entity.js';
+import PolymorphicSchema from '../schemas/Polymorphic.js';
+import ArraySchema from '../schemas/Array.js';
+import ValuesSchema from '../schemas/Values.js';
+import ObjectSchema from '../schemas/Object.js';
+import GraphQLSchema from '../schemas/GraphQL.js';
+import InvalidateSchema from '../schemas/Invalidate.js';
+import ConnectionSchema from '../schemas/Connection.js';
+import TupleSchema from '../schemas/Tuple.js';
+import MapSchema from '../schemas/Map.js';
+import SetSchema from '../schemas/Set.js';
+import { hasOwn } from './hasOwn.js';
+import { isObject } from './isObject.js';
+import { isInvalidated } from './invalidated.js';
+import { ROOT_PATH, appendPath } from '../errors.js';
+import type { IdType, NormalizePath, Schema } from '../types.js';
+
+/**
+ * Where an entity reference was found.
+ */
+export interface ReferenceContext {
+  /** The path to the reference, from the mapped value. */
+  path: NormalizePath;
+  /** The GraphQL schema the reference was found through, if any. */
+  graphql?: GraphQLSchema;
+}
+
+/**
+ * Function called for each entity reference, returning the ID to reference instead.
+ */
+export type ReferenceMapper = (schema: EntitySchema, id: IdType, context: ReferenceContext) => IdType;
+
+/**
+ * Options for mapping the references of a value.
+ */
+export interface MapReferencesOptions {
+  /** The path to the mapped value, prepended to the path of each reference. */
+  path?: NormalizePath;
+  /** Called for each `{ id, schema }` reference whose schema isn't in its polymorphic schema's definition. */
+  onUnknownSchema?: (schemaKey: string, path: NormalizePath) => void;
+}
+
+/**
+ * Options for mapping the references of an entity.
+ */
+export interface MapEntityReferencesOptions extends MapReferencesOptions {
+  /**
+   * The GraphQL schema the entity was normalized with, if any, whose references
+   * are searched for in the fields the entity definition doesn't declare.
+   */
+  graphql?: GraphQLSchema;
+}
+
+/**
+ * The callbacks of a mapping, shared by every value it visits.
+ */
+interface Mapping {
+  mapId: ReferenceMapper;
+  onUnknownSchema?: (schemaKey: string, path: NormalizePath) => void;
+}
+
+/**
+ * Map the items of an array, returning the same array if no item changed.
+ */
+function mapArray(array: unknown[], mapItem: (item: unknown, index: number) => unknown): unknown[] {
+  const mapped = array.map(mapItem);
+  return mapped.some((item, index) => item !== array[index]) ? mapped : array;
+}
+
+/**
+ * Map the values of an object, returning the same object if no value changed.
+ */
+function mapObject(
+  object: Record<string, unknown>,
+  keys: string[],
+  mapValue: (value: unknown, key: string) => unknown,
+): Record<string, unknown> {
+  let mapped = object;
+  keys.forEach((key) => {
+    if (!hasOwn(object, key)) {
+      return;
+    }
+    const value = mapValue(object[key], key);
+    if (value !== object[key]) {
+      mapped = mapped === object ? { ...object } : mapped;
+      mapped[key] = value;
+    }
+  });
+  return mapped;
+}
+
+/**
+ * Map a value of a polymorphic schema, which is an `{ id, schema }` reference
+ * when the schema has several definitions.
+ */
+function mapPolymorphicValue(
+  value: unknown,
+  schema: PolymorphicSchema,
+  mapping: Mapping,
+  path: NormalizePath,
+): unknown {
+  if (schema.isSingleSchema) {
+    // Cast justified: single-schema polymorphic definitions are a schema
+    return mapValue(value, schema.schema as Schema, mapping, path);
+  }
+  // Cast justified: multi-schema polymorphic definitions are mappings of schemas
+  const definition = schema.schema as Record<string, Schema>;
+  if (!isObject(value) || typeof value.schema !== 'string') {
+    return value;
+  }
+  if (!hasOwn(definition, value.schema)) {
+    mapping.onUnknownSchema?.(value.schema, path);
+    return value;
+  }
+  const id = mapValue(value.id, definition[value.schema], mapping, path);
+  return id === value.id ? value : { ...value, id };
+}
+
+/**
+ * Map the `{ id, schema }` references found anywhere in a value normalized with a GraphQL schema.
+ */
+function mapGraphQLValue(value: unknown, schema: GraphQLSchema, mapping: Mapping, path: NormalizePath): unknown {
+  if (Array.isArray(value)) {
+    return mapArray(value, (item, index) => mapGraphQLValue(item, schema, mapping, appendPath(path, index)));
+  }
+  if (!isObject(value)) {
+    return value;
+  }
+  if (schema.isReference(value)) {
+    const id = mapping.mapId(schema.schema[value.schema], value.id, { path, graphql: schema });
+    return id === value.id ? value : { ...value, id };
+  }
+  return mapObject(value, Object.keys(value), (field, key) =>
+    mapGraphQLValue(field, schema, mapping, appendPath(path, key)),
+  );
+}
+
+/**
+ * Map every entity reference in a normalized value, following its schema.
+ */
+function mapValue(value: unknown, schema: Schema, mapping: Mapping, path: NormalizePath): unknown {
+  if (value === undefined || value === null || typeof schema === 'function') {
+    return value;
+  }
+
+  if (schema instanceof EntitySchema || schema instanceof InvalidateSchema) {
+    const entitySchema = schema instanceof InvalidateSchema ? schema.schema : schema;
+    return typeof value === 'string' || typeof value === 'number'
+      ? mapping.mapId(entitySchema, value, { path })
+      : value;
+  }
+  if (schema instanceof GraphQLSchema) {
+    return mapGraphQLValue(value, schema, mapping, path);
+  }
+  if (schema instanceof ArraySchema) {
+    return Array.isArray(value)
+      ? mapArray(value, (item, index) => mapPolymorphicValue(item, schema, mapping, appendPath(path, index)))
+      : value;
+  }
+  if (schema instanceof ValuesSchema) {
+    return isObject(value)
+      ? mapObject(value, Object.keys(value), (item, key) =>
+          mapPolymorphicValue(item, schema, mapping, appendPath(path, key)),
+        )
+      : value;
+  }
+  if (schema instanceof PolymorphicSchema) {
+    return mapPolymorphicValue(value, schema, mapping, path);
+  }
+  if (schema instanceof ConnectionSchema) {
+    return isObject(value) && Array.isArray(value.edges)
+      ? mapObject(value, ['edges'], (edges) =>
+          // Cast justified: checked to be an array above
+          mapArray(edges as unknown[], (edge, index) =>
+            isObject(edge)
+              ? mapObject(edge, ['node'], (node) =>
+                  mapValue(
+                    node,
+                    schema.schema,
+                    mapping,
+                    appendPath(appendPath(appendPath(path, 'edges'), index), 'node'),
+                  ),
+                )
+              : edge,
+          ),
+        )
+      : value;
+  }
+
+  if (schema instanceof TupleSchema) {
+    const schemas: readonly (Schema | null)[] = schema.schema;
+    return Array.isArray(value)
+      ? mapArray(value, (item, index) =>
+          schemas[index] ? mapValue(item, schemas[index], mapping, appendPath(path, index)) : item,
+        )
+      : value;
+  }
+
+  if (schema instanceof MapSchema) {
+    return Array.isArray(value)
+      ? mapArray(value, (entry, index) =>
+          Array.isArray(entry)
+            ? mapArray(entry, (item, position) =>
+                position === 1 ? mapValue(item, schema.schema, mapping, appendPath(appendPath(path, index), 1)) : item,
+              )
+            : entry,
+        )
+      : value;
+  }
+  if (schema instanceof SetSchema) {
+    return Array.isArray(value)
+      ? mapArray(value, (item, index) => mapValue(item, schema.schema, mapping, appendPath(path, index)))
+      : value;
+  }
+
+  if (Array.isArray(schema)) {
+    // Cast justified: array shorthand [schema] holds the schema of its items
+    const itemSchema = schema[0] as Schema;
+    return Array.isArray(value)
+      ? mapArray(value, (item, index) => mapValue(item, itemSchema, mapping, appendPath(path, index)))
+      : value;
+  }
+  if (!isObject(value) || (!(schema instanceof ObjectSchema) && 'normalize' in schema)) {
+    // Other schema classes don't declare where their references are
+    return value;
+  }
+
+  // Cast justified: object schema definitions and object shorthands map field names to schemas
+  const definition = (schema instanceof ObjectSchema ? schema.schema : schema) as Record<string, Schema>;
+  return mapObject(value, Object.keys(definition), (field, key) =>
+    mapValue(field, definition[key], mapping, appendPath(path, key)),
+  );
+}
+
+/**
+ * Map every entity reference in a normalized value.
+ *
+ * Follows the schema like `denormalize` does, without looking entities up:
+ * entity IDs, the `{ id, schema }` references of polymorphic schemas, the
+ * nodes of connections, the positions of tuples and GraphQL references are
+ * passed to `mapId`. Values of schema functions are
+ * left as is, since the schema depends on data that is no longer available.
+ *
+ * @param value - The normalized value (a result, or a field of an entity)
+ * @param schema - The schema of the value
+ * @param mapId - Called with each referenced entity schema and ID, returning the ID to use instead
+ * @param options - The path to the value, and a callback for references to unknown schemas
+ * @returns The value with references replaced, or the same value if none changed
+ */
+export function mapReferences(
+  value: unknown,
+  schema: Schema,
+  mapId: ReferenceMapper,
+  { path = ROOT_PATH, onUnknownSchema }: MapReferencesOptions = {},
+): unknown {
+  return mapValue(value, schema, { mapId, onUnknownSchema }, path);
+}
+
+/**
+ * Map every entity reference in a normalized entity, following its entity definition.
+ *
+ * @param entity - The normalized entity
+ * @param schema - The entity's schema
+ * @param mapId - Called with each referenced entity schema and ID, returning the ID to use instead
+ * @param options - The path to the entity, the GraphQL schema it was normalized with, and a
+ *   callback for references to unknown schemas
+ * @returns The entity with references replaced, or the same entity if none changed
+ */
+export function mapEntityReferences(
+  entity: unknown,
+  schema: EntitySchema,
+  mapId: ReferenceMapper,
+  { path = ROOT_PATH, graphql, onUnknownSchema }: MapEntityReferencesOptions = {},
+): unknown {
+  if (!isObject(entity) || isInvalidated(entity)) {
+    return entity;
+  }
+  const mapping = { mapId, onUnknownSchema };
+  // Cast justified: entity definitions map field names to schemas
+  const definition = schema.schema as Record<string, Schema>;
+  return mapObject(entity, Object.keys(graphql ? entity : definition), (field, key) =>
+    hasOwn(definition, key)
+      ? mapValue(field, definition[key], mapping, appendPath(path, key))
+      : mapGraphQLValue(field, graphql!, mapping, appendPath(path, key)),
+  );
+}
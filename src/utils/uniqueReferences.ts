@@ -0,0 +1,38 @@
+import { isObject } from './isObject.js';
+
+/**
+ * Get the key under which a reference is compared.
+ *
+ * Entity IDs are compared as strings, and the `{ id, schema }` references of
+ * polymorphic schemas by schema and ID. Other objects are compared by identity.
+ */
+function referenceKey(reference: unknown): unknown {
+  if (isObject(reference)) {
+    return 'id' in reference && typeof reference.schema === 'string'
+      ? `${reference.schema}\u0000${String(reference.id)}`
+      : reference;
+  }
+  return String(reference);
+}
+
+/**
+ * Remove the values whose reference was already found earlier in a list.
+ *
+ * References are compared like they are stored: entity IDs as strings, and
+ * the `{ id, schema }` references of polymorphic schemas by ID and schema.
+ *
+ * @param values - The values, in order
+ * @param getReference - Get the entity reference of a value (defaults to the value itself)
+ * @returns The first value of each reference, in order
+ */
+export function uniqueReferences<T>(values: readonly T[], getReference: (value: T) => unknown = (value) => value): T[] {
+  const seen = new Set<unknown>();
+  return values.filter((value) => {
+    const key = referenceKey(getReference(value));
+    if (seen.has(key)) {
+      return false;
+    }
+    seen.add(key);
+    return true;
+  });
+}
@@ -0,0 +1,116 @@
+import { describe, test, expect } from 'vitest';
+import { DenormalizeCache, denormalize, schema } from '../src/index.js';
+
+describe('DenormalizeCache', () => {
+  const user = new schema.Entity('users');
+  const comment = new schema.Entity('comments', { author: user });
+  const article = new schema.Entity('articles', { author: user, comments: [comment] });
+
+  const entities = {
+    articles: {
+      1: { id: '1', author: '7', comments: ['c1'] },
+      2: { id: '2', author: '8', comments: [] },
+    },
+    comments: {
+      c1: { id: 'c1', author: '8' },
+    },
+    users: {
+      7: { id: '7', name: 'Ada' },
+      8: { id: '8', name: 'Grace' },
+    },
+  };
+
+  test('returns new objects on every call without a cache', () => {
+    expect(denormalize('1', article, entities)).not.toBe(denormalize('1', article, entities));
+  });
+
+  test('returns the same object when the store is unchanged', () => {
+    const cache = new DenormalizeCache();
+
+    const first = denormalize('1', article, entities, { cache });
+    const second = denormalize('1', article, entities, { cache });
+
+    expect(second).toBe(first);
+    expect(second).toEqual(denormalize('1', article, entities));
+  });
+
+  test('shares nested entities between different roots', () => {
+    const cache = new DenormalizeCache();
+
+    const first = denormalize('1', article, entities, { cache }) as { comments: Array<{ author: unknown }> };
+    const second = denormalize('2', article, entities, { cache }) as { author: unknown };
+
+    expect(second.author).toBe(first.comments[0].author);
+  });
+
+  test('recomputes entities whose transitive dependencies changed', () => {
+    const cache = new DenormalizeCache();
+    const first = denormalize(['1', '2'], [article], entities, { cache }) as Array<Record<string, unknown>>;
+
+    const updated = {
+      ...entities,
+      users: { ...entities.users, 8: { id: '8', name: 'Grace Hopper' } },
+    };
+    const second = denormalize(['1', '2'], [article], updated, { cache }) as Array<{
+      author: { name: string };
+      comments: Array<{ author: { name: string } }>;
+    }>;
+
+    // Article 1 only references user 8 through its comment
+    expect(second[0]).not.toBe(first[0]);
+    expect(second[0].comments[0].author.name).toBe('Grace Hopper');
+    expect(second[0].author).toBe(first[0].author);
+    expect(second[1]).not.toBe(first[1]);
+    expect(second[1].author.name).toBe('Grace Hopper');
+  });
+
+  test('recomputes entities that were removed and re-added', () => {
+    const cache = new DenormalizeCache();
+    const first = denormalize('1', article, entities, { cache });
+
+    const withoutAuthor = { ...entities, users: { 8: entities.users[8] } };
+    expect(denormalize('1', article, withoutAuthor, { cache })).toEqual({
+      id: '1',
+      author: undefined,
+      comments: [{ id: 'c1', author: { id: '8', name: 'Grace' } }],
+    });
+
+    expect(denormalize('1', article, entities, { cache })).not.toBe(first);
+  });
+
+  test('keeps cycles consistent when a dependency of another member changes', () => {
+    const person = new schema.Entity('people');
+    const pet = new schema.Entity('pets');
+    person.define({ friends: [person], pet });
+
+    const store = {
+      people: {
+        a: { id: 'a', friends: ['b'], pet: 'p' },
+        b: { id: 'b', friends: ['a'] },
+      },
+      pets: { p: { id: 'p', name: 'Rex' } },
+    };
+    const cache = new DenormalizeCache();
+    type Person = { id: string; friends: Person[]; pet?: { name: string } };
+
+    const a = denormalize('a', person, store, { cache }) as Person;
+    expect(a.friends[0].friends[0]).toBe(a);
+
+    // Only "a" references the pet, but "b" contains "a"
+    const updated = { ...store, pets: { p: { id: 'p', name: 'Max' } } };
+    const b = denormalize('b', person, updated, { cache }) as Person;
+
+    expect(b).not.toBe(a.friends[0]);
+    expect(b.friends[0].pet!.name).toBe('Max');
+    expect(b.friends[0].friends[0]).toBe(b);
+  });
+
+  test('can be cleared', () => {
+    const cache = new DenormalizeCache();
+    const first = denormalize('1', article, entities, { cache });
+
+    cache.clear();
+
+    expect(denormalize('1', article, entities, { cache })).not.toBe(first);
+  });
+});
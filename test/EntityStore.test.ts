@@ -0,0 +1,227 @@
+import { describe, test, expect } from 'vitest';
+import { DenormalizeCache, EntityStore, INVALIDATED, MissingIdError, normalize, schema } from '../src/index.js';
+
+describe('EntityStore', () => {
+  const user = new schema.Entity('users');
+  const article = new schema.Entity('articles', { author: user });
+
+  const entities = {
+    articles: { 1: { id: 1, title: 'Hello', author: 7 }, 2: INVALIDATED },
+    users: { 7: { id: 7, name: 'Ada' } },
+  };
+
+  test('gets entities by ID', () => {
+    const store = new EntityStore([article], entities);
+
+    expect(store.get(article, 1)).toBe(entities.articles[1]);
+    expect(store.get(article, 2)).toBeUndefined();
+    expect(store.get(article, 3)).toBeUndefined();
+    expect(store.get(new schema.Entity('comments'), 1)).toBeUndefined();
+    expect(store.getMany(user, [7, 8])).toEqual([{ id: 7, name: 'Ada' }, undefined]);
+  });
+
+  test('lists every entity of a schema, without invalidated entities', () => {
+    const store = new EntityStore([article], entities);
+
+    expect(store.all(article)).toEqual([{ id: 1, title: 'Hello', author: 7 }]);
+    expect(store.all(new schema.Entity('comments'))).toEqual([]);
+  });
+
+  test('upserts entities with the merge strategy of their schema', () => {
+    const tagged = new schema.Entity(
+      'tags',
+      {},
+      { mergeStrategy: (a, b) => ({ ...a, ...b, count: (a.count as number) + (b.count as number) }) },
+    );
+    const store = new EntityStore([article, tagged], entities);
+
+    const updated = store.upsert(user, { id: 7, email: 'ada@example.com' }).upsert(tagged, { id: 'news', count: 1 });
+    const merged = updated.upsert(tagged, { id: 'news', count: 2 });
+
+    expect(updated.get(user, 7)).toEqual({ id: 7, name: 'Ada', email: 'ada@example.com' });
+    expect(merged.get(tagged, 'news')).toEqual({ id: 'news', count: 3 });
+  });
+
+  test('never mutates previous snapshots', () => {
+    const store = new EntityStore([article], entities);
+
+    const updated = store.upsert(user, { id: 8, name: 'Grace' });
+
+    expect(updated).not.toBe(store);
+    expect(store.get(user, 8)).toBeUndefined();
+    expect(store.entities).toBe(entities);
+    expect(entities.users).toEqual({ 7: { id: 7, name: 'Ada' } });
+    expect(updated.entities.articles).toBe(entities.articles);
+  });
+
+  test("upserts throw for entities without an ID with the 'throw' missingIdStrategy", () => {
+    const strictUser = new schema.Entity('users', {}, { missingIdStrategy: 'throw' });
+    const store = new EntityStore([strictUser]);
+
+    expect(() => store.upsert(strictUser, { name: 'Ada' })).toThrow(MissingIdError);
+  });
+
+  test('removes entities', () => {
+    const store = new EntityStore([article], entities);
+
+    const updated = store.remove(article, 1);
+
+    expect(updated.get(article, 1)).toBeUndefined();
+    expect(Object.keys(updated.entities.articles)).toEqual(['2']);
+    expect(store.get(article, 1)).toBeDefined();
+    expect(updated.remove(article, 1)).toBe(updated);
+  });
+
+  test('ingests normalize results', () => {
+    const store = new EntityStore([article], entities);
+
+    const updated = store.ingest(
+      normalize(
+        [
+          { id: 2, title: 'Back', author: { id: 7, email: 'ada@example.com' } },
+          { id: 1, author: 8 },
+        ],
+        [article],
+      ),
+    );
+
+    expect(updated.entities).toEqual({
+      articles: {
+        1: { id: 1, title: 'Hello', author: 8 },
+        2: { id: 2, title: 'Back', author: 7 },
+      },
+      users: { 7: { id: 7, name: 'Ada', email: 'ada@example.com' } },
+    });
+  });
+
+  test('ingests invalidated entities and tables without a known schema', () => {
+    const store = new EntityStore([article], entities);
+
+    const updated = store.ingest({
+      entities: { users: { 7: INVALIDATED }, comments: { 1: { id: 1, text: 'Hi' } } },
+    });
+    const merged = updated.ingest({ entities: { comments: { 1: { likes: 3 } } } });
+
+    expect(updated.get(user, 7)).toBeUndefined();
+    expect(merged.entities.comments).toEqual({ 1: { id: 1, text: 'Hi', likes: 3 } });
+  });
+
+  test('keeps entities that are already in the store', () => {
+    const store = new EntityStore([article], entities);
+
+    const updated = store.ingest({ entities });
+
+    expect(updated.entities).toEqual(entities);
+    expect(updated.get(article, 1)).toBe(entities.articles[1]);
+  });
+
+  test('denormalizes results', () => {
+    const store = new EntityStore([article], entities);
+    const cache = new DenormalizeCache();
+
+    expect(store.denormalize([1, 2], [article])).toEqual([{ id: 1, title: 'Hello', author: { id: 7, name: 'Ada' } }]);
+    expect(store.denormalize(1, article, { cache })).toBe(
+      store.upsert(user, { id: 8 }).denormalize(1, article, { cache }),
+    );
+  });
+
+  describe('optimistic layers', () => {
+    test('resolves reads through layers', () => {
+      const store = new EntityStore([article], entities);
+
+      const optimistic = store.applyOptimistic(
+        'rename',
+        normalize({ id: 1, title: 'Renamed', author: { id: 8, name: 'Grace' } }, article),
+      );
+
+      expect(optimistic.get(article, 1)).toEqual({ id: 1, title: 'Renamed', author: 8 });
+      expect(optimistic.denormalize(1, article)).toEqual({
+        id: 1,
+        title: 'Renamed',
+        author: { id: 8, name: 'Grace' },
+      });
+      expect(store.get(article, 1)).toEqual({ id: 1, title: 'Hello', author: 7 });
+    });
+
+    test('discards a layer on rollback', () => {
+      const store = new EntityStore([article], entities);
+
+      const rolledBack = store
+        .applyOptimistic('rename', { entities: { articles: { 1: { id: 1, title: 'Renamed' } } } })
+        .applyOptimistic('delete', { entities: { users: { 7: INVALIDATED } } })
+        .rollback('rename');
+
+      expect(rolledBack.get(article, 1)).toBe(entities.articles[1]);
+      expect(rolledBack.get(user, 7)).toBeUndefined();
+      expect(rolledBack.rollback('delete').entities).toEqual(entities);
+    });
+
+    test('folds a layer into the store on commit, honoring the merge strategy', () => {
+      const counter = new schema.Entity(
+        'counters',
+        {},
+        { mergeStrategy: (a, b) => ({ ...a, count: (a.count as number) + (b.count as number) }) },
+      );
+      const store = new EntityStore([counter], { counters: { a: { id: 'a', count: 1 } } });
+
+      const optimistic = store.applyOptimistic('increment', { entities: { counters: { a: { id: 'a', count: 2 } } } });
+      const committed = optimistic.commit('increment');
+
+      expect(optimistic.get(counter, 'a')).toEqual({ id: 'a', count: 3 });
+      expect(committed.get(counter, 'a')).toEqual({ id: 'a', count: 3 });
+      expect(committed.rollback('increment')).toBe(committed);
+    });
+
+    test('keeps layers on top of updates made after them', () => {
+      const store = new EntityStore([article], entities).applyOptimistic('rename', {
+        entities: { articles: { 1: { id: 1, title: 'Renamed' } } },
+      });
+
+      const updated = store.ingest(normalize({ id: 1, title: 'From server', views: 10 }, article));
+
+      expect(updated.get(article, 1)).toEqual({ id: 1, title: 'Renamed', author: 7, views: 10 });
+      expect(updated.rollback('rename').get(article, 1)).toEqual({
+        id: 1,
+        title: 'From server',
+        author: 7,
+        views: 10,
+      });
+    });
+
+    test('stacks layers in the order they were applied', () => {
+      const store = new EntityStore([article], entities)
+        .applyOptimistic('first', { entities: { users: { 7: { id: 7, name: 'First' } } } })
+        .applyOptimistic('second', { entities: { users: { 7: { id: 7, name: 'Second' } } } });
+
+      expect(store.get(user, 7)).toEqual({ id: 7, name: 'Second' });
+      expect(store.rollback('second').get(user, 7)).toEqual({ id: 7, name: 'First' });
+      // Committed layers go below the layers that are still pending
+      expect(store.commit('second').get(user, 7)).toEqual({ id: 7, name: 'First' });
+      expect(store.commit('second').commit('first').get(user, 7)).toEqual({ id: 7, name: 'First' });
+    });
+
+    test('replaces a layer applied again with the same ID', () => {
+      const store = new EntityStore([article], entities)
+        .applyOptimistic('rename', { entities: { users: { 7: { id: 7, name: 'First' } } } })
+        .applyOptimistic('rename', { entities: { users: { 8: { id: 8 } } } });
+
+      expect(store.get(user, 7)).toBe(entities.users[7]);
+      expect(store.commit('rename').entities).toEqual({ ...entities, users: { 7: entities.users[7], 8: { id: 8 } } });
+    });
+
+    test('keeps the identity of layered entities when unrelated entities are written', () => {
+      const store = new EntityStore([article], entities).applyOptimistic('rename', {
+        entities: { users: { 7: { id: 7, name: 'Renamed' } } },
+      });
+
+      const updated = store.upsert(user, { id: 9 });
+
+      expect(updated.get(user, 7)).toBe(store.get(user, 7));
+      expect(updated.upsert(user, { id: 7, email: 'ada@example.com' }).get(user, 7)).toEqual({
+        id: 7,
+        name: 'Renamed',
+        email: 'ada@example.com',
+      });
+    });
+  });
+});
@@ -0,0 +1,150 @@
+import { describe, test, expect, vi } from 'vitest';
+import { EntityStore, INVALIDATED, ObservableStore, normalize, schema } from '../src/index.js';
+
+describe('ObservableStore', () => {
+  const user = new schema.Entity('users');
+  const comment = new schema.Entity('comments', { author: user });
+  const article = new schema.Entity('articles', { author: user, comments: [comment] });
+
+  const createStore = () =>
+    new ObservableStore(
+      new EntityStore([article], {
+        articles: { 1: { id: 1, author: 7, comments: [3] }, 2: { id: 2, author: 8 } },
+        comments: { 3: { id: 3, author: 8 } },
+        users: { 7: { id: 7, name: 'Ada' }, 8: { id: 8, name: 'Grace' }, 9: { id: 9, name: 'Alan' } },
+      }),
+    );
+
+  describe('subscribe', () => {
+    test('notifies when the entity is written', () => {
+      const store = createStore();
+      const listener = vi.fn();
+      store.subscribe('users', 7, listener);
+
+      store.upsert(user, { id: 7, email: 'ada@example.com' });
+
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(listener).toHaveBeenCalledWith({ id: 7, name: 'Ada', email: 'ada@example.com' });
+    });
+
+    test('does not notify when other entities are written', () => {
+      const store = createStore();
+      const listener = vi.fn();
+      store.subscribe('users', 7, listener);
+
+      store.upsert(user, { id: 8, email: 'grace@example.com' });
+      store.ingest(normalize({ id: 2, title: 'Updated' }, article));
+
+      expect(listener).not.toHaveBeenCalled();
+    });
+
+    test('notifies with undefined when the entity is removed or invalidated', () => {
+      const store = createStore();
+      const listener = vi.fn();
+      store.subscribe('users', 7, listener);
+      store.subscribe('users', 8, listener);
+
+      store.remove(user, 7);
+      store.ingest({ entities: { users: { 8: INVALIDATED } } });
+
+      expect(listener.mock.calls).toEqual([[undefined], [undefined]]);
+    });
+
+    test('stops notifying after unsubscribing', () => {
+      const store = createStore();
+      const listener = vi.fn();
+      const unsubscribe = store.subscribe('users', 7, listener);
+
+      unsubscribe();
+      store.upsert(user, { id: 7, name: 'Ada Lovelace' });
+
+      expect(listener).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('subscribeToDenormalized', () => {
+    test('notifies when an entity read while denormalizing is written', () => {
+      const store = createStore();
+      const listener = vi.fn();
+      store.subscribeToDenormalized(1, article, listener);
+
+      store.upsert(user, { id: 8, name: 'Grace Hopper' });
+
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(listener).toHaveBeenCalledWith({
+        id: 1,
+        author: { id: 7, name: 'Ada' },
+        comments: [{ id: 3, author: { id: 8, name: 'Grace Hopper' } }],
+      });
+    });
+
+    test('does not notify when unrelated entities are written', () => {
+      const store = createStore();
+      const listener = vi.fn();
+      store.subscribeToDenormalized(1, article, listener);
+
+      store.upsert(user, { id: 9, name: 'Alan Turing' });
+      store.upsert(article, { id: 2, title: 'Other' });
+
+      expect(listener).not.toHaveBeenCalled();
+    });
+
+    test('tracks entities that become referenced', () => {
+      const store = createStore();
+      const listener = vi.fn();
+      store.subscribeToDenormalized(2, article, listener);
+
+      store.upsert(article, { id: 2, author: 9 });
+      store.upsert(user, { id: 9, name: 'Alan Turing' });
+      store.upsert(user, { id: 8, name: 'Grace Hopper' });
+
+      expect(listener).toHaveBeenCalledTimes(2);
+      expect(listener).toHaveBeenLastCalledWith({ id: 2, author: { id: 9, name: 'Alan Turing' } });
+    });
+
+    test('tracks missing entities', () => {
+      const store = createStore();
+      const listener = vi.fn();
+      store.subscribeToDenormalized([4], [article], listener);
+
+      store.upsert(article, { id: 4, author: 7 });
+
+      expect(listener).toHaveBeenCalledWith([{ id: 4, author: { id: 7, name: 'Ada' } }]);
+    });
+
+    test('keeps the identity of unchanged parts of the result', () => {
+      const store = createStore();
+      const listener = vi.fn();
+      store.subscribeToDenormalized([1, 2], [article], listener);
+
+      store.upsert(article, { id: 2, title: 'Updated' });
+      store.upsert(article, { id: 2, title: 'Updated again' });
+
+      const [[first], [second]] = listener.mock.calls;
+      expect(second[0]).toBe(first[0]);
+      expect(second[1]).not.toBe(first[1]);
+    });
+
+    test('stops notifying after unsubscribing', () => {
+      const store = createStore();
+      const listener = vi.fn();
+      const unsubscribe = store.subscribeToDenormalized(1, article, listener);
+
+      unsubscribe();
+      store.upsert(user, { id: 7, name: 'Ada Lovelace' });
+
+      expect(listener).not.toHaveBeenCalled();
+    });
+  });
+
+  test('exposes the current snapshot', () => {
+    const store = createStore();
+    const initial = store.getSnapshot();
+
+    store.update((snapshot) => snapshot.upsert(user, { id: 10 }));
+
+    expect(store.getSnapshot()).not.toBe(initial);
+    expect(store.getSnapshot().get(user, 10)).toEqual({ id: 10 });
+    expect(initial.get(user, 10)).toBeUndefined();
+  });
+});
@@ -0,0 +1,79 @@
+import { describe, test, expect } from 'vitest';
+import { normalize, normalizeInto, schema } from '../src/index.js';
+
+describe('normalize changes option', () => {
+  const user = new schema.Entity('users');
+  const article = new schema.Entity('articles', { author: user, tags: [new schema.Entity('tags')] });
+
+  test('is not reported by default', () => {
+    expect(normalize({ id: 1 }, user)).not.toHaveProperty('changes');
+  });
+
+  test('reports every entity as added when normalizing from scratch', () => {
+    const { changes } = normalize(
+      [
+        { id: 1, author: { id: 7 } },
+        { id: 2, author: { id: 7 } },
+      ],
+      [article],
+      { changes: true },
+    );
+
+    expect(changes).toEqual({
+      users: { added: [7], updated: {}, unchanged: [], removed: [] },
+      articles: { added: [1, 2], updated: {}, unchanged: [], removed: [] },
+    });
+  });
+
+  test('reports updated fields and unchanged entities when normalizing into a store', () => {
+    const store = {
+      articles: {
+        1: { id: 1, title: 'Hello', author: 7, tags: ['a'] },
+        2: { id: 2, title: 'World', author: 8, tags: ['a', 'b'] },
+      },
+      users: {
+        7: { id: 7, name: 'Ada' },
+        8: { id: 8, name: 'Grace' },
+      },
+    };
+
+    const { changes } = normalizeInto(
+      store,
+      [
+        { id: 1, title: 'Hello', author: { id: 7, name: 'Ada' }, tags: [{ id: 'a' }] },
+        { id: 2, title: 'World', author: { id: 8, name: 'Grace', email: 'grace@example.com' }, tags: [{ id: 'b' }] },
+        { id: 3, title: 'New', author: { id: 7 } },
+      ],
+      [article],
+      { changes: true },
+    );
+
+    expect(changes).toEqual({
+      tags: { added: ['a', 'b'], updated: {}, unchanged: [], removed: [] },
+      users: { added: [], updated: { 8: ['email'] }, unchanged: [7], removed: [] },
+      articles: { added: [3], updated: { 2: ['tags'] }, unchanged: [1], removed: [] },
+    });
+  });
+
+  test('reports fields removed by the merge strategy', () => {
+    const replacing = new schema.Entity('users', {}, { mergeStrategy: (_a, b) => b });
+    const store = { users: { 1: { id: 1, name: 'Ada', email: 'ada@example.com' } } };
+
+    const { changes } = normalizeInto(store, { id: 1, name: 'Ada' }, replacing, { changes: true });
+
+    expect(changes).toEqual({ users: { added: [], updated: { 1: ['email'] }, unchanged: [], removed: [] } });
+  });
+
+  test('compares values that are not plain data by identity', () => {
+    const date = new Date(0);
+    const event = new schema.Entity('events');
+    const store = { events: { 1: { id: 1, at: date } } };
+
+    expect(normalizeInto(store, { id: 1, at: date }, event, { changes: true }).changes).toEqual({
+      events: { added: [], updated: {}, unchanged: [1], removed: [] },
+    });
+    expect(normalizeInto(store, { id: 1, at: new Date(0) }, event, { changes: true }).changes).toEqual({
+      events: { added: [], updated: { 1: ['at'] }, unchanged: [], removed: [] },
+    });
+  });
+});
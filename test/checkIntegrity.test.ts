@@ -0,0 +1,113 @@
+import { describe, test, expect } from 'vitest';
+import { INVALIDATED, checkIntegrity, normalize, schema } from '../src/index.js';
+
+describe('checkIntegrity', () => {
+  const user = new schema.Entity('users');
+  const comment = new schema.Entity('comments', { author: user });
+  const article = new schema.Entity('articles', { author: user, comments: [comment] });
+
+  test('reports nothing for a normalized store', () => {
+    const { entities } = normalize(
+      {
+        id: 1,
+        author: { id: 7 },
+        comments: [
+          { id: 3, author: { id: 8 } },
+          { id: 4, author: { id: 7 } },
+        ],
+      },
+      article,
+    );
+
+    expect(checkIntegrity(entities, article)).toEqual({
+      danglingReferences: [],
+      orphanedEntities: [],
+      unknownSchemaReferences: [],
+    });
+  });
+
+  test('reports dangling references with their path and target', () => {
+    const entities = {
+      articles: { 1: { id: 1, author: 7, comments: [3, 4] } },
+      comments: { 3: { id: 3, author: 9 } },
+      users: { 7: { id: 7 } },
+    };
+
+    expect(checkIntegrity(entities, [article]).danglingReferences).toEqual([
+      { schemaKey: 'articles', id: '1', path: '$.comments[1]', target: { schemaKey: 'comments', id: 4 } },
+      { schemaKey: 'comments', id: '3', path: '$.author', target: { schemaKey: 'users', id: 9 } },
+    ]);
+  });
+
+  test('counts tombstones as present', () => {
+    const entities = { articles: { 1: { id: 1, author: 7 } }, users: { 7: INVALIDATED } };
+
+    expect(checkIntegrity(entities, article).danglingReferences).toEqual([]);
+  });
+
+  test('reports entities that are not reachable from the roots as orphaned', () => {
+    const person = new schema.Entity('people');
+    person.define({ friends: [person] });
+    const entities = {
+      people: { 1: { id: 1, friends: [1, 2] }, 2: { id: 2, friends: [] }, 3: { id: 3, friends: [3] } },
+    };
+
+    expect(checkIntegrity(entities, person, [{ result: 1, schema: person }]).orphanedEntities).toEqual([
+      { schemaKey: 'people', id: '3' },
+    ]);
+    expect(checkIntegrity(entities, person, []).orphanedEntities).toEqual([
+      { schemaKey: 'people', id: '1' },
+      { schemaKey: 'people', id: '2' },
+      { schemaKey: 'people', id: '3' },
+    ]);
+  });
+
+  test('does not report orphaned entities without roots', () => {
+    const entities = { users: { 7: { id: 7 }, 8: { id: 8 } } };
+
+    expect(checkIntegrity(entities, user).orphanedEntities).toEqual([]);
+  });
+
+  test('checks polymorphic references', () => {
+    const group = new schema.Entity('groups');
+    const team = new schema.Entity('teams', {
+      lead: new schema.Union({ users: user, groups: group }, 'type'),
+      members: new schema.Array({ users: user, groups: group }, 'type'),
+      byRole: new schema.Values({ users: user, groups: group }, 'type'),
+    });
+    const entities = {
+      teams: {
+        1: {
+          id: 1,
+          lead: { id: 7, schema: 'admins' },
+          members: [
+            { id: 7, schema: 'users' },
+            { id: 2, schema: 'groups' },
+          ],
+          byRole: { owner: { id: 7, schema: 'bots' } },
+        },
+      },
+      users: { 7: { id: 7 } },
+    };
+
+    expect(checkIntegrity(entities, team)).toEqual({
+      danglingReferences: [
+        { schemaKey: 'teams', id: '1', path: '$.members[1]', target: { schemaKey: 'groups', id: 2 } },
+      ],
+      orphanedEntities: [],
+      unknownSchemaReferences: [
+        { schemaKey: 'teams', id: '1', path: '$.lead', schema: 'admins' },
+        { schemaKey: 'teams', id: '1', path: '$.byRole.owner', schema: 'bots' },
+      ],
+    });
+  });
+
+  test('skips tables of unknown schemas', () => {
+    const entities = { articles: { 1: { id: 1, author: 7 } }, users: { 7: { id: 7 } }, tags: { a: { id: 'a' } } };
+
+    expect(checkIntegrity(entities, article, []).orphanedEntities).toEqual([
+      { schemaKey: 'articles', id: '1' },
+      { schemaKey: 'users', id: '7' },
+    ]);
+  });
+});
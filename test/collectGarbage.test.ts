@@ -0,0 +1,161 @@
+import { describe, test, expect } from 'vitest';
+import { INVALIDATED, collectGarbage, normalize, schema } from '../src/index.js';
+import type { EntitiesMap } from '../src/index.js';
+
+describe('collectGarbage', () => {
+  const user = new schema.Entity('users');
+  const comment = new schema.Entity('comments', { author: user });
+  const article = new schema.Entity('articles', { author: user, comments: [comment] });
+
+  test('keeps the entities reachable from the roots', () => {
+    const entities = {
+      articles: { 1: { id: 1, author: 7, comments: [3] }, 2: { id: 2, author: 8, comments: [4] } },
+      comments: { 3: { id: 3, author: 8 }, 4: { id: 4, author: 9 } },
+      users: { 7: { id: 7 }, 8: { id: 8 }, 9: { id: 9 } },
+    };
+
+    expect(collectGarbage(entities, [{ result: [1], schema: [article] }])).toEqual({
+      entities: {
+        articles: { 1: { id: 1, author: 7, comments: [3] } },
+        comments: { 3: { id: 3, author: 8 } },
+        users: { 7: { id: 7 }, 8: { id: 8 } },
+      },
+      evicted: { articles: ['2'], comments: ['4'], users: ['9'] },
+    });
+  });
+
+  test('keeps the entities of every root', () => {
+    const store = {
+      articles: { 1: { id: 1, author: 7 } },
+      users: { 7: { id: 7 }, 8: { id: 8 }, 9: { id: 9 } },
+    };
+
+    const { evicted } = collectGarbage(store, [
+      { result: { articles: [1] }, schema: { articles: [article] } },
+      { result: 8, schema: user },
+    ]);
+
+    expect(evicted).toEqual({ users: ['9'] });
+  });
+
+  test('follows circular definitions', () => {
+    const person = new schema.Entity('people');
+    person.define({ friends: [person], profile: new schema.Object({ bestFriend: person }) });
+    const entities = {
+      people: {
+        1: { id: 1, friends: [2] },
+        2: { id: 2, friends: [1], profile: { bestFriend: 3 } },
+        3: { id: 3, friends: [1] },
+        4: { id: 4, friends: [1] },
+      },
+    };
+
+    expect(collectGarbage(entities, [{ result: 1, schema: person }]).evicted).toEqual({ people: ['4'] });
+  });
+
+  test('follows polymorphic references', () => {
+    const group = new schema.Entity('groups');
+    const team = new schema.Entity('teams', {
+      lead: new schema.Union({ users: user, groups: group }, 'type'),
+      members: new schema.Array({ users: user, groups: group }, 'type'),
+      byRole: new schema.Values({ users: user, groups: group }, 'type'),
+    });
+    const entities = {
+      teams: {
+        1: {
+          id: 1,
+          lead: { id: 7, schema: 'users' },
+          members: [{ id: 7, schema: 'groups' }],
+          byRole: { owner: { id: 8, schema: 'users' } },
+        },
+      },
+      users: { 7: { id: 7 }, 8: { id: 8 }, 9: { id: 9 } },
+      groups: { 7: { id: 7 }, 8: { id: 8 } },
+    };
+
+    expect(collectGarbage(entities, [{ result: 1, schema: team }]).evicted).toEqual({
+      users: ['9'],
+      groups: ['8'],
+    });
+  });
+
+  test('follows GraphQL references in fields the entity definition does not declare', () => {
+    const post = new schema.Entity('posts');
+    const graphql = new schema.GraphQL({ User: user, Post: post });
+    const { entities, result } = normalize(
+      {
+        viewer: {
+          __typename: 'User',
+          id: '1',
+          posts: { nodes: [{ __typename: 'Post', id: '7', author: { __typename: 'User', id: '2' } }] },
+        },
+      },
+      graphql,
+    );
+    const store = { ...entities, users: { ...(entities as EntitiesMap).users, 3: { __typename: 'User', id: '3' } } };
+
+    expect(collectGarbage(store, [{ result, schema: graphql }]).evicted).toEqual({ users: ['3'] });
+  });
+
+  test('follows the nodes of connections', () => {
+    const friends = new schema.Connection(user);
+    const store = {
+      people: { 1: { id: 1, friends: { edges: [{ cursor: 'c1', node: 8 }], pageInfo: { hasNextPage: false } } } },
+      users: { 7: { id: 7 }, 8: { id: 8 } },
+    };
+    const person = new schema.Entity('people', { friends });
+
+    expect(collectGarbage(store, [{ result: 1, schema: person }]).evicted).toEqual({ users: ['7'] });
+  });
+
+  test('follows the positions of tuples', () => {
+    const store = { users: { 7: { id: 7 }, 8: { id: 8 } }, comments: { 3: { id: 3, author: 8 } } };
+
+    const { evicted } = collectGarbage(store, [{ result: [3, 'owner', 7], schema: new schema.Tuple([comment, null]) }]);
+
+    expect(evicted).toEqual({ users: ['7'] });
+  });
+
+  test('follows the values of maps and the items of sets', () => {
+    const store = { users: { 7: { id: 7 }, 8: { id: 8 } }, comments: { 3: { id: 3, author: 8 } } };
+
+    const { evicted } = collectGarbage(store, [
+      { result: [['pinned', 3]], schema: new schema.Map(comment) },
+      { result: [7], schema: new schema.Set(user) },
+    ]);
+
+    expect(evicted).toEqual({});
+  });
+
+  test('keeps reachable tombstones and drops tables without reachable entities', () => {
+    const entities = {
+      articles: { 1: { id: 1, author: 7 } },
+      users: { 7: INVALIDATED },
+      tags: { a: { id: 'a' } },
+    };
+
+    expect(collectGarbage(entities, [{ result: 1, schema: article }])).toEqual({
+      entities: { articles: { 1: { id: 1, author: 7 } }, users: { 7: INVALIDATED } },
+      evicted: { tags: ['a'] },
+    });
+  });
+
+  test('keeps the identity of unchanged tables and never mutates the store', () => {
+    const entities = {
+      articles: { 1: { id: 1, author: 7 }, 2: { id: 2, author: 7 } },
+      users: { 7: { id: 7 } },
+    };
+
+    const collected = collectGarbage(entities, [{ result: 1, schema: article }]);
+
+    expect(collected.entities.users).toBe(entities.users);
+    expect(collected.entities.articles[1]).toBe(entities.articles[1]);
+    expect(entities.articles).toEqual({ 1: { id: 1, author: 7 }, 2: { id: 2, author: 7 } });
+  });
+
+  test('evicts every entity without roots', () => {
+    const entities = { users: { 7: { id: 7 } } };
+
+    expect(collectGarbage(entities, [])).toEqual({ entities: {}, evicted: { users: ['7'] } });
+  });
+});
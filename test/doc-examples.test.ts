@@ -6,6 +6,7 @@
  * - README.md
  * - docs/api.md
  * - docs/faqs.md
+ * - docs/jsonapi.md
  *
  * Each test is named to match its corresponding documentation section
  * for easy cross-referencing.
@@ -14,12 +15,36 @@
 import { describe, test, expect, expectTypeOf } from 'vitest';
 import {
   normalize,
+  normalizeInto,
   denormalize,
+  createLazyUnvisit,
+  EntityStore,
+  ObservableStore,
+  replaceId,
+  collectGarbage,
+  checkIntegrity,
+  getReferencedBy,
+  findByIndex,
+  buildIndexes,
+  normalizeJsonApi,
+  denormalizeJsonApi,
+  composeId,
   schema,
   Denormalized,
   AllEntitiesOf,
   Normalized,
   NormalizedEntity,
+  ValidationError,
+  appendPath,
+} from '../src/index.js';
+import type {
+  StandardSchemaV1,
+  AddEntityFn,
+  NormalizePath,
+  Schema,
+  UnvisitFn,
+  VisitFn,
+  VisitedEntities,
 } from '../src/index.js';
 
 describe('api.md examples', () => {
@@ -43,6 +68,215 @@ describe('api.md examples', () => {
     });
   });
 
+  describe('normalizeInto(store, data, schema)', () => {
+    test('api.md#normalizeinto-usage - merges into an existing store', () => {
+      const user = new schema.Entity('users');
+      const { entities } = normalize([{ id: 1, name: 'Beth' }], [user]);
+
+      const next = normalizeInto(
+        entities,
+        [
+          { id: 1, email: 'beth@example.com' },
+          { id: 2, name: 'Tom' },
+        ],
+        [user],
+      );
+
+      expect(next).toEqual({
+        result: [1, 2],
+        entities: {
+          users: {
+            '1': { id: 1, name: 'Beth', email: 'beth@example.com' },
+            '2': { id: 2, name: 'Tom' },
+          },
+        },
+      });
+    });
+  });
+
+  describe('Tracking changes', () => {
+    test('api.md#tracking-changes - reports added and updated entities', () => {
+      const user = new schema.Entity('users');
+      const store = { users: { '1': { id: 1, name: 'Beth' } } };
+
+      const { changes } = normalizeInto(
+        store,
+        [{ id: 1, name: 'Beth', email: 'beth@example.com' }, { id: 2 }],
+        [user],
+        {
+          changes: true,
+        },
+      );
+
+      expect(changes).toEqual({
+        users: {
+          added: [2],
+          updated: { '1': ['email'] },
+          unchanged: [],
+          removed: [],
+        },
+      });
+    });
+  });
+
+  describe('Handling invalid values', () => {
+    test('api.md#handling-invalid-values - skipping invalid entities', () => {
+      const user = new schema.Entity('users');
+      const article = new schema.Entity('articles', { author: user });
+
+      const { entities, result, errors } = normalize(
+        [
+          { id: 1, author: { id: 7 } },
+          { id: 2, author: 'unknown' },
+          { id: 3, author: ['not', 'a', 'user'] },
+        ] as any,
+        [article],
+        { onError: 'skip' },
+      );
+
+      expect(entities).toEqual({
+        articles: {
+          '1': { id: 1, author: 7 },
+          '2': { id: 2, author: 'unknown' },
+          '3': { id: 3, author: undefined },
+        },
+        users: { '7': { id: 7 } },
+      });
+      expect(result).toEqual([1, 2, 3]);
+      expect(errors!.map((error) => error.path)).toEqual(['$[2].author']);
+    });
+
+    test('api.md#reverse-index - finding the articles of a user', () => {
+      const user = new schema.Entity('users');
+      const article = new schema.Entity('articles', { author: user, editors: [user] });
+
+      const first = normalize(
+        [
+          { id: '123', author: { id: '1' }, editors: [{ id: '2' }] },
+          { id: '124', author: { id: '2' }, editors: [{ id: '1' }] },
+        ],
+        [article],
+        { reverseIndex: true },
+      );
+      const { referencedBy } = normalizeInto(first.entities, { id: '124', author: { id: '1' } }, article, {
+        reverseIndex: first.referencedBy,
+      });
+
+      expect(getReferencedBy(referencedBy!, user, '1', { from: article, field: 'author' })).toEqual([
+        { schemaKey: 'articles', id: '123', field: 'author' },
+        { schemaKey: 'articles', id: '124', field: 'author' },
+      ]);
+    });
+  });
+
+  describe('EntityStore', () => {
+    test('api.md#entitystore - reading and updating entities', () => {
+      const user = new schema.Entity('users');
+      const article = new schema.Entity('articles', { author: user });
+
+      let store = new EntityStore([article]);
+      store = store.ingest(normalize({ id: '1', title: 'Hello', author: { id: '7', name: 'Ada' } }, article));
+      store = store.upsert(user, { id: '7', email: 'ada@example.com' });
+
+      expect(store.get(user, '7')).toEqual({ id: '7', name: 'Ada', email: 'ada@example.com' });
+      expect(store.denormalize('1', article)).toEqual({
+        id: '1',
+        title: 'Hello',
+        author: { id: '7', name: 'Ada', email: 'ada@example.com' },
+      });
+    });
+
+    test('api.md#optimistic-updates - rolling back a failed mutation', () => {
+      const user = new schema.Entity('users');
+
+      let store = new EntityStore([user], { users: { '7': { id: '7', name: 'Ada' } } });
+
+      store = store.applyOptimistic('rename-7', normalize({ id: '7', name: 'Ada Lovelace' }, user));
+      expect(store.get(user, '7')).toEqual({ id: '7', name: 'Ada Lovelace' });
+
+      store = store.rollback('rename-7');
+      expect(store.get(user, '7')).toEqual({ id: '7', name: 'Ada' });
+    });
+
+    test('api.md#subscribing-to-changes - re-rendering when dependencies change', () => {
+      const user = new schema.Entity('users');
+      const article = new schema.Entity('articles', { author: user });
+
+      const store = new ObservableStore(
+        new EntityStore([article], {
+          articles: { '1': { id: '1', author: '7' } },
+          users: { '7': { id: '7', name: 'Ada' }, '8': { id: '8', name: 'Grace' } },
+        }),
+      );
+
+      const logged: unknown[] = [];
+      const unsubscribe = store.subscribeToDenormalized('1', article, (value) => logged.push(value));
+
+      store.upsert(user, { id: '8', name: 'Grace Hopper' });
+      store.upsert(user, { id: '7', name: 'Ada Lovelace' });
+      unsubscribe();
+
+      expect(logged).toEqual([{ id: '1', author: { id: '7', name: 'Ada Lovelace' } }]);
+    });
+  });
+
+  describe('replaceId(entities, schema, oldId, newId, schemas)', () => {
+    test('api.md#replaceidentities-schema-oldid-newid-schemas - replacing a temporary ID', () => {
+      const user = new schema.Entity('users');
+      const article = new schema.Entity('articles', { author: user, editors: [user] });
+
+      const entities = {
+        articles: { '1': { id: '1', author: 'tmp-1', editors: ['2', 'tmp-1'] } },
+        users: { 'tmp-1': { id: 'tmp-1', name: 'Ada' }, '2': { id: '2', name: 'Grace' } },
+      };
+
+      expect(replaceId(entities, user, 'tmp-1', '987', [article])).toEqual({
+        articles: { '1': { id: '1', author: '987', editors: ['2', '987'] } },
+        users: { '2': { id: '2', name: 'Grace' }, '987': { id: '987', name: 'Ada' } },
+      });
+    });
+  });
+
+  describe('collectGarbage(entities, roots)', () => {
+    test('api.md#collectgarbageentities-roots - evicting unreachable entities', () => {
+      const user = new schema.Entity('users');
+      const article = new schema.Entity('articles', { author: user });
+
+      const entities = {
+        articles: { '1': { id: '1', author: '7' }, '2': { id: '2', author: '8' } },
+        users: { '7': { id: '7', name: 'Ada' }, '8': { id: '8', name: 'Grace' } },
+      };
+
+      expect(collectGarbage(entities, [{ result: ['1'], schema: [article] }])).toEqual({
+        entities: {
+          articles: { '1': { id: '1', author: '7' } },
+          users: { '7': { id: '7', name: 'Ada' } },
+        },
+        evicted: { articles: ['2'], users: ['8'] },
+      });
+    });
+  });
+
+  describe('checkIntegrity(entities, schemas, roots)', () => {
+    test('api.md#checkintegrityentities-schemas-roots - reporting a dangling reference', () => {
+      const user = new schema.Entity('users');
+      const article = new schema.Entity('articles', { author: user, reviewers: [user] });
+
+      const entities = {
+        articles: { '1': { id: '1', author: '7', reviewers: ['7', '8'] } },
+        users: { '7': { id: '7', name: 'Ada' } },
+      };
+
+      expect(checkIntegrity(entities, article)).toEqual({
+        danglingReferences: [
+          { schemaKey: 'articles', id: '1', path: '$.reviewers[1]', target: { schemaKey: 'users', id: '8' } },
+        ],
+        orphanedEntities: [],
+        unknownSchemaReferences: [],
+      });
+    });
+  });
+
   describe('denormalize(input, schema, entities)', () => {
     test('api.md#denormalize-usage - basic denormalize example', () => {
       const user = new schema.Entity('users');
@@ -54,6 +288,21 @@ describe('api.md examples', () => {
       });
     });
 
+    test('api.md#lazy-denormalization - resolves entities on access', () => {
+      const user = new schema.Entity('users');
+      const article = new schema.Entity('articles', { author: user });
+      const entities = {
+        articles: { '1': { id: '1', title: 'Hello', author: '7' } },
+        users: { '7': { id: '7', name: 'Ada' } },
+      };
+
+      const denormalizedArticle = denormalize('1', article, entities, { createUnvisit: createLazyUnvisit }) as {
+        author: { name: string };
+      };
+
+      expect(denormalizedArticle.author.name).toBe('Ada');
+    });
+
     describe('schema.Array', () => {
       test('api.md#array-usage - simple array of entities', () => {
         const data = [
@@ -129,6 +378,72 @@ describe('api.md examples', () => {
       });
     });
 
+    describe('schema.Collection', () => {
+      test('api.md#collection-usage - combining the pages of a list', () => {
+        const article = new schema.Entity('articles');
+        const feed = new schema.Collection(article, {
+          key: 'feeds',
+          getCollectionKey: (args: { tag: string }) => args.tag,
+        });
+
+        const first = normalize({ items: [{ id: 1 }, { id: 2 }], nextCursor: 'c2' }, feed.page({ tag: 'js' }));
+        const second = normalizeInto(
+          first.entities,
+          { items: [{ id: 2 }, { id: 3 }], nextCursor: null, total: 3 },
+          feed.page({ tag: 'js' }),
+        );
+
+        expect(second.entities.feeds).toEqual({
+          js: { args: { tag: 'js' }, items: [1, 2, 3], nextCursor: null, total: 3 },
+        });
+        expect(denormalize(second.result, feed, second.entities)).toEqual({
+          args: { tag: 'js' },
+          items: [{ id: 1 }, { id: 2 }, { id: 3 }],
+          nextCursor: null,
+          total: 3,
+        });
+      });
+    });
+
+    describe('schema.Connection', () => {
+      test('api.md#connection-usage - merging the pages of a connection', () => {
+        const user = new schema.Entity('users');
+        const friends = new schema.Connection(user);
+
+        const first = normalize(
+          {
+            edges: [{ cursor: 'c1', node: { id: '1', name: 'Ada' } }],
+            pageInfo: { hasNextPage: true, endCursor: 'c1' },
+          },
+          friends,
+        );
+        const second = normalizeInto(
+          first.entities,
+          {
+            edges: [{ cursor: 'c2', node: { id: '2', name: 'Grace' } }],
+            pageInfo: { hasNextPage: false, endCursor: 'c2' },
+          },
+          friends,
+        );
+
+        const result = friends.mergePages(first.result, second.result);
+        expect(result).toEqual({
+          edges: [
+            { cursor: 'c1', node: '1' },
+            { cursor: 'c2', node: '2' },
+          ],
+          pageInfo: { hasNextPage: false, endCursor: 'c2' },
+        });
+        expect(denormalize(result, friends, second.entities)).toEqual({
+          edges: [
+            { cursor: 'c1', node: { id: '1', name: 'Ada' } },
+            { cursor: 'c2', node: { id: '2', name: 'Grace' } },
+          ],
+          pageInfo: { hasNextPage: false, endCursor: 'c2' },
+        });
+      });
+    });
+
     describe('schema.Entity', () => {
       test('api.md#entity-usage - entity with options', () => {
         const data = {
@@ -193,6 +508,23 @@ describe('api.md examples', () => {
         });
       });
 
+      test('api.md#composite-ids - idAttribute as an array of keys', () => {
+        const member = new schema.Entity('members', {}, { idAttribute: ['orgId', 'userId'] });
+
+        const { entities, result } = normalize([{ orgId: 'acme', userId: 42, role: 'admin' }], [member]);
+
+        expect({ entities, result }).toEqual({
+          entities: {
+            members: {
+              'acme|42': { orgId: 'acme', userId: 42, role: 'admin' },
+            },
+          },
+          result: ['acme|42'],
+        });
+        expect(entities.members[composeId(['acme', 42])]).toEqual({ orgId: 'acme', userId: 42, role: 'admin' });
+        expect(member.parseId(result[0])).toEqual({ orgId: 'acme', userId: '42' });
+      });
+
       test('api.md#fallbackstrategy-usage - fallbackStrategy for missing entities', () => {
         const users = {
           '1': { id: '1', name: 'Emily', requestState: 'SUCCEEDED' },
@@ -247,6 +579,90 @@ describe('api.md examples', () => {
         ]);
       });
 
+      test('api.md#missingidstrategy-usage - generating IDs for new entities', () => {
+        let nextId = 0;
+        const comment = new schema.Entity('comments', {}, { missingIdStrategy: () => `temp-${++nextId}` });
+
+        expect(normalize([{ id: 1, text: 'Saved' }, { text: 'Not saved yet' }], [comment])).toEqual({
+          entities: {
+            comments: {
+              '1': { id: 1, text: 'Saved' },
+              'temp-1': { text: 'Not saved yet' },
+            },
+          },
+          result: [1, 'temp-1'],
+        });
+      });
+
+      test('api.md#inverse-usage - populating the articles of a user', () => {
+        const user = new schema.Entity('users');
+        const article = new schema.Entity('articles', { author: user });
+        user.defineInverse({ articles: [article, 'author'] });
+
+        const first = normalize([{ id: '1', author: { id: '7', name: 'Ada' } }], [article]);
+        const { entities } = normalizeInto(first.entities, [{ id: '2', author: '7' }], [article]);
+
+        const denormalized = denormalize('7', user, entities) as {
+          id: string;
+          name: string;
+          articles: Array<{ id: string; author: unknown }>;
+        };
+        expect(denormalized.name).toBe('Ada');
+        expect(denormalized.articles.map((item) => item.id)).toEqual(['1', '2']);
+        expect(denormalized.articles[1].author).toBe(denormalized);
+      });
+
+      test('api.md#indexes-usage - looking users up by email', () => {
+        const user = new schema.Entity('users', {}, { indexes: { email: { unique: true }, role: {} } });
+
+        const first = normalize(
+          [
+            { id: '1', email: 'ada@example.com', role: 'admin' },
+            { id: '2', email: 'grace@example.com', role: 'admin' },
+          ],
+          [user],
+        );
+        const { indexes } = normalizeInto(first.entities, { id: '1', email: 'ada@lovelace.dev' }, user, {
+          indexes: first.indexes,
+        });
+
+        expect(findByIndex(indexes!, user, 'email', 'ada@lovelace.dev')).toEqual(['1']);
+        expect(findByIndex(indexes!, user, 'email', 'ada@example.com')).toEqual([]);
+        expect(findByIndex(indexes!, user, 'role', 'admin')).toEqual(['1', '2']);
+
+        const { entities } = collectGarbage(first.entities, [{ result: ['1'], schema: [user] }]);
+
+        expect(buildIndexes(entities, user)).toEqual({
+          users: { email: { 'ada@example.com': ['1'] }, role: { admin: ['1'] } },
+        });
+      });
+
+      test('api.md#validator-usage - validating entities with a Standard Schema validator', () => {
+        // Zod isn't a dependency: a Standard Schema validator behaving like the documented Zod schema stands in for it
+        const validator: StandardSchemaV1<unknown, { id: string; email: string }> = {
+          '~standard': {
+            version: 1,
+            vendor: 'zod',
+            validate: (value) => {
+              const { id, email } = value as { id: string; email: string };
+              return email.includes('@')
+                ? { value: { id, email: email.trim() } }
+                : { issues: [{ message: 'Invalid email', path: ['email'] }] };
+            },
+          },
+        };
+        const user = new schema.Entity('users', {}, { validator });
+        expectTypeOf<Denormalized<typeof user>>().toEqualTypeOf<{ id: string; email: string }>();
+
+        expect(normalize([{ id: '1', email: ' ada@example.com ' }], [user]).entities).toEqual({
+          users: { '1': { id: '1', email: 'ada@example.com' } },
+        });
+        expect(() => normalize([{ id: '2', email: 'not an email' }], [user])).toThrow(ValidationError);
+        expect(() => normalize([{ id: '2', email: 'not an email' }], [user])).toThrow(
+          'Invalid entity "users": email: Invalid email. (at $[0])',
+        );
+      });
+
       test('api.md#dynamic-schema-functions - dynamic schema based on parent', () => {
         const mediaSchema = new schema.Entity('media');
         const articleSchema = new schema.Entity('articles');
@@ -290,6 +706,77 @@ describe('api.md examples', () => {
       });
     });
 
+    describe('schema.GraphQL', () => {
+      test('api.md#graphql-usage - entities found by __typename', () => {
+        const data = {
+          viewer: {
+            __typename: 'User',
+            id: '1',
+            name: 'Ada',
+            posts: {
+              __typename: 'PostConnection',
+              nodes: [{ __typename: 'Post', id: '7', title: 'Hello', author: { __typename: 'User', id: '1' } }],
+            },
+          },
+        };
+
+        const user = new schema.Entity('users');
+        const post = new schema.Entity('posts');
+        const graphqlSchema = new schema.GraphQL({ User: user, Post: post });
+
+        const normalizedData = normalize(data, graphqlSchema);
+
+        expect(normalizedData).toEqual({
+          entities: {
+            users: {
+              '1': {
+                __typename: 'User',
+                id: '1',
+                name: 'Ada',
+                posts: { __typename: 'PostConnection', nodes: [{ id: '7', schema: 'Post' }] },
+              },
+            },
+            posts: {
+              '7': { __typename: 'Post', id: '7', title: 'Hello', author: { id: '1', schema: 'User' } },
+            },
+          },
+          result: { viewer: { id: '1', schema: 'User' } },
+        });
+      });
+    });
+
+    describe('schema.Invalidate', () => {
+      test('api.md#invalidate-usage - deleting an entity', () => {
+        const article = new schema.Entity('articles');
+        const store = {
+          articles: {
+            '5': { id: 5, title: 'Hello' },
+            '6': { id: 6, title: 'World' },
+          },
+        };
+
+        const { entities } = normalizeInto(store, { id: 5 }, new schema.Invalidate(article));
+
+        const articles = denormalize([5, 6], [article], entities);
+
+        expect(articles).toEqual([{ id: 6, title: 'World' }]);
+      });
+    });
+
+    describe('schema.Map', () => {
+      test('api.md#map-usage - normalizing and denormalizing a Map', () => {
+        const user = new schema.Entity('users');
+        const usersByRole = new schema.Map(user);
+
+        const { result, entities } = normalize(new Map([['owner', { id: '1', name: 'Ada' }]]), usersByRole);
+
+        const denormalizedData = denormalize(result, usersByRole, entities);
+
+        expect(result).toEqual([['owner', '1']]);
+        expect(denormalizedData).toEqual(new Map([['owner', { id: '1', name: 'Ada' }]]));
+      });
+    });
+
     describe('schema.Object', () => {
       test('api.md#object-usage - object schema', () => {
         // Example data response
@@ -326,6 +813,41 @@ describe('api.md examples', () => {
       });
     });
 
+    describe('schema.Set', () => {
+      test('api.md#set-usage - normalizing a Set into an array', () => {
+        const tag = new schema.Entity('tags');
+        const post = new schema.Entity('posts', { tags: new schema.Set(tag, { native: false }) });
+
+        const normalizedData = normalize({ id: '1', tags: new Set([{ id: 'ts' }, { id: 'js' }]) }, post);
+
+        expect(normalizedData).toEqual({
+          entities: {
+            posts: { '1': { id: '1', tags: ['ts', 'js'] } },
+            tags: { ts: { id: 'ts' }, js: { id: 'js' } },
+          },
+          result: '1',
+        });
+      });
+    });
+
+    describe('schema.Tuple', () => {
+      test('api.md#tuple-usage - normalizing each position with its own schema', () => {
+        const user = new schema.Entity('users');
+        const team = new schema.Entity('teams');
+        const session = new schema.Tuple([user, null, team]);
+
+        const normalizedData = normalize([{ id: '1', name: 'Ada' }, ['admin'], { id: '7', name: 'Core' }], session);
+
+        expect(normalizedData).toEqual({
+          entities: {
+            users: { '1': { id: '1', name: 'Ada' } },
+            teams: { '7': { id: '7', name: 'Core' } },
+          },
+          result: ['1', ['admin'], '7'],
+        });
+      });
+    });
+
     describe('schema.Union', () => {
       test('api.md#union-usage - union schema', () => {
         const data = { owner: { id: 1, type: 'user', name: 'Anne' } };
@@ -401,6 +923,55 @@ describe('api.md examples', () => {
     });
   });
 
+  describe('Errors', () => {
+    test('api.md#errors - errors report the path of the offending value', () => {
+      const user = new schema.Entity('users');
+      const article = new schema.Entity('articles', { author: user });
+
+      expect(() =>
+        normalize(
+          {
+            articles: [
+              { id: 1, author: { id: 2 } },
+              { id: 3, author: [] },
+            ],
+          },
+          { articles: [article] },
+        ),
+      ).toThrow(expect.objectContaining({ path: '$.articles[1].author', schemaKey: 'users', value: [] }));
+    });
+
+    test('api.md#errors - custom schemas extend the path with appendPath', () => {
+      const user = new schema.Entity('users');
+
+      class Pair {
+        constructor(public schema: Schema) {}
+
+        normalize(
+          input: unknown[],
+          parent: unknown,
+          key: string | undefined,
+          visit: VisitFn,
+          addEntity: AddEntityFn,
+          visitedEntities: VisitedEntities,
+          path: NormalizePath,
+        ) {
+          return input.map((item, index) =>
+            visit(item, input, String(index), this.schema, addEntity, visitedEntities, appendPath(path, index)),
+          );
+        }
+
+        denormalize(input: unknown[], unvisit: UnvisitFn) {
+          return input.map((item) => unvisit(item, this.schema));
+        }
+      }
+
+      expect(() => normalize({ pair: [{ id: 1 }, []] }, { pair: new Pair(user) })).toThrow(
+        expect.objectContaining({ name: 'InvalidInputError', path: '$.pair[1]' }),
+      );
+    });
+  });
+
   describe('Type Utilities', () => {
     test('api.md#as-method - .as<T>() method usage', () => {
       // Define your data types
@@ -650,6 +1221,64 @@ describe('faqs.md examples', () => {
   });
 });
 
+describe('jsonapi.md examples', () => {
+  const person = new schema.Entity('people');
+  const comment = new schema.Entity('comments', { author: person });
+  const article = new schema.Entity('articles', { author: person, comments: [comment] });
+
+  const document = {
+    data: {
+      type: 'articles',
+      id: '1',
+      attributes: { title: 'JSON:API paints my bikeshed!' },
+      relationships: {
+        author: { data: { type: 'people', id: '9' } },
+        comments: { data: [{ type: 'comments', id: '5' }] },
+      },
+      links: { self: 'http://example.com/articles/1' },
+    },
+    included: [
+      { type: 'people', id: '9', attributes: { name: 'Dan' } },
+      {
+        type: 'comments',
+        id: '5',
+        attributes: { body: 'First!' },
+        relationships: { author: { data: { type: 'people', id: '9' } } },
+      },
+    ],
+    meta: { copyright: 'Copyright 2015 Example Corp.' },
+  };
+
+  test('jsonapi.md#normalizejsonapi-usage - normalizing a compound document', () => {
+    expect(normalizeJsonApi(document, article)).toEqual({
+      result: '1',
+      entities: {
+        articles: {
+          '1': {
+            id: '1',
+            title: 'JSON:API paints my bikeshed!',
+            author: '9',
+            comments: ['5'],
+            $jsonapi: { links: { self: 'http://example.com/articles/1' } },
+          },
+        },
+        people: { '9': { id: '9', name: 'Dan' } },
+        comments: { '5': { id: '5', body: 'First!', author: '9' } },
+      },
+      meta: { copyright: 'Copyright 2015 Example Corp.' },
+    });
+  });
+
+  test('jsonapi.md#denormalizejsonapi-usage - building a compound document', () => {
+    const { entities } = normalizeJsonApi(document, article);
+
+    expect(denormalizeJsonApi('1', article, entities)).toEqual({
+      data: document.data,
+      included: document.included,
+    });
+  });
+});
+
 describe('README.md examples', () => {
   test('README.md#quick-start - blog post normalization', () => {
     // Sample blog post data (as shown in README)
@@ -0,0 +1,192 @@
+import { describe, test, expect } from 'vitest';
+import {
+  InvalidInputError,
+  InvalidSchemaError,
+  NormalizrError,
+  UnknownSchemaAttributeError,
+  normalize,
+  normalizeInto,
+  normalizeJsonApi,
+  schema,
+  appendPath,
+} from '../src/index.js';
+import type { AddEntityFn, NormalizePath, VisitFn, VisitedEntities } from '../src/index.js';
+
+/**
+ * Run a function and return the error it throws.
+ */
+function catchError(fn: () => unknown): NormalizrError {
+  try {
+    fn();
+  } catch (error) {
+    return error as NormalizrError;
+  }
+  throw new Error('Expected function to throw');
+}
+
+describe('NormalizrError', () => {
+  const user = new schema.Entity('users');
+  const article = new schema.Entity('articles', { author: user });
+
+  test('reports the path, value and schema key of invalid entities', () => {
+    const error = catchError(() =>
+      normalize({ articles: [{ id: 1 }, { id: 3, author: [] }] }, { articles: [article] }),
+    );
+
+    expect(error).toMatchObject({
+      name: 'InvalidInputError',
+      path: '$.articles[1].author',
+      value: [],
+      schemaKey: 'users',
+      message: 'Expected an object for entity "users", but received an array. (at $.articles[1].author)',
+    });
+  });
+
+  test('is an instance of the error hierarchy', () => {
+    const error = catchError(() => normalize([{ id: 1, author: [] }], [article]));
+
+    expect(error).toBeInstanceOf(InvalidInputError);
+    expect(error).toBeInstanceOf(NormalizrError);
+    expect(error).toBeInstanceOf(Error);
+  });
+
+  test('tracks the path through every schema type', () => {
+    const mySchema = new schema.Object({
+      byId: new schema.Values(new schema.Array(user)),
+      graph: new schema.GraphQL({ Article: article }),
+    });
+
+    expect(catchError(() => normalize({ byId: { 'first-page': [[]] } }, mySchema)).path).toBe(
+      '$.byId["first-page"][0]',
+    );
+    expect(
+      catchError(() =>
+        normalize({ graph: { edges: [{ node: { __typename: 'Article', id: 1, author: [] } }] } }, mySchema),
+      ).path,
+    ).toBe('$.graph.edges[0].node.author');
+  });
+
+  test('reports invalid top-level input', () => {
+    // @ts-expect-error - testing runtime error
+    const error = catchError(() => normalize(null, user));
+
+    expect(error).toBeInstanceOf(InvalidInputError);
+    expect(error.path).toBe('$');
+    expect(error.value).toBeNull();
+  });
+
+  test('reports invalid schema definitions', () => {
+    // @ts-expect-error - testing runtime error
+    expect(catchError(() => new schema.Union({ user }))).toBeInstanceOf(InvalidSchemaError);
+    expect(catchError(() => new schema.Entity(''))).toBeInstanceOf(InvalidSchemaError);
+
+    const error = catchError(() =>
+      normalize({ users: [{ id: 1 }] }, { users: [user, user] as unknown as [typeof user] }),
+    );
+    expect(error).toBeInstanceOf(InvalidSchemaError);
+    expect(error.path).toBe('$.users');
+  });
+
+  test('reports unknown JSON:API resource types', () => {
+    const error = catchError(() =>
+      normalizeJsonApi({ data: { type: 'users', id: '1' }, included: [{ type: 'teams', id: '2' }] }, user),
+    );
+
+    expect(error).toBeInstanceOf(UnknownSchemaAttributeError);
+    expect(error.path).toBe('$.included[0]');
+    expect(error.value).toEqual({ type: 'teams', id: '2' });
+  });
+});
+
+describe('normalize onError option', () => {
+  const user = new schema.Entity('users');
+  const article = new schema.Entity('articles', { author: user });
+  const input: any[] = [{ id: 1, author: { id: 7 } }, 'oops', { id: 2, author: [] }, { id: 3 }];
+
+  test('throws by default', () => {
+    expect(() => normalize(input, [article])).toThrow(InvalidInputError);
+    expect(normalize([{ id: 1 }], [article])).not.toHaveProperty('errors');
+  });
+
+  test('skips invalid values and reports them', () => {
+    const { entities, result, errors } = normalize(
+      { articles: input, featured: [] as any },
+      { articles: [article], featured: article },
+      { onError: 'skip' },
+    );
+
+    expect(result).toEqual({ articles: [1, 'oops', 2, 3] });
+    expect(entities).toEqual({
+      articles: { 1: { id: 1, author: 7 }, 2: { id: 2 }, 3: { id: 3 } },
+      users: { 7: { id: 7 } },
+    });
+    expect(errors!.map((error) => error.path)).toEqual(['$.articles[2].author', '$.featured']);
+    expect(errors![0]).toBeInstanceOf(InvalidInputError);
+  });
+
+  test('drops skipped entities from arrays', () => {
+    const { result, errors } = normalize([{ id: 1 }, [], []] as any, new schema.Array(user), {
+      onError: 'skip',
+    });
+    const shorthand = normalize([{ id: 1 }, [], null] as any, [user], { onError: 'skip' });
+
+    expect(result).toEqual([1]);
+    expect(errors).toHaveLength(2);
+    expect(shorthand.result).toEqual([1, null]);
+    expect(shorthand.errors).toHaveLength(1);
+  });
+
+  test('tells custom schemas which values were skipped', () => {
+    const list = {
+      normalize(
+        input: unknown[],
+        parent: unknown,
+        key: string | undefined,
+        visit: VisitFn,
+        addEntity: AddEntityFn,
+        visitedEntities: VisitedEntities,
+        path: NormalizePath,
+      ) {
+        return input.flatMap((item, index) => {
+          const itemPath = appendPath(path, index);
+          const value = visit(item, input, key, user, addEntity, visitedEntities, itemPath);
+          return visit.isSkipped?.(itemPath) ? [] : [value];
+        });
+      },
+      denormalize: (input: unknown) => input,
+    };
+
+    expect(normalize([{ id: 1 }, [], { id: 2 }], list, { onError: 'skip' }).result).toEqual([1, 2]);
+    expect(normalize([{ id: 1 }, [], { id: 2 }], list, { onError: 'collect' }).result).toEqual([1, [], 2]);
+  });
+
+  test('keeps invalid values as is when collecting', () => {
+    const { entities, result, errors } = normalize(input, [article], { onError: 'collect' });
+
+    expect(result).toEqual([1, 'oops', 2, 3]);
+    expect(entities.articles[2]).toEqual({ id: 2, author: [] });
+    expect(errors).toHaveLength(1);
+    expect(errors![0].path).toBe('$[2].author');
+  });
+
+  test('returns an empty list when nothing is invalid', () => {
+    expect(normalize([{ id: 1 }], [user], { onError: 'collect' }).errors).toEqual([]);
+  });
+
+  test('always throws schema definition errors and invalid top-level input', () => {
+    const invalidSchema = [user, user] as unknown as [typeof user];
+
+    expect(() => normalize([{ id: 1 }], invalidSchema, { onError: 'skip' })).toThrow(InvalidSchemaError);
+    // @ts-expect-error - testing runtime error
+    expect(() => normalize(null, user, { onError: 'skip' })).toThrow(InvalidInputError);
+  });
+
+  test('works with normalizeInto', () => {
+    const { entities, errors } = normalizeInto({ users: { 1: { id: 1 } } }, [[], { id: 2 }] as any, [user], {
+      onError: 'skip',
+    });
+
+    expect(entities).toEqual({ users: { 1: { id: 1 }, 2: { id: 2 } } });
+    expect(errors).toHaveLength(1);
+  });
+});
@@ -0,0 +1,220 @@
+import { describe, test, expect } from 'vitest';
+import { IndexConflictError, buildIndexes, findByIndex, normalize, normalizeInto, schema } from '../src/index.js';
+
+describe('Entity indexes option', () => {
+  const user = new schema.Entity('users', {}, { indexes: { email: { unique: true }, role: {} } });
+  const article = new schema.Entity('articles', { author: user });
+
+  test('is not in the output without indexed entities', () => {
+    expect(normalize({ id: 1 }, new schema.Entity('tags'))).not.toHaveProperty('indexes');
+  });
+
+  test('indexes entity fields by value', () => {
+    const { indexes } = normalize(
+      [
+        { id: 1, email: 'ada@example.com', role: 'admin' },
+        { id: 2, email: 'grace@example.com', role: 'admin' },
+        { id: 3, role: 'guest' },
+      ],
+      [user],
+    );
+
+    expect(indexes).toEqual({
+      users: {
+        email: { 'ada@example.com': ['1'], 'grace@example.com': ['2'] },
+        role: { admin: ['1', '2'], guest: ['3'] },
+      },
+    });
+  });
+
+  test('indexes nested entities', () => {
+    const { indexes } = normalize({ id: 10, author: { id: 1, email: 'ada@example.com' } }, article);
+
+    expect(indexes).toEqual({ users: { email: { 'ada@example.com': ['1'] }, role: {} } });
+  });
+
+  test('moves entities whose value changed when merging', () => {
+    const first = normalize(
+      [
+        { id: 1, email: 'ada@example.com', role: 'admin' },
+        { id: 2, email: 'grace@example.com', role: 'admin' },
+      ],
+      [user],
+    );
+
+    const { indexes } = normalizeInto(first.entities, { id: 1, email: 'ada@lovelace.dev' }, user, {
+      indexes: first.indexes,
+    });
+
+    expect(indexes!.users.email).toEqual({ 'ada@lovelace.dev': ['1'], 'grace@example.com': ['2'] });
+    expect(indexes!.users.role.admin).toBe(first.indexes!.users.role.admin);
+    expect(first.indexes!.users.email).toEqual({ 'ada@example.com': ['1'], 'grace@example.com': ['2'] });
+  });
+
+  test('indexes the existing store when normalizing into it', () => {
+    const store = { users: { 1: { id: 1, email: 'ada@example.com', role: 'admin' } } };
+
+    const { indexes } = normalizeInto(store, { id: 2, role: 'admin' }, user);
+
+    expect(indexes!.users.role).toEqual({ admin: ['1', '2'] });
+  });
+
+  test('removes invalidated entities', () => {
+    const first = normalize([{ id: 1, email: 'ada@example.com', role: 'admin' }], [user]);
+
+    const { indexes } = normalizeInto(first.entities, { id: 1 }, new schema.Invalidate(user), {
+      indexes: first.indexes,
+    });
+
+    expect(indexes).toEqual({ users: { email: {}, role: {} } });
+  });
+
+  test('throws on conflicts in unique indexes', () => {
+    const input = [
+      { id: 10, author: { id: 1, email: 'ada@example.com' } },
+      { id: 11, author: { id: 2, email: 'ada@example.com' } },
+    ];
+
+    expect(() => normalize(input, [article])).toThrow(IndexConflictError);
+    expect(() => normalize(input, [article])).toThrow(
+      'Expected a unique "email" for entity "users" "2", but entity "1" already has "ada@example.com". (at $[1].author)',
+    );
+  });
+
+  test('reports conflicts like other invalid values with onError', () => {
+    const { entities, result, indexes, errors } = normalize(
+      [
+        { id: 10, author: { id: 1, email: 'ada@example.com' } },
+        { id: 11, author: { id: 2, email: 'ada@example.com' } },
+      ],
+      [article],
+      { onError: 'skip' },
+    );
+
+    expect(result).toEqual([10, 11]);
+    expect(entities.users).toEqual({ 1: { id: 1, email: 'ada@example.com' } });
+    expect(entities.articles[11]).toEqual({ id: 11, author: undefined });
+    expect(indexes!.users.email).toEqual({ 'ada@example.com': ['1'] });
+    expect(errors).toHaveLength(1);
+    expect(errors![0]).toBeInstanceOf(IndexConflictError);
+  });
+
+  test('allows an entity to keep its own unique value', () => {
+    const first = normalize({ id: 1, email: 'ada@example.com' }, user);
+
+    expect(() => normalizeInto(first.entities, { id: 1, email: 'ada@example.com', name: 'Ada' }, user)).not.toThrow();
+  });
+
+  test('allows entities to swap unique values', () => {
+    const first = normalize(
+      [
+        { id: 1, email: 'ada@example.com' },
+        { id: 2, email: 'grace@example.com' },
+      ],
+      [user],
+    );
+
+    const { indexes } = normalizeInto(
+      first.entities,
+      [
+        { id: 1, email: 'grace@example.com' },
+        { id: 2, email: 'ada@example.com' },
+      ],
+      [user],
+      { indexes: first.indexes },
+    );
+
+    expect(indexes!.users.email).toEqual({ 'grace@example.com': ['1'], 'ada@example.com': ['2'] });
+  });
+
+  test('reports conflicts with stored entities that keep their value', () => {
+    const first = normalize([{ id: 1, email: 'ada@example.com' }], [user]);
+
+    expect(() => normalizeInto(first.entities, { id: 2, email: 'ada@example.com' }, user)).toThrow(
+      'Expected a unique "email" for entity "users" "2", but entity "1" already has "ada@example.com". (at $)',
+    );
+
+    const { entities, indexes, errors } = normalizeInto(
+      first.entities,
+      [
+        { id: 2, email: 'ada@example.com' },
+        { id: 3, email: 'grace@example.com' },
+      ],
+      [user],
+      { onError: 'skip' },
+    );
+
+    expect(entities.users).toEqual({
+      1: { id: 1, email: 'ada@example.com' },
+      3: { id: 3, email: 'grace@example.com' },
+    });
+    expect(indexes!.users.email).toEqual({ 'ada@example.com': ['1'], 'grace@example.com': ['3'] });
+    expect(errors).toHaveLength(1);
+  });
+
+  test('leaves rejected entities out of the changes', () => {
+    const first = normalize([{ id: 1, email: 'ada@example.com' }], [user]);
+
+    const { entities, changes } = normalizeInto(
+      first.entities,
+      [{ id: 5, author: { id: 2, email: 'ada@example.com' } }],
+      [article],
+      { onError: 'collect', changes: true },
+    );
+
+    expect(entities.users).toEqual({ 1: { id: 1, email: 'ada@example.com' } });
+    expect(changes).toEqual({
+      articles: { added: [5], updated: {}, unchanged: [], removed: [] },
+      users: { added: [], updated: {}, unchanged: [], removed: [] },
+    });
+  });
+
+  test('indexes the fields missing from the given indexes', () => {
+    const first = normalize({ id: 1, email: 'ada@example.com', role: 'admin' }, new schema.Entity('users'));
+    const { indexes } = normalizeInto(first.entities, { id: 2, email: 'grace@example.com', role: 'admin' }, user, {
+      indexes: { users: { email: { 'ada@example.com': ['1'] } } },
+    });
+
+    expect(indexes!.users).toEqual({
+      email: { 'ada@example.com': ['1'], 'grace@example.com': ['2'] },
+      role: { admin: ['1', '2'] },
+    });
+  });
+});
+
+describe('buildIndexes', () => {
+  const user = new schema.Entity('users', {}, { indexes: { email: { unique: true } } });
+  const article = new schema.Entity('articles', { author: user });
+
+  test('indexes the entities of a store', () => {
+    const entities = {
+      articles: { 10: { id: 10, author: 1 } },
+      users: { 1: { id: 1, email: 'ada@example.com' }, 2: { id: 2, email: 'ada@example.com' }, 3: { id: 3 } },
+    };
+
+    expect(buildIndexes(entities, article)).toEqual({ users: { email: { 'ada@example.com': ['1', '2'] } } });
+    expect(buildIndexes({}, [article])).toEqual({ users: { email: {} } });
+  });
+});
+
+describe('findByIndex', () => {
+  const user = new schema.Entity('users', {}, { indexes: { email: { unique: true }, age: {} } });
+  const { indexes } = normalize(
+    [
+      { id: 1, email: 'ada@example.com', age: 36 },
+      { id: 2, email: 'grace@example.com', age: 36 },
+    ],
+    [user],
+  );
+
+  test('returns the IDs of the entities with the value', () => {
+    expect(findByIndex(indexes!, user, 'email', 'grace@example.com')).toEqual(['2']);
+    expect(findByIndex(indexes!, user, 'age', 36)).toEqual(['1', '2']);
+  });
+
+  test('returns an empty array for unknown values, fields and schemas', () => {
+    expect(findByIndex(indexes!, user, 'email', 'alan@example.com')).toEqual([]);
+    expect(findByIndex(indexes!, user, 'name', 'Ada')).toEqual([]);
+    expect(findByIndex(indexes!, new schema.Entity('articles'), 'email', 'ada@example.com')).toEqual([]);
+  });
+});
@@ -0,0 +1,375 @@
+import { describe, test, expect } from 'vitest';
+import { normalizeJsonApi, denormalizeJsonApi, denormalize, schema } from '../src/index.js';
+
+describe('normalizeJsonApi', () => {
+  const person = new schema.Entity('people');
+  const tag = new schema.Entity('tags');
+  const article = new schema.Entity('articles', { author: person, tags: [tag] });
+
+  test('flattens attributes and to-one and to-many relationships', () => {
+    const { entities, result } = normalizeJsonApi(
+      {
+        data: {
+          type: 'articles',
+          id: '1',
+          attributes: { title: 'Hello' },
+          relationships: {
+            author: { data: { type: 'people', id: '9' } },
+            tags: {
+              data: [
+                { type: 'tags', id: 'a' },
+                { type: 'tags', id: 'b' },
+              ],
+            },
+          },
+        },
+      },
+      article,
+    );
+
+    expect(result).toBe('1');
+    expect(entities).toEqual({
+      articles: { 1: { id: '1', title: 'Hello', author: '9', tags: ['a', 'b'] } },
+    });
+  });
+
+  test('normalizes included resources and arrays of primary data', () => {
+    const { entities, result } = normalizeJsonApi(
+      {
+        data: [
+          { type: 'articles', id: '1', relationships: { author: { data: { type: 'people', id: '9' } } } },
+          { type: 'articles', id: '2', relationships: { author: { data: null } } },
+        ],
+        included: [{ type: 'people', id: '9', attributes: { name: 'Dan' } }],
+      },
+      [article],
+    );
+
+    expect(result).toEqual(['1', '2']);
+    expect(entities).toEqual({
+      articles: { 1: { id: '1', author: '9' }, 2: { id: '2', author: null } },
+      people: { 9: { id: '9', name: 'Dan' } },
+    });
+  });
+
+  test('keeps the links and meta of relationships without data', () => {
+    const { entities } = normalizeJsonApi(
+      {
+        data: {
+          type: 'articles',
+          id: '1',
+          relationships: { author: { links: { related: '/articles/1/author' } } },
+        },
+      },
+      article,
+    );
+
+    expect(entities.articles[1]).toEqual({
+      id: '1',
+      $jsonapi: { relationships: { author: { links: { related: '/articles/1/author' } } } },
+    });
+  });
+
+  test('keeps the links and meta of relationships apart from their data', () => {
+    const { entities } = normalizeJsonApi(
+      {
+        data: {
+          type: 'articles',
+          id: '1',
+          relationships: {
+            author: { data: { type: 'people', id: '9' }, links: { self: '/articles/1/relationships/author' } },
+            tags: { data: [], meta: { count: 0 } },
+          },
+        },
+      },
+      article,
+    );
+
+    expect(entities.articles[1]).toEqual({
+      id: '1',
+      author: '9',
+      tags: [],
+      $jsonapi: {
+        relationships: {
+          author: { links: { self: '/articles/1/relationships/author' } },
+          tags: { meta: { count: 0 } },
+        },
+      },
+    });
+  });
+
+  test('stores { id, schema } references for union fields', () => {
+    const image = new schema.Entity('images');
+    const video = new schema.Entity('videos');
+    const post = new schema.Entity('posts', {
+      attachments: [new schema.Union({ image, video }, 'type')],
+    });
+
+    const { entities } = normalizeJsonApi(
+      {
+        data: {
+          type: 'posts',
+          id: '1',
+          relationships: {
+            attachments: {
+              data: [
+                { type: 'images', id: '3' },
+                { type: 'videos', id: '4' },
+              ],
+            },
+          },
+        },
+        included: [
+          { type: 'images', id: '3', attributes: { url: 'a.png' } },
+          { type: 'videos', id: '4', attributes: { url: 'b.mp4' } },
+        ],
+      },
+      post,
+    );
+
+    expect(entities.posts[1]).toEqual({
+      id: '1',
+      attachments: [
+        { id: '3', schema: 'image' },
+        { id: '4', schema: 'video' },
+      ],
+    });
+    expect(entities.images[3]).toEqual({ id: '3', url: 'a.png' });
+  });
+
+  test('references mixed primary data by type', () => {
+    const { result } = normalizeJsonApi(
+      {
+        data: [
+          { type: 'articles', id: '1' },
+          { type: 'people', id: '9' },
+        ],
+      },
+      article,
+    );
+
+    expect(result).toEqual([
+      { id: '1', schema: 'articles' },
+      { id: '9', schema: 'people' },
+    ]);
+  });
+
+  test('keeps links and meta', () => {
+    const output = normalizeJsonApi(
+      {
+        data: { type: 'people', id: '9', links: { self: '/people/9' }, meta: { rank: 1 } },
+        links: { self: '/people/9' },
+        meta: { total: 1 },
+      },
+      person,
+    );
+
+    expect(output).toEqual({
+      entities: { people: { 9: { id: '9', $jsonapi: { links: { self: '/people/9' }, meta: { rank: 1 } } } } },
+      result: '9',
+      links: { self: '/people/9' },
+      meta: { total: 1 },
+    });
+  });
+
+  test('keeps links and meta apart from attributes with the same names', () => {
+    const { entities } = normalizeJsonApi(
+      {
+        data: {
+          type: 'people',
+          id: '9',
+          attributes: { links: ['https://dan.dev'], meta: 'bio' },
+          links: { self: '/people/9' },
+        },
+      },
+      person,
+    );
+
+    expect(entities.people[9]).toEqual({
+      id: '9',
+      links: ['https://dan.dev'],
+      meta: 'bio',
+      $jsonapi: { links: { self: '/people/9' } },
+    });
+  });
+
+  test('keeps relationships that are not in the definition apart from attributes', () => {
+    const document = {
+      data: {
+        type: 'people',
+        id: '9',
+        attributes: { name: 'Dan' },
+        relationships: { employer: { data: { type: 'companies', id: '3' } } },
+      },
+    };
+    const { entities, result } = normalizeJsonApi(document, person);
+
+    expect(entities.people[9]).toEqual({
+      id: '9',
+      name: 'Dan',
+      $jsonapi: { relationships: { employer: { data: { type: 'companies', id: '3' } } } },
+    });
+    expect(denormalizeJsonApi(result, person, entities)).toEqual(document);
+  });
+
+  test.each([
+    ['a string', 'uuid', { uuid: '9', name: 'Dan' }],
+    ['an array', ['org', 'handle'], { id: '9', name: 'Dan' }],
+    ['a function', () => 'ignored', { id: '9', name: 'Dan' }],
+  ])('stores resources under their ID when the idAttribute is %s', (_, idAttribute, entity) => {
+    const member = new schema.Entity('members', {}, { idAttribute });
+
+    const { entities, result } = normalizeJsonApi(
+      { data: { type: 'members', id: '9', attributes: { name: 'Dan' } } },
+      member,
+    );
+
+    expect(result).toBe('9');
+    expect(entities).toEqual({ members: { 9: entity } });
+  });
+
+  test('returns a null result for empty primary data', () => {
+    expect(normalizeJsonApi({ data: null }, person)).toEqual({ entities: {}, result: null });
+  });
+
+  test('merges into an existing store without mutating it', () => {
+    const store = { people: { 9: { id: '9', name: 'Dan', email: 'dan@example.com' } } };
+
+    const { entities } = normalizeJsonApi(
+      { data: { type: 'people', id: '9', attributes: { name: 'Daniel' } } },
+      person,
+      store,
+    );
+
+    expect(entities.people[9]).toEqual({ id: '9', name: 'Daniel', email: 'dan@example.com' });
+    expect(store.people[9].name).toBe('Dan');
+  });
+
+  test('produces entities that denormalize like normalize() output', () => {
+    const { entities, result } = normalizeJsonApi(
+      {
+        data: { type: 'articles', id: '1', relationships: { author: { data: { type: 'people', id: '9' } } } },
+        included: [{ type: 'people', id: '9', attributes: { name: 'Dan' } }],
+      },
+      article,
+    );
+
+    expect(denormalize(result as string, article, entities)).toEqual({ id: '1', author: { id: '9', name: 'Dan' } });
+  });
+
+  test('throws for resource types without an entity schema', () => {
+    expect(() => normalizeJsonApi({ data: { type: 'comments', id: '1' } }, article)).toThrow(
+      'No entity schema found for JSON:API resource type "comments".',
+    );
+  });
+
+  test('throws for documents without data', () => {
+    // @ts-expect-error testing invalid input
+    expect(() => normalizeJsonApi({ errors: [] }, article)).toThrow(/Expected a JSON:API document/);
+  });
+});
+
+describe('denormalizeJsonApi', () => {
+  const person = new schema.Entity('people');
+  const article = new schema.Entity('articles', { author: person });
+  person.define({ articles: [article] });
+
+  const entities = {
+    articles: {
+      1: { id: '1', title: 'Hello', author: '9' },
+      2: { id: '2', title: 'World', author: '9' },
+    },
+    people: {
+      9: { id: '9', name: 'Dan', articles: ['1', '2'], $jsonapi: { links: { self: '/people/9' } } },
+    },
+  };
+
+  test('includes every referenced resource once, excluding primary data', () => {
+    expect(denormalizeJsonApi('1', article, entities)).toEqual({
+      data: {
+        type: 'articles',
+        id: '1',
+        attributes: { title: 'Hello' },
+        relationships: { author: { data: { type: 'people', id: '9' } } },
+      },
+      included: [
+        {
+          type: 'people',
+          id: '9',
+          attributes: { name: 'Dan' },
+          relationships: {
+            articles: {
+              data: [
+                { type: 'articles', id: '1' },
+                { type: 'articles', id: '2' },
+              ],
+            },
+          },
+          links: { self: '/people/9' },
+        },
+        {
+          type: 'articles',
+          id: '2',
+          attributes: { title: 'World' },
+          relationships: { author: { data: { type: 'people', id: '9' } } },
+        },
+      ],
+    });
+  });
+
+  test('returns array data for array results and omits empty included', () => {
+    const standalone = new schema.Entity('people');
+
+    expect(denormalizeJsonApi(['9'], [standalone], { people: { 9: { id: '9', name: 'Dan' } } })).toEqual({
+      data: [{ type: 'people', id: '9', attributes: { name: 'Dan' } }],
+    });
+  });
+
+  test('skips references to missing entities from included', () => {
+    const document = denormalizeJsonApi('1', article, { articles: { 1: { id: '1', author: '404' } } });
+
+    expect(document).toEqual({
+      data: { type: 'articles', id: '1', relationships: { author: { data: { type: 'people', id: '404' } } } },
+    });
+  });
+
+  test('round-trips a normalized document', () => {
+    const document = {
+      data: {
+        type: 'articles',
+        id: '1',
+        attributes: { title: 'Hello' },
+        relationships: { author: { data: { type: 'people', id: '9' } } },
+      },
+      included: [{ type: 'people', id: '9', attributes: { name: 'Dan' } }],
+    };
+    const simpleArticle = new schema.Entity('articles', { author: new schema.Entity('people') });
+    const { entities: normalized, result } = normalizeJsonApi(document, simpleArticle);
+
+    expect(denormalizeJsonApi(result, simpleArticle, normalized)).toEqual(document);
+  });
+
+  test('round-trips the links and meta of relationships', () => {
+    const document = {
+      data: {
+        type: 'articles',
+        id: '1',
+        relationships: {
+          author: {
+            links: { self: '/articles/1/relationships/author' },
+            data: { type: 'people', id: '9' },
+          },
+          tags: { links: { related: '/articles/1/tags' }, meta: { count: 2 } },
+        },
+      },
+      included: [{ type: 'people', id: '9', attributes: { name: 'Dan' } }],
+    };
+    const { entities: normalized, result } = normalizeJsonApi(document, article);
+
+    expect(denormalizeJsonApi(result, article, normalized)).toEqual(document);
+  });
+
+  test('returns null data for missing primary entities', () => {
+    expect(denormalizeJsonApi('3', article, entities)).toEqual({ data: null });
+  });
+});
@@ -0,0 +1,122 @@
+import { describe, test, expect, vi } from 'vitest';
+import { createLazyUnvisit, denormalize, normalize, schema } from '../src/index.js';
+
+describe('createLazyUnvisit', () => {
+  const user = new schema.Entity('users');
+  const article = new schema.Entity('articles', { author: user });
+
+  const entities = {
+    articles: {
+      1: { id: '1', title: 'Hello', author: '7' },
+      2: { id: '2', title: 'World', author: '7' },
+    },
+    users: {
+      7: { id: '7', name: 'Ada' },
+    },
+  };
+
+  test('denormalizes to the same shape as the eager strategy', () => {
+    const lazy = denormalize(['1', '2'], [article], entities, { createUnvisit: createLazyUnvisit });
+    const eager = denormalize(['1', '2'], [article], entities);
+
+    expect(lazy).toEqual(eager);
+  });
+
+  test('only resolves nested entities when they are accessed', () => {
+    const getEntityCalls: string[] = [];
+    const output = denormalize('1', article, entities, {
+      createUnvisit: (store, getEntity) =>
+        createLazyUnvisit(store, (id, entitySchema) => {
+          getEntityCalls.push(`${entitySchema.key}:${id}`);
+          return getEntity(id, entitySchema);
+        }),
+    }) as Record<string, unknown>;
+
+    expect(getEntityCalls).toEqual(['articles:1']);
+    expect(output.title).toBe('Hello');
+    expect(getEntityCalls).toEqual(['articles:1']);
+
+    expect((output.author as Record<string, unknown>).name).toBe('Ada');
+    expect(getEntityCalls).toEqual(['articles:1', 'users:7']);
+
+    // Resolved values are memoized on the proxy
+    expect(output.author).toBe(output.author);
+    expect(getEntityCalls).toHaveLength(2);
+  });
+
+  test('returns the same proxy for the same entity within a call', () => {
+    const output = denormalize(['1', '2'], [article], entities, {
+      createUnvisit: createLazyUnvisit,
+    }) as Array<Record<string, unknown>>;
+
+    expect(output[0].author).toBe(output[1].author);
+  });
+
+  test('keeps referential equality for circular references', () => {
+    const person = new schema.Entity('people');
+    person.define({ friends: [person] });
+
+    const input: { id: number; name: string; friends: unknown[] } = { id: 1, name: 'Alice', friends: [] };
+    input.friends.push(input);
+    const normalized = normalize(input, person);
+
+    const output = denormalize(normalized.result, person, normalized.entities, {
+      createUnvisit: createLazyUnvisit,
+    }) as { friends: unknown[] };
+
+    expect(output.friends[0]).toBe(output);
+  });
+
+  test('uses the fallback strategy for missing entities', () => {
+    const fallbackStrategy = vi.fn((id: string | number) => ({ id, name: 'Unknown' }));
+    const author = new schema.Entity('users', {}, { fallbackStrategy });
+    const book = new schema.Entity('books', { author });
+
+    const output = denormalize(
+      '1',
+      book,
+      { books: { 1: { id: '1', author: '9' } }, users: {} },
+      {
+        createUnvisit: createLazyUnvisit,
+      },
+    ) as { author: { id: string; name: string } };
+
+    expect(fallbackStrategy).not.toHaveBeenCalled();
+    expect(output.author).toEqual({ id: '9', name: 'Unknown' });
+    expect(fallbackStrategy).toHaveBeenCalledTimes(1);
+  });
+
+  test('returns undefined for missing entities without a fallback', () => {
+    const output = denormalize(
+      '1',
+      article,
+      { articles: { 1: { id: '1', author: '404' } } },
+      {
+        createUnvisit: createLazyUnvisit,
+      },
+    ) as Record<string, unknown>;
+
+    expect(output.author).toBeUndefined();
+    expect(denormalize('2', article, {}, { createUnvisit: createLazyUnvisit })).toBeUndefined();
+  });
+
+  test('does not modify the original entities', () => {
+    const frozen = Object.freeze({
+      articles: Object.freeze({ 1: Object.freeze({ id: '1', author: '7' }) }),
+      users: Object.freeze({ 7: Object.freeze({ id: '7', name: 'Ada' }) }),
+    });
+
+    const output = denormalize('1', article, frozen, { createUnvisit: createLazyUnvisit }) as Record<string, unknown>;
+
+    expect(output.author).toEqual({ id: '7', name: 'Ada' });
+    expect(frozen.articles[1].author).toBe('7');
+  });
+
+  test('explicit writes replace pending lazy values', () => {
+    const output = denormalize('1', article, entities, { createUnvisit: createLazyUnvisit }) as Record<string, unknown>;
+
+    output.author = 'replaced';
+
+    expect(output.author).toBe('replaced');
+  });
+});
@@ -1,5 +1,5 @@
 import { describe, test, expect, vi } from 'vitest';
-import { denormalize, normalize, schema } from '../src/index.js';
+import { denormalize, normalize, normalizeInto, schema } from '../src/index.js';
 
 describe('normalize', () => {
   [42, null, undefined, '42', () => {}].forEach((input) => {
@@ -369,6 +369,69 @@ describe('normalize', () => {
   });
 });
 
+describe('normalizeInto', () => {
+  test('cannot normalize input that is not an object', () => {
+    // @ts-expect-error - testing invalid input type
+    expect(() => normalizeInto({}, null, new schema.Entity('tacos'))).toThrow(/null/);
+  });
+
+  test('adds new entities to an existing store', () => {
+    const user = new schema.Entity('users');
+    const article = new schema.Entity('articles', { author: user });
+    const { entities } = normalize({ id: 1, name: 'Paul' }, user);
+
+    expect(normalizeInto(entities, { id: 10, title: 'Hello', author: { id: 2, name: 'Jane' } }, article)).toEqual({
+      entities: {
+        articles: { 10: { id: 10, title: 'Hello', author: 2 } },
+        users: {
+          1: { id: 1, name: 'Paul' },
+          2: { id: 2, name: 'Jane' },
+        },
+      },
+      result: 10,
+    });
+  });
+
+  test('merges with existing entities using the merge strategy', () => {
+    type Article = { id: number; title: string; views: number };
+    const mergeStrategy = vi.fn((a: Article, b: Article) => ({ ...a, ...b, views: a.views + b.views }));
+    const article = new schema.Entity('articles', {}, { mergeStrategy });
+    const store = { articles: { 1: { id: 1, title: 'Old', views: 2 } } };
+
+    const { entities } = normalizeInto(store, { id: 1, title: 'New', views: 3 }, article);
+
+    expect(mergeStrategy).toHaveBeenCalledTimes(1);
+    expect(entities.articles[1]).toEqual({ id: 1, title: 'New', views: 5 });
+  });
+
+  test('does not mutate the existing store', () => {
+    const user = new schema.Entity('users');
+    const store = Object.freeze({
+      users: Object.freeze({ 1: Object.freeze({ id: 1, name: 'Paul' }) }),
+    });
+
+    const { entities } = normalizeInto(store, { id: 1, name: 'Paula' }, user);
+
+    expect(store.users[1]).toEqual({ id: 1, name: 'Paul' });
+    expect(entities.users[1]).toEqual({ id: 1, name: 'Paula' });
+  });
+
+  test('shares untouched entity tables with the existing store', () => {
+    const user = new schema.Entity('users');
+    const store = {
+      users: { 1: { id: 1, name: 'Paul' } },
+      tags: { a: { id: 'a' } },
+    };
+
+    const { entities } = normalizeInto(store, [{ id: 2, name: 'Jane' }], [user]);
+
+    expect(entities).not.toBe(store);
+    expect(entities.tags).toBe(store.tags);
+    expect(entities.users).not.toBe(store.users);
+    expect(entities.users[1]).toBe(store.users[1]);
+  });
+});
+
 describe('denormalize', () => {
   test('returns the input if undefined', () => {
     expect(denormalize(undefined as any, {}, {})).toBeUndefined();
@@ -0,0 +1,143 @@
+import { describe, test, expect } from 'vitest';
+import { EntityStore, INVALIDATED, normalize, replaceId, schema } from '../src/index.js';
+
+describe('replaceId', () => {
+  const user = new schema.Entity('users');
+  const comment = new schema.Entity('comments', { author: user });
+  const article = new schema.Entity('articles', { author: user, comments: [comment], editors: [user] });
+
+  test('moves the entity to its new ID', () => {
+    const entities = { users: { 'tmp-1': { id: 'tmp-1', name: 'Ada' }, 2: { id: 2 } } };
+
+    expect(replaceId(entities, user, 'tmp-1', 987, [])).toEqual({
+      users: { 2: { id: 2 }, 987: { id: 987, name: 'Ada' } },
+    });
+  });
+
+  test('rewrites references in entity fields and arrays', () => {
+    const { entities } = normalize(
+      {
+        id: 1,
+        author: { id: 'tmp-1' },
+        editors: [{ id: 2 }, { id: 'tmp-1' }],
+        comments: [{ id: 5, author: { id: 'tmp-1' } }],
+      },
+      article,
+    );
+
+    const updated = replaceId(entities, user, 'tmp-1', 987, [article]);
+
+    expect(updated.articles[1]).toEqual({ id: 1, author: 987, editors: [2, 987], comments: [5] });
+    expect(updated.comments[5]).toEqual({ id: 5, author: 987 });
+    expect(updated.users).toEqual({ 2: { id: 2 }, 987: { id: 987 } });
+  });
+
+  test('rewrites polymorphic references', () => {
+    const group = new schema.Entity('groups');
+    const member = new schema.Union({ users: user, groups: group }, 'type');
+    const team = new schema.Entity('teams', {
+      lead: member,
+      members: new schema.Array({ users: user, groups: group }, 'type'),
+      byRole: new schema.Values({ users: user, groups: group }, 'type'),
+    });
+    const entities = {
+      teams: {
+        1: {
+          id: 1,
+          lead: { id: 'tmp-1', schema: 'users' },
+          members: [
+            { id: 'tmp-1', schema: 'groups' },
+            { id: 'tmp-1', schema: 'users' },
+          ],
+          byRole: { owner: { id: 'tmp-1', schema: 'users' } },
+        },
+      },
+      users: { 'tmp-1': { id: 'tmp-1' } },
+      groups: { 'tmp-1': { id: 'tmp-1' } },
+    };
+
+    const updated = replaceId(entities, user, 'tmp-1', 987, [team]);
+
+    expect(updated.teams[1]).toEqual({
+      id: 1,
+      lead: { id: 987, schema: 'users' },
+      members: [
+        { id: 'tmp-1', schema: 'groups' },
+        { id: 987, schema: 'users' },
+      ],
+      byRole: { owner: { id: 987, schema: 'users' } },
+    });
+    expect(updated.groups).toBe(entities.groups);
+  });
+
+  test('rewrites references in nested object schemas and self references', () => {
+    const person = new schema.Entity('people');
+    person.define({ friends: [person], profile: new schema.Object({ bestFriend: person }) });
+    const entities = {
+      people: {
+        'tmp-1': { id: 'tmp-1', friends: ['tmp-1', 2] },
+        2: { id: 2, profile: { bestFriend: 'tmp-1', bio: 'Hi' } },
+      },
+    };
+
+    expect(replaceId(entities, person, 'tmp-1', 1, [])).toEqual({
+      people: {
+        1: { id: 1, friends: [1, 2] },
+        2: { id: 2, profile: { bestFriend: 1, bio: 'Hi' } },
+      },
+    });
+  });
+
+  test('updates the fields of composite IDs', () => {
+    const member = new schema.Entity('members', {}, { idAttribute: ['orgId', 'userId'] });
+    const team = new schema.Entity('teams', { lead: member });
+    const entities = {
+      members: { 'acme|tmp-1': { orgId: 'acme', userId: 'tmp-1', name: 'Ada' } },
+      teams: { 1: { id: 1, lead: 'acme|tmp-1' } },
+    };
+
+    expect(replaceId(entities, member, 'acme|tmp-1', 'acme|42', [team])).toEqual({
+      members: { 'acme|42': { orgId: 'acme', userId: '42', name: 'Ada' } },
+      teams: { 1: { id: 1, lead: 'acme|42' } },
+    });
+    expect(
+      replaceId({ members: { 'acme|1': { orgId: 'acme', userId: 1 } } }, member, 'acme|1', 'acme|2', []).members,
+    ).toEqual({ 'acme|2': { orgId: 'acme', userId: 2 } });
+  });
+
+  test('merges into the entity already stored under the new ID', () => {
+    const entities = {
+      users: { 'tmp-1': { id: 'tmp-1', name: 'Ada', draft: true }, 987: { id: 987, draft: false } },
+    };
+
+    expect(replaceId(entities, user, 'tmp-1', 987, user).users).toEqual({
+      987: { id: 987, name: 'Ada', draft: false },
+    });
+  });
+
+  test('keeps tables without references and never mutates the store', () => {
+    const entities = {
+      articles: { 1: { id: 1, author: 2 } },
+      comments: { 5: { id: 5, author: 'tmp-1' } },
+      users: { 'tmp-1': INVALIDATED },
+    };
+
+    const updated = replaceId(entities, user, 'tmp-1', 987, [article]);
+
+    expect(updated.articles).toBe(entities.articles);
+    expect(updated.users).toEqual({ 987: INVALIDATED });
+    expect(entities.comments[5].author).toBe('tmp-1');
+    expect(entities.users).toEqual({ 'tmp-1': INVALIDATED });
+  });
+
+  test('replaces IDs in an EntityStore and its optimistic layers', () => {
+    const store = new EntityStore([article], { users: { 'tmp-1': { id: 'tmp-1' } } }).applyOptimistic('create', {
+      entities: { articles: { 1: { id: 1, author: 'tmp-1' } } },
+    });
+
+    const updated = store.replaceId(user, 'tmp-1', 987);
+
+    expect(updated.denormalize(1, article)).toEqual({ id: 1, author: { id: 987 } });
+    expect(updated.commit('create').get(article, 1)).toEqual({ id: 1, author: 987 });
+  });
+});
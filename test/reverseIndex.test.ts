@@ -0,0 +1,151 @@
+import { describe, test, expect } from 'vitest';
+import { getReferencedBy, normalize, normalizeInto, schema } from '../src/index.js';
+
+describe('normalize reverseIndex option', () => {
+  const user = new schema.Entity('users');
+  const comment = new schema.Entity('comments', { author: user });
+  const article = new schema.Entity('articles', { author: user, editors: [user], comments: [comment] });
+
+  test('is not built by default', () => {
+    expect(normalize({ id: 1 }, user)).not.toHaveProperty('referencedBy');
+  });
+
+  test('indexes the entities referencing each entity', () => {
+    const { referencedBy } = normalize(
+      [
+        { id: 1, author: { id: 7 }, editors: [{ id: 7 }, { id: 8 }], comments: [{ id: 3, author: { id: 8 } }] },
+        { id: 2, author: { id: 7 } },
+      ],
+      [article],
+      { reverseIndex: true },
+    );
+
+    expect(referencedBy).toEqual({
+      users: {
+        7: [
+          { schemaKey: 'articles', id: '1', field: 'author' },
+          { schemaKey: 'articles', id: '1', field: 'editors' },
+          { schemaKey: 'articles', id: '2', field: 'author' },
+        ],
+        8: [
+          { schemaKey: 'comments', id: '3', field: 'author' },
+          { schemaKey: 'articles', id: '1', field: 'editors' },
+        ],
+      },
+      comments: { 3: [{ schemaKey: 'articles', id: '1', field: 'comments' }] },
+    });
+  });
+
+  test('indexes polymorphic references', () => {
+    const group = new schema.Entity('groups');
+    const team = new schema.Entity('teams', { members: new schema.Array({ users: user, groups: group }, 'type') });
+
+    const { referencedBy } = normalize(
+      {
+        id: 1,
+        members: [
+          { id: 7, type: 'users' },
+          { id: 7, type: 'groups' },
+        ],
+      },
+      team,
+      { reverseIndex: true },
+    );
+
+    expect(referencedBy).toEqual({
+      users: { 7: [{ schemaKey: 'teams', id: '1', field: 'members' }] },
+      groups: { 7: [{ schemaKey: 'teams', id: '1', field: 'members' }] },
+    });
+  });
+
+  test('keeps the index correct when entities are merged', () => {
+    const first = normalize(
+      [
+        { id: 1, author: { id: 7 }, editors: [{ id: 8 }] },
+        { id: 2, author: { id: 8 } },
+      ],
+      [article],
+      { reverseIndex: true },
+    );
+
+    const { referencedBy } = normalizeInto(first.entities, { id: 1, author: { id: 9 } }, article, {
+      reverseIndex: first.referencedBy,
+    });
+
+    expect(referencedBy!.users).toEqual({
+      8: [
+        { schemaKey: 'articles', id: '2', field: 'author' },
+        { schemaKey: 'articles', id: '1', field: 'editors' },
+      ],
+      9: [{ schemaKey: 'articles', id: '1', field: 'author' }],
+    });
+    expect(first.referencedBy!.users[7]).toEqual([{ schemaKey: 'articles', id: '1', field: 'author' }]);
+  });
+
+  test('removes the references of invalidated entities', () => {
+    const first = normalize({ id: 1, author: { id: 7 } }, article, { reverseIndex: true });
+
+    const { referencedBy } = normalizeInto(first.entities, { id: 1 }, new schema.Invalidate(article), {
+      reverseIndex: first.referencedBy,
+    });
+
+    expect(referencedBy).toEqual({ users: {} });
+  });
+
+  test('indexes the existing store when normalizing into it', () => {
+    const store = { articles: { 1: { id: 1, author: 7 } }, users: { 7: { id: 7 } } };
+
+    const { referencedBy } = normalizeInto(store, { id: 2, author: { id: 7 } }, article, { reverseIndex: true });
+
+    expect(referencedBy!.users[7]).toEqual([
+      { schemaKey: 'articles', id: '1', field: 'author' },
+      { schemaKey: 'articles', id: '2', field: 'author' },
+    ]);
+  });
+
+  test('shares the tables and lists that did not change', () => {
+    const first = normalize({ id: 1, author: { id: 7 }, comments: [{ id: 3 }] }, article, { reverseIndex: true });
+
+    const { referencedBy } = normalizeInto(first.entities, { id: 2, author: { id: 8 } }, article, {
+      reverseIndex: first.referencedBy,
+    });
+
+    expect(referencedBy!.comments).toBe(first.referencedBy!.comments);
+    expect(referencedBy!.users[7]).toBe(first.referencedBy!.users[7]);
+  });
+});
+
+describe('getReferencedBy', () => {
+  const user = new schema.Entity('users');
+  const comment = new schema.Entity('comments', { author: user });
+  const article = new schema.Entity('articles', { author: user, editors: [user], comments: [comment] });
+  const { referencedBy } = normalize(
+    [
+      { id: 1, author: { id: 7 }, editors: [{ id: 7 }], comments: [{ id: 3, author: { id: 7 } }] },
+      { id: 2, author: { id: 8 } },
+    ],
+    [article],
+    { reverseIndex: true },
+  );
+
+  test('returns every entity referencing the entity', () => {
+    expect(getReferencedBy(referencedBy!, user, 7)).toEqual([
+      { schemaKey: 'comments', id: '3', field: 'author' },
+      { schemaKey: 'articles', id: '1', field: 'author' },
+      { schemaKey: 'articles', id: '1', field: 'editors' },
+    ]);
+  });
+
+  test('filters by referencing schema and field', () => {
+    expect(getReferencedBy(referencedBy!, user, 7, { from: article })).toHaveLength(2);
+    expect(getReferencedBy(referencedBy!, user, 7, { field: 'author' })).toHaveLength(2);
+    expect(getReferencedBy(referencedBy!, user, '7', { from: article, field: 'author' })).toEqual([
+      { schemaKey: 'articles', id: '1', field: 'author' },
+    ]);
+  });
+
+  test('returns an empty array for entities nothing references', () => {
+    expect(getReferencedBy(referencedBy!, user, 9)).toEqual([]);
+    expect(getReferencedBy(referencedBy!, article, 1)).toEqual([]);
+  });
+});
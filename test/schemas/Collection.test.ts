@@ -0,0 +1,204 @@
+import { describe, test, expect } from 'vitest';
+import {
+  EntityStore,
+  denormalize,
+  normalize,
+  normalizeInto,
+  schema,
+  InvalidInputError,
+  InvalidSchemaError,
+} from '../../src/index.js';
+
+describe(`${schema.Collection.name} normalization`, () => {
+  const article = new schema.Entity('articles');
+  const feed = new schema.Collection(article, {
+    key: 'feeds',
+    getCollectionKey: (args: { tag: string }) => args.tag,
+  });
+
+  test('normalizes a page into the collections table', () => {
+    expect(normalize({ items: [{ id: 1 }, { id: 2 }], nextCursor: 'c2', total: 5 }, feed.page({ tag: 'js' }))).toEqual({
+      entities: {
+        articles: { 1: { id: 1 }, 2: { id: 2 } },
+        feeds: { js: { args: { tag: 'js' }, items: [1, 2], nextCursor: 'c2', total: 5 } },
+      },
+      result: 'js',
+    });
+  });
+
+  test('appends pages, leaving out items that are already in the collection', () => {
+    const first = normalize({ items: [{ id: 1 }, { id: 2 }], nextCursor: 'c2' }, feed.page({ tag: 'js' }));
+
+    const { entities } = normalizeInto(
+      first.entities,
+      { items: [{ id: 2 }, { id: 3 }, { id: 3 }], prevCursor: 'c1', nextCursor: 'c3', total: 3 },
+      feed.page({ tag: 'js' }),
+    );
+
+    expect(entities.feeds.js).toEqual({ args: { tag: 'js' }, items: [1, 2, 3], nextCursor: 'c3', total: 3 });
+  });
+
+  test('leaves out polymorphic references that are already in the collection, whatever their key order', () => {
+    const video = new schema.Entity('videos');
+    const media = new schema.Collection(new schema.Union({ articles: article, videos: video }, 'type'), {
+      key: 'media',
+      getCollectionKey: (args: { tag: string }) => args.tag,
+    });
+    // e.g. a store persisted by a serializer that sorts keys
+    const store = { media: { js: { args: { tag: 'js' }, items: [{ schema: 'articles', id: 2 }] } } };
+
+    const { entities } = normalizeInto(
+      store,
+      {
+        items: [
+          { id: 2, type: 'articles' },
+          { id: 2, type: 'videos' },
+        ],
+      },
+      media.page({ tag: 'js' }),
+    );
+
+    expect(entities.media.js.items).toEqual([
+      { schema: 'articles', id: 2 },
+      { id: 2, schema: 'videos' },
+    ]);
+  });
+
+  test('prepends pages', () => {
+    const first = normalize(
+      { items: [{ id: 2 }, { id: 3 }], prevCursor: 'c1', nextCursor: 'c3' },
+      feed.page({ tag: 'js' }),
+    );
+
+    const { entities } = normalizeInto(
+      first.entities,
+      { items: [{ id: 1 }, { id: 2 }], prevCursor: null, nextCursor: 'c2' },
+      feed.page({ tag: 'js' }, { mode: 'prepend' }),
+    );
+
+    expect(entities.feeds.js).toEqual({
+      args: { tag: 'js' },
+      items: [1, 2, 3],
+      prevCursor: null,
+      nextCursor: 'c3',
+      mode: 'prepend',
+    });
+  });
+
+  test('replaces the collection', () => {
+    const first = normalize({ items: [{ id: 1 }, { id: 2 }], nextCursor: 'c2' }, feed.page({ tag: 'js' }));
+
+    const { entities } = normalizeInto(
+      first.entities,
+      { items: [{ id: 3 }] },
+      feed.page({ tag: 'js' }, { mode: 'replace' }),
+    );
+
+    expect(entities.feeds.js).toEqual({ args: { tag: 'js' }, items: [3], mode: 'replace' });
+  });
+
+  test('combines pages ingested into an EntityStore according to their mode', () => {
+    const store = new EntityStore([feed]).ingest(
+      normalize({ items: [{ id: 1 }, { id: 2 }], prevCursor: 'c1', nextCursor: 'c2' }, feed.page({ tag: 'js' })),
+    );
+
+    const prepended = store.ingest(
+      normalize({ items: [{ id: 0 }], prevCursor: null }, feed.page({ tag: 'js' }, { mode: 'prepend' })),
+    );
+    expect(prepended.entities.feeds.js).toEqual({
+      args: { tag: 'js' },
+      items: [0, 1, 2],
+      prevCursor: null,
+      nextCursor: 'c2',
+      mode: 'prepend',
+    });
+
+    const appended = prepended.ingest(normalize({ items: [{ id: 3 }], nextCursor: 'c3' }, feed.page({ tag: 'js' })));
+    expect(appended.entities.feeds.js).toEqual({
+      args: { tag: 'js' },
+      items: [0, 1, 2, 3],
+      prevCursor: null,
+      nextCursor: 'c3',
+    });
+
+    const replaced = appended.ingest(normalize({ items: [{ id: 9 }] }, feed.page({ tag: 'js' }, { mode: 'replace' })));
+    expect(replaced.entities.feeds.js).toEqual({ args: { tag: 'js' }, items: [9], mode: 'replace' });
+  });
+
+  test('keeps a separate collection for each collection key', () => {
+    const first = normalize({ items: [{ id: 1 }] }, feed.page({ tag: 'js' }));
+
+    const { entities } = normalizeInto(first.entities, { items: [{ id: 1 }, { id: 2 }] }, feed.page({ tag: 'css' }));
+
+    expect(entities.feeds).toEqual({
+      js: { args: { tag: 'js' }, items: [1] },
+      css: { args: { tag: 'css' }, items: [1, 2] },
+    });
+  });
+
+  test('normalizes collections nested in other schemas', () => {
+    const { entities, result } = normalize({ feed: { items: [{ id: 1 }] } }, { feed: feed.page({ tag: 'js' }) });
+
+    expect(result).toEqual({ feed: 'js' });
+    expect(entities.feeds.js.items).toEqual([1]);
+  });
+
+  test('throws without query args', () => {
+    expect(() => normalize({ items: [] }, feed)).toThrow(InvalidSchemaError);
+    expect(() => normalize({ items: [] }, feed)).toThrow(
+      'Expected query args for collection "feeds", normalize pages with `page(args)`.',
+    );
+  });
+
+  test('throws for pages without items', () => {
+    // @ts-expect-error - testing runtime error
+    expect(() => normalize({ data: [] }, feed.page({ tag: 'js' }))).toThrow(InvalidInputError);
+    // @ts-expect-error - testing runtime error
+    expect(() => normalize({ items: null }, feed.page({ tag: 'js' }))).toThrow(
+      'Expected an "items" array in the page of collection "feeds", but found null. (at $)',
+    );
+  });
+
+  test('throws without getCollectionKey', () => {
+    // @ts-expect-error - testing runtime error
+    expect(() => new schema.Collection(article, { key: 'feeds' })).toThrow(InvalidSchemaError);
+  });
+});
+
+describe(`${schema.Collection.name} denormalization`, () => {
+  const user = new schema.Entity('users');
+  const article = new schema.Entity('articles', { author: user });
+  const feed = new schema.Collection(article, {
+    key: 'feeds',
+    getCollectionKey: (args: { tag: string }) => args.tag,
+  });
+
+  test('denormalizes the pages into a single ordered list', () => {
+    const first = normalize({ items: [{ id: 1, author: { id: 7 } }], nextCursor: 'c2' }, feed.page({ tag: 'js' }));
+    const { entities, result } = normalizeInto(
+      first.entities,
+      { items: [{ id: 2, author: { id: 7 } }], nextCursor: null },
+      feed.page({ tag: 'js' }),
+    );
+
+    expect(denormalize(result, feed, entities)).toEqual({
+      args: { tag: 'js' },
+      items: [
+        { id: 1, author: { id: 7 } },
+        { id: 2, author: { id: 7 } },
+      ],
+      nextCursor: null,
+    });
+  });
+
+  test('drops invalidated items', () => {
+    const first = normalize({ items: [{ id: 1 }, { id: 2 }] }, feed.page({ tag: 'js' }));
+    const { entities } = normalizeInto(first.entities, { id: 1 }, new schema.Invalidate(article));
+
+    expect(denormalize('js', feed, entities)!.items).toEqual([{ id: 2 }]);
+  });
+
+  test('returns undefined for unknown collections', () => {
+    expect(denormalize('css', feed, {})).toBeUndefined();
+  });
+});
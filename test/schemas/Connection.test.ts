@@ -0,0 +1,158 @@
+import { describe, test, expect } from 'vitest';
+import { denormalize, normalize, normalizeInto, schema, InvalidInputError } from '../../src/index.js';
+
+describe(`${schema.Connection.name} normalization`, () => {
+  const user = new schema.Entity('users');
+  const friends = new schema.Connection(user);
+
+  test('normalizes the nodes of the edges, keeping cursors and page info', () => {
+    expect(
+      normalize(
+        {
+          edges: [
+            { cursor: 'c1', node: { id: '1', name: 'Ada' } },
+            { cursor: 'c2', node: { id: '2', name: 'Grace' } },
+          ],
+          pageInfo: { hasNextPage: true, endCursor: 'c2' },
+          totalCount: 5,
+        },
+        friends,
+      ),
+    ).toEqual({
+      entities: {
+        users: { 1: { id: '1', name: 'Ada' }, 2: { id: '2', name: 'Grace' } },
+      },
+      result: {
+        edges: [
+          { cursor: 'c1', node: '1' },
+          { cursor: 'c2', node: '2' },
+        ],
+        pageInfo: { hasNextPage: true, endCursor: 'c2' },
+        totalCount: 5,
+      },
+    });
+  });
+
+  test('normalizes connections nested in entities', () => {
+    const person = new schema.Entity('people');
+    person.define({ friends: new schema.Connection(person) });
+
+    const { entities } = normalize(
+      { id: '1', friends: { edges: [{ cursor: 'c1', node: { id: '2' } }], pageInfo: { hasNextPage: false } } },
+      person,
+    );
+
+    expect(entities.people).toEqual({
+      1: { id: '1', friends: { edges: [{ cursor: 'c1', node: '2' }], pageInfo: { hasNextPage: false } } },
+      2: { id: '2' },
+    });
+  });
+
+  test('normalizes polymorphic nodes', () => {
+    const group = new schema.Entity('groups');
+    const members = new schema.Connection(new schema.Union({ users: user, groups: group }, 'type'));
+
+    const { result } = normalize({ edges: [{ node: { id: '1', type: 'groups' } }] }, members);
+
+    expect(result.edges).toEqual([{ node: { id: '1', schema: 'groups' } }]);
+  });
+
+  test('drops edges whose node is skipped', () => {
+    const draft = new schema.Entity('drafts', {}, { missingIdStrategy: 'skip' });
+
+    const { result } = normalize(
+      { edges: [{ node: { id: '1' } }, { node: { title: 'Untitled' } }] },
+      new schema.Connection(draft),
+    );
+
+    expect(result.edges).toEqual([{ node: '1' }]);
+  });
+
+  test('throws for invalid connections and edges', () => {
+    // @ts-expect-error - testing runtime error
+    expect(() => normalize({ nodes: [] }, friends)).toThrow(InvalidInputError);
+    // @ts-expect-error - testing runtime error
+    expect(() => normalize({ edges: [null] }, friends)).toThrow(
+      'Expected an object for the edge, but received null. (at $.edges[0])',
+    );
+  });
+});
+
+describe(`${schema.Connection.name} denormalization`, () => {
+  const user = new schema.Entity('users');
+  const friends = new schema.Connection(user);
+  const entities = { users: { 1: { id: '1', name: 'Ada' }, 2: { id: '2', name: 'Grace' } } };
+
+  test('denormalizes the nodes of the edges', () => {
+    expect(
+      denormalize({ edges: [{ cursor: 'c1', node: '1' }], pageInfo: { hasNextPage: false } }, friends, entities),
+    ).toEqual({ edges: [{ cursor: 'c1', node: { id: '1', name: 'Ada' } }], pageInfo: { hasNextPage: false } });
+  });
+
+  test('drops edges whose node was invalidated', () => {
+    const result = normalize({ edges: [{ node: { id: '1' } }, { node: { id: '2' } }] }, friends).result;
+    const { entities: updated } = normalizeInto(entities, { id: '1' }, new schema.Invalidate(user));
+
+    expect(denormalize(result, friends, updated)!.edges).toEqual([{ node: { id: '2', name: 'Grace' } }]);
+  });
+});
+
+describe(`${schema.Connection.name} mergePages`, () => {
+  const user = new schema.Entity('users');
+  const friends = new schema.Connection(user);
+  const first = normalize(
+    {
+      edges: [
+        { cursor: 'c2', node: { id: '2' } },
+        { cursor: 'c3', node: { id: '3' } },
+      ],
+      pageInfo: { hasPreviousPage: true, hasNextPage: true, startCursor: 'c2', endCursor: 'c3' },
+    },
+    friends,
+  ).result;
+
+  test('appends a page fetched forward', () => {
+    const next = normalize(
+      {
+        edges: [
+          { cursor: 'c3', node: { id: '3' } },
+          { cursor: 'c4', node: { id: '4' } },
+        ],
+        pageInfo: { hasPreviousPage: true, hasNextPage: false, startCursor: 'c3', endCursor: 'c4' },
+      },
+      friends,
+    ).result;
+
+    expect(friends.mergePages(first, next)).toEqual({
+      edges: [
+        { cursor: 'c2', node: '2' },
+        { cursor: 'c3', node: '3' },
+        { cursor: 'c4', node: '4' },
+      ],
+      pageInfo: { hasPreviousPage: true, hasNextPage: false, startCursor: 'c2', endCursor: 'c4' },
+    });
+  });
+
+  test('prepends a page fetched backward', () => {
+    const previous = normalize(
+      {
+        edges: [{ cursor: 'c1', node: { id: '1' } }],
+        pageInfo: { hasPreviousPage: false, hasNextPage: true, startCursor: 'c1', endCursor: 'c1' },
+      },
+      friends,
+    ).result;
+
+    expect(friends.mergePages(first, previous, 'backward')).toEqual({
+      edges: [
+        { cursor: 'c1', node: '1' },
+        { cursor: 'c2', node: '2' },
+        { cursor: 'c3', node: '3' },
+      ],
+      pageInfo: { hasPreviousPage: false, hasNextPage: true, startCursor: 'c1', endCursor: 'c3' },
+    });
+  });
+
+  test('returns the page when there are no previous pages', () => {
+    expect(friends.mergePages(undefined, first)).toBe(first);
+  });
+});
@@ -1,5 +1,17 @@
 import { describe, test, expect } from 'vitest';
-import { denormalize, normalize, schema } from '../../src/index.js';
+import {
+  EntitySchema,
+  InvalidInputError,
+  InvalidSchemaError,
+  MissingIdError,
+  composeId,
+  denormalize,
+  normalize,
+  normalizeInto,
+  schema,
+  ValidationError,
+} from '../../src/index.js';
+import type { StandardSchemaV1 } from '../../src/index.js';
 
 const values = <T>(obj: Record<string, T>): T[] => Object.keys(obj).map((key) => obj[key]);
 
@@ -93,6 +105,89 @@ describe(`${schema.Entity.name} normalization`, () => {
         },
       });
     });
+
+    test('composes an ID from an array of fields', () => {
+      const member = new schema.Entity('members', {}, { idAttribute: ['orgId', 'userId'] });
+
+      expect(normalize([{ orgId: 'acme', userId: 42, role: 'admin' }], [member])).toEqual({
+        entities: {
+          members: {
+            'acme|42': { orgId: 'acme', userId: 42, role: 'admin' },
+          },
+        },
+        result: ['acme|42'],
+      });
+    });
+
+    test('escapes separators in composite ID parts', () => {
+      const member = new schema.Entity('members', {}, { idAttribute: ['orgId', 'userId'] });
+
+      const { result } = normalize(
+        [
+          { orgId: 'a|b', userId: 'c' },
+          { orgId: 'a', userId: 'b|c' },
+          { orgId: 'a\\', userId: 'b' },
+        ],
+        [member],
+      );
+
+      expect(result).toEqual(['a\\|b|c', 'a|b\\|c', 'a\\\\|b']);
+      expect(new Set(result).size).toBe(3);
+    });
+
+    test('treats a composite ID with a missing field as missing', () => {
+      const member = new schema.Entity('members', {}, { idAttribute: ['orgId', 'userId'], missingIdStrategy: 'throw' });
+
+      expect(() => normalize({ orgId: 'acme' }, member)).toThrow(MissingIdError);
+    });
+
+    test('must have at least one field in an array idAttribute', () => {
+      expect(() => new schema.Entity('members', {}, { idAttribute: [] })).toThrow(InvalidSchemaError);
+    });
+
+    test('denormalizes entities with composite IDs', () => {
+      const member = new schema.Entity('members', {}, { idAttribute: ['orgId', 'userId'] });
+      const { result, entities } = normalize([{ orgId: 'a|b', userId: 1 }], [member]);
+
+      expect(denormalize(result, [member], entities)).toEqual([{ orgId: 'a|b', userId: 1 }]);
+    });
+  });
+
+  describe('parseId', () => {
+    test('splits a composite ID into its fields', () => {
+      const member = new schema.Entity('members', {}, { idAttribute: ['orgId', 'userId'] });
+
+      expect(member.parseId('acme|42')).toEqual({ orgId: 'acme', userId: '42' });
+      expect(member.parseId(composeId(['a|b', 'c\\']))).toEqual({ orgId: 'a|b', userId: 'c\\' });
+    });
+
+    test('maps a single idAttribute to the ID', () => {
+      expect(new schema.Entity('users').parseId(5)).toEqual({ id: '5' });
+    });
+
+    test('throws for IDs with the wrong number of parts', () => {
+      const member = new schema.Entity('members', {}, { idAttribute: ['orgId', 'userId'] });
+
+      expect(() => member.parseId('acme')).toThrow(
+        'Expected an ID with 2 parts for entity "members", but found "acme".',
+      );
+    });
+
+    test('throws for idAttribute functions', () => {
+      const user = new schema.Entity('users', {}, { idAttribute: (value) => (value as { uuid: string }).uuid });
+
+      expect(() => user.parseId('x')).toThrow(InvalidSchemaError);
+    });
+
+    test('can be used in a fallbackStrategy', () => {
+      const member: EntitySchema<'members'> = new schema.Entity<'members'>(
+        'members',
+        {},
+        { idAttribute: ['orgId', 'userId'], fallbackStrategy: (id) => ({ ...member.parseId(id), role: 'unknown' }) },
+      );
+
+      expect(denormalize('acme|42', member, {})).toEqual({ orgId: 'acme', userId: '42', role: 'unknown' });
+    });
   });
 
   describe('mergeStrategy', () => {
@@ -253,6 +348,311 @@ describe(`${schema.Entity.name} normalization`, () => {
       });
     });
   });
+
+  describe('missingIdStrategy', () => {
+    test('keeps entities without an ID under "undefined" by default, without referencing them', () => {
+      const user = new schema.Entity('users');
+
+      expect(normalize([{ id: 1 }, { name: 'Ada' }], [user])).toEqual({
+        entities: { users: { 1: { id: 1 }, undefined: { name: 'Ada' } } },
+        result: [1, undefined],
+      });
+    });
+
+    test("throws a MissingIdError with 'throw'", () => {
+      const user = new schema.Entity('users', {}, { missingIdStrategy: 'throw' });
+
+      expect(() => normalize({ name: 'Ada' }, user)).toThrow(MissingIdError);
+      expect(() => normalize({ users: [{ id: 1 }, { name: 'Ada' }] }, { users: [user] })).toThrow(
+        'Expected a string or number ID for entity "users", but found undefined. (at $.users[1])',
+      );
+    });
+
+    test.each([null, NaN, { value: 1 }])('treats %s as a missing ID', (id) => {
+      const user = new schema.Entity('users', {}, { missingIdStrategy: 'throw' });
+
+      expect(() => normalize({ id }, user)).toThrow(MissingIdError);
+    });
+
+    test('skips entities without an ID', () => {
+      const user = new schema.Entity('users', {}, { missingIdStrategy: 'skip' });
+      const article = new schema.Entity('articles', {
+        author: user,
+        readers: [user],
+        editors: new schema.Array(user),
+      });
+      const input = { id: 1, author: { name: 'Ada' }, readers: [{ id: 2 }, { name: 'Grace' }], editors: [{}] };
+
+      expect(normalize(input, article)).toEqual({
+        entities: {
+          articles: { 1: { id: 1, author: undefined, readers: [2], editors: [] } },
+          users: { 2: { id: 2 } },
+        },
+        result: 1,
+      });
+    });
+
+    test('keeps undefined items of shorthand arrays apart from skipped entities', () => {
+      const user = new schema.Entity('users', {}, { missingIdStrategy: 'skip' });
+
+      expect(normalize([{ id: 2 }, { name: 'Grace' }, undefined] as any, [user]).result).toEqual([2, undefined]);
+    });
+
+    test('generates an ID for entities without one', () => {
+      let nextId = 0;
+      const user = new schema.Entity('users', {}, { missingIdStrategy: () => `temp-${++nextId}` });
+
+      expect(normalize([{ name: 'Ada' }, { name: 'Grace' }, { id: 'x' }], [user])).toEqual({
+        entities: {
+          users: {
+            'temp-1': { name: 'Ada' },
+            'temp-2': { name: 'Grace' },
+            x: { id: 'x' },
+          },
+        },
+        result: ['temp-1', 'temp-2', 'x'],
+      });
+    });
+
+    test('throws a MissingIdError for invalid generated IDs', () => {
+      const user = new schema.Entity('users', {}, { missingIdStrategy: () => NaN });
+
+      expect(() => normalize({ name: 'Ada' }, user)).toThrow(
+        'Expected the missingIdStrategy of entity "users" to generate a string or number ID, but found NaN.',
+      );
+    });
+
+    test('passes the entity, parent and key to the ID generator', () => {
+      const comment = new schema.Entity(
+        'comments',
+        {},
+        { missingIdStrategy: (value, parent, key) => `${(parent as { id: string }).id}-${key}` },
+      );
+      const post = new schema.Entity('posts', { pinned: comment });
+
+      const { entities } = normalize({ id: 'p1', pinned: { text: 'First!' } }, post);
+
+      expect(entities.comments).toEqual({ 'p1-pinned': { text: 'First!' } });
+    });
+
+    test('applies to invalidated entities', () => {
+      const user = new schema.Entity('users', {}, { missingIdStrategy: 'skip' });
+
+      expect(normalize([{ id: 1 }, {}], [new schema.Invalidate(user)]).result).toEqual([1]);
+      expect(normalize([{ id: 1 }, {}], new schema.Array(new schema.Invalidate(user))).result).toEqual([1]);
+      expect(() =>
+        normalize({}, new schema.Invalidate(new schema.Entity('users', {}, { missingIdStrategy: 'throw' }))),
+      ).toThrow(MissingIdError);
+    });
+  });
+
+  describe('validator', () => {
+    // A minimal Standard Schema validator requiring a string email, and trimming it
+    const emailValidator: StandardSchemaV1<unknown, { id: number; email: string }> = {
+      '~standard': {
+        version: 1,
+        vendor: 'test',
+        validate: (value) => {
+          const { email } = value as { email?: unknown };
+          return typeof email === 'string'
+            ? { value: { ...(value as { id: number }), email: email.trim() } }
+            : { issues: [{ message: 'Expected a string', path: [{ key: 'email' }] }] };
+        },
+      },
+    };
+
+    test('replaces the entity with the validated output', () => {
+      const user = new schema.Entity('users', {}, { validator: emailValidator });
+
+      expect(normalize({ id: 1, email: ' ada@example.com ' }, user).entities).toEqual({
+        users: { 1: { id: 1, email: 'ada@example.com' } },
+      });
+    });
+
+    test('throws a ValidationError with the issues', () => {
+      const user = new schema.Entity('users', {}, { validator: emailValidator });
+      const article = new schema.Entity('articles', { author: user });
+
+      expect(() => normalize({ id: 10, author: { id: 1 } }, article)).toThrow(
+        'Invalid entity "users": email: Expected a string. (at $.author)',
+      );
+      try {
+        normalize({ id: 10, author: { id: 1 } }, article);
+      } catch (error) {
+        expect(error).toBeInstanceOf(ValidationError);
+        expect(error).toBeInstanceOf(InvalidInputError);
+        expect((error as ValidationError).issues).toEqual([{ message: 'Expected a string', path: [{ key: 'email' }] }]);
+      }
+    });
+
+    test('works with onError', () => {
+      const user = new schema.Entity('users', {}, { validator: emailValidator });
+
+      // Cast justified: the second user is missing its email on purpose
+      const input = [{ id: 1, email: 'ada@example.com' }, { id: 2 }] as Array<{ id: number; email: string }>;
+      const { result, errors } = normalize(input, [user], { onError: 'skip' });
+
+      expect(result).toEqual([1]);
+      expect(errors![0].path).toBe('$[1]');
+    });
+
+    test('normalizes circular input with validators that return a copy', () => {
+      const copyValidator: StandardSchemaV1<unknown, Record<string, unknown>> = {
+        '~standard': { version: 1, vendor: 'test', validate: (value) => ({ value: { ...(value as object) } }) },
+      };
+      const user = new schema.Entity('users', {}, { validator: copyValidator });
+      user.define({ friends: [user] });
+      const ada: Record<string, unknown> = { id: 1 };
+      const grace = { id: 2, friends: [ada] };
+      ada.friends = [grace];
+
+      expect(normalize(ada, user).entities).toEqual({
+        users: { 1: { id: 1, friends: [2] }, 2: { id: 2, friends: [1] } },
+      });
+    });
+
+    test('throws for asynchronous validators', () => {
+      const user = new schema.Entity(
+        'users',
+        {},
+        {
+          validator: {
+            '~standard': { version: 1, vendor: 'test', validate: async (value) => ({ value: value as object }) },
+          },
+        },
+      );
+
+      expect(() => normalize({ id: 1 }, user)).toThrow(InvalidSchemaError);
+    });
+
+    test('is not run when invalidating entities', () => {
+      const rejectAll: StandardSchemaV1<unknown, Record<string, unknown>> = {
+        '~standard': { version: 1, vendor: 'test', validate: () => ({ issues: [{ message: 'Rejected' }] }) },
+      };
+      const user = new schema.Entity('users', {}, { validator: rejectAll });
+
+      expect(normalize({ id: 1 }, new schema.Invalidate(user)).result).toBe(1);
+    });
+  });
+
+  describe('inverse', () => {
+    const createSchemas = () => {
+      const user = new schema.Entity('users');
+      const article = new schema.Entity('articles', { author: user, editors: [user] });
+      user.defineInverse({ articles: [article, 'author'], edited: [article, 'editors'] });
+      return { user, article };
+    };
+
+    test('populates back-reference fields', () => {
+      const { article } = createSchemas();
+
+      const { entities } = normalize(
+        [
+          { id: 1, author: { id: 7 }, editors: [{ id: 7 }, { id: 8 }] },
+          { id: 2, author: { id: 7 } },
+        ],
+        [article],
+      );
+
+      expect(entities.users).toEqual({
+        7: { id: 7, articles: [1, 2], edited: [1] },
+        8: { id: 8, articles: [], edited: [1] },
+      });
+    });
+
+    test('accepts an inverse option when the source schema already exists', () => {
+      const article = new schema.Entity('articles', { authorId: new schema.Entity('users') });
+      const user = new schema.Entity('users', {}, { inverse: { articles: [article, 'authorId'] } });
+
+      const { entities } = normalize(
+        { users: [{ id: 7 }], articles: [{ id: 1, authorId: 7 }] },
+        {
+          users: [user],
+          articles: [article],
+        },
+      );
+
+      expect(entities.users[7]).toEqual({ id: 7, articles: [1] });
+    });
+
+    test('merges back-references across normalize calls', () => {
+      const { user, article } = createSchemas();
+      const first = normalize([{ id: 1, author: { id: 7 } }], [article]);
+
+      const second = normalizeInto(first.entities, [{ id: 2, author: 7 }], [article]);
+      const third = normalizeInto(second.entities, { id: 7, name: 'Ada' }, user);
+
+      expect(third.entities.users[7]).toEqual({ id: 7, name: 'Ada', articles: [1, 2], edited: [] });
+      expect(first.entities.users[7]).toEqual({ id: 7, articles: [1], edited: [] });
+    });
+
+    test('applies inverse fields defined after a schema was first normalized', () => {
+      const user = new schema.Entity('users');
+      const article = new schema.Entity('articles', { author: user });
+      const articles = [article] as const;
+      normalize([{ id: 1, author: { id: 7 } }], articles);
+
+      user.defineInverse({ articles: [article, 'author'] });
+
+      expect(normalize([{ id: 1, author: { id: 7 } }], articles).entities.users[7]).toEqual({ id: 7, articles: [1] });
+    });
+
+    test('applies inverse fields defined after schemas holding the source were first normalized', () => {
+      const user = new schema.Entity('users');
+      const article = new schema.Entity('articles', { author: user });
+      const feed = new schema.Collection(article, { key: 'feeds', getCollectionKey: () => 'all' });
+      normalize({ items: [{ id: 1, author: { id: 7 } }] }, feed.page({}));
+
+      user.defineInverse({ articles: [article, 'author'] });
+
+      expect(normalize({ items: [{ id: 1, author: { id: 7 } }] }, feed.page({})).entities.users[7]).toEqual({
+        id: 7,
+        articles: [1],
+      });
+    });
+
+    test('fills the field of entities added after the entities referencing them', () => {
+      const { user, article } = createSchemas();
+      const first = normalize([{ id: 1, author: 7, editors: [7] }], [article]);
+
+      const { entities } = normalizeInto(first.entities, { id: 7, name: 'Ada' }, user);
+
+      expect(first.entities).not.toHaveProperty('users');
+      expect(entities.users[7]).toEqual({ id: 7, name: 'Ada', articles: [1], edited: [1] });
+    });
+
+    test('removes references that moved to another entity', () => {
+      const { article } = createSchemas();
+      const first = normalize([{ id: 1, author: { id: 7 }, editors: [{ id: 7 }] }], [article]);
+
+      const { entities } = normalizeInto(first.entities, { id: 1, author: { id: 8 }, editors: [] }, article);
+
+      expect(entities.users).toEqual({
+        7: { id: 7, articles: [], edited: [] },
+        8: { id: 8, articles: [1], edited: [] },
+      });
+    });
+
+    test('denormalizes back-reference fields', () => {
+      const { user, article } = createSchemas();
+      const { entities } = normalize([{ id: 1, author: { id: 7, name: 'Ada' } }], [article]);
+
+      const denormalized = denormalize(7, user, entities) as { articles: Array<{ id: number; author: unknown }> };
+
+      expect(denormalized.articles.map((item) => item.id)).toEqual([1]);
+      expect(denormalized.articles[0].author).toBe(denormalized);
+    });
+
+    test('throws for invalid inverse definitions', () => {
+      const user = new schema.Entity('users');
+      const article = new schema.Entity('articles');
+
+      // @ts-expect-error - the source must be an entity schema
+      expect(() => user.defineInverse({ articles: [[article], 'author'] })).toThrow(InvalidSchemaError);
+      user.defineInverse({ articles: [article, 'author'] });
+      expect(() => normalize({ id: 7 }, user)).toThrow(InvalidSchemaError);
+    });
+  });
 });
 
 describe(`${schema.Entity.name} denormalization`, () => {
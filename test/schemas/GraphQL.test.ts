@@ -0,0 +1,183 @@
+import { describe, test, expect } from 'vitest';
+import { DenormalizeCache, createLazyUnvisit, denormalize, normalize, schema } from '../../src/index.js';
+
+describe(`${schema.GraphQL.name} normalization`, () => {
+  const user = new schema.Entity('users');
+  const post = new schema.Entity('posts');
+  const graphql = new schema.GraphQL({ User: user, Post: post });
+
+  test('normalizes nested entities by __typename without definitions', () => {
+    const response = {
+      data: {
+        viewer: {
+          __typename: 'User',
+          id: '1',
+          name: 'Ada',
+          posts: {
+            __typename: 'PostConnection',
+            totalCount: 1,
+            nodes: [{ __typename: 'Post', id: '7', author: { __typename: 'User', id: '1' } }],
+          },
+        },
+      },
+    };
+
+    expect(normalize(response, graphql)).toEqual({
+      entities: {
+        users: {
+          1: {
+            __typename: 'User',
+            id: '1',
+            name: 'Ada',
+            posts: { __typename: 'PostConnection', totalCount: 1, nodes: [{ id: '7', schema: 'Post' }] },
+          },
+        },
+        posts: {
+          7: { __typename: 'Post', id: '7', author: { id: '1', schema: 'User' } },
+        },
+      },
+      result: { data: { viewer: { id: '1', schema: 'User' } } },
+    });
+  });
+
+  test('keeps objects with an unknown typename or without an id', () => {
+    const response = {
+      search: [
+        { __typename: 'Comment', id: '3', author: { __typename: 'User', id: '1' } },
+        { __typename: 'Post', title: 'Draft' },
+      ],
+    };
+
+    expect(normalize(response, graphql)).toEqual({
+      entities: { users: { 1: { __typename: 'User', id: '1' } } },
+      result: {
+        search: [
+          { __typename: 'Comment', id: '3', author: { id: '1', schema: 'User' } },
+          { __typename: 'Post', title: 'Draft' },
+        ],
+      },
+    });
+  });
+
+  test('merges entities that appear more than once', () => {
+    const { entities } = normalize(
+      [
+        { __typename: 'User', id: '1', name: 'Ada' },
+        { __typename: 'User', id: '1', email: 'ada@example.com' },
+      ],
+      graphql,
+    );
+
+    expect(entities).toEqual({
+      users: { 1: { __typename: 'User', id: '1', name: 'Ada', email: 'ada@example.com' } },
+    });
+  });
+
+  test('uses the entity definition for declared fields', () => {
+    const tag = new schema.Entity('tags', {}, { idAttribute: 'slug' });
+    const article = new schema.Entity('articles', { tags: [tag] });
+    const registry = new schema.GraphQL({ Article: article });
+
+    expect(normalize({ __typename: 'Article', id: '1', tags: [{ slug: 'news' }] }, registry)).toEqual({
+      entities: {
+        articles: { 1: { __typename: 'Article', id: '1', tags: ['news'] } },
+        tags: { news: { slug: 'news' } },
+      },
+      result: { id: '1', schema: 'Article' },
+    });
+  });
+
+  test('can be used as a field schema', () => {
+    const feed = new schema.Entity('feeds', { items: graphql });
+
+    expect(normalize({ id: 'home', items: [{ __typename: 'Post', id: '7' }] }, feed)).toEqual({
+      entities: {
+        feeds: { home: { id: 'home', items: [{ id: '7', schema: 'Post' }] } },
+        posts: { 7: { __typename: 'Post', id: '7' } },
+      },
+      result: 'home',
+    });
+  });
+});
+
+describe(`${schema.GraphQL.name} denormalization`, () => {
+  const user = new schema.Entity('users');
+  const post = new schema.Entity('posts');
+  const graphql = new schema.GraphQL({ User: user, Post: post });
+
+  const entities = {
+    users: {
+      1: {
+        __typename: 'User',
+        id: '1',
+        name: 'Ada',
+        posts: { __typename: 'PostConnection', nodes: [{ id: '7', schema: 'Post' }] },
+      },
+    },
+    posts: {
+      7: { __typename: 'Post', id: '7', author: { id: '1', schema: 'User' } },
+    },
+  };
+
+  type User = { name: string; posts: { nodes: Post[] } };
+  type Post = { id: string; author: User };
+
+  test('denormalizes references found anywhere in entities', () => {
+    const result = denormalize({ data: { viewer: { id: '1', schema: 'User' } } }, graphql, entities) as {
+      data: { viewer: User };
+    };
+
+    const viewer = result.data.viewer;
+    expect(viewer.name).toBe('Ada');
+    expect(viewer.posts.nodes[0].id).toBe('7');
+    expect(viewer.posts.nodes[0].author).toBe(viewer);
+  });
+
+  test('does not mutate the entities store', () => {
+    denormalize({ id: '1', schema: 'User' }, graphql, entities);
+
+    expect(entities.users[1].posts.nodes).toEqual([{ id: '7', schema: 'Post' }]);
+    expect(entities.posts[7].author).toEqual({ id: '1', schema: 'User' });
+  });
+
+  test('does not mutate entities shared through a cache', () => {
+    const cache = new DenormalizeCache();
+
+    const viewer = denormalize({ id: '1', schema: 'User' }, graphql, entities, { cache }) as User;
+    const cached = denormalize('1', user, entities, { cache }) as (typeof entities.users)[1];
+
+    expect(viewer.posts.nodes[0].author).toBe(viewer);
+    expect(cached.posts.nodes).toEqual([{ id: '7', schema: 'Post' }]);
+    const again = denormalize({ id: '1', schema: 'User' }, graphql, entities, { cache });
+    expect(again).toEqual(viewer);
+    // GraphQL results are resolved again on every call
+    expect(again).not.toBe(viewer);
+  });
+
+  test('returns undefined for missing entities', () => {
+    expect(denormalize([{ id: '2', schema: 'User' }], graphql, entities)).toEqual([undefined]);
+  });
+
+  test('round-trips normalized data', () => {
+    const response = {
+      viewer: {
+        __typename: 'User',
+        id: '1',
+        name: 'Ada',
+        friends: [{ __typename: 'User', id: '2', name: 'Grace', friends: [] }],
+      },
+    };
+    const { result, entities: normalized } = normalize(response, graphql);
+
+    expect(denormalize(result, graphql, normalized)).toEqual(response);
+  });
+
+  test('works with lazy denormalization', () => {
+    const result = denormalize({ id: '7', schema: 'Post' }, graphql, entities, {
+      createUnvisit: createLazyUnvisit,
+    }) as Post;
+
+    expect(result.author.name).toBe('Ada');
+    expect(result.author.posts.nodes[0]).toBe(result);
+  });
+});
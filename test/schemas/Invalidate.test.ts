@@ -0,0 +1,135 @@
+import { describe, test, expect } from 'vitest';
+import {
+  INVALIDATED,
+  createLazyUnvisit,
+  denormalize,
+  isInvalidated,
+  normalize,
+  normalizeInto,
+  schema,
+} from '../../src/index.js';
+
+describe(`${schema.Invalidate.name} normalization`, () => {
+  const article = new schema.Entity('articles');
+
+  test('throws if not given an entity schema', () => {
+    // @ts-expect-error - testing runtime error
+    expect(() => new schema.Invalidate([article])).toThrow('Expected an Entity schema for Invalidate.');
+  });
+
+  test('records a tombstone for the entity', () => {
+    expect(normalize({ id: 5 }, new schema.Invalidate(article))).toEqual({
+      entities: { articles: { 5: INVALIDATED } },
+      result: 5,
+    });
+  });
+
+  test('replaces an existing entity without mutating the store', () => {
+    const store = { articles: { 5: { id: 5, title: 'Hello' }, 6: { id: 6, title: 'World' } } };
+
+    const { entities } = normalizeInto(store, { id: 5 }, new schema.Invalidate(article));
+
+    expect(isInvalidated(entities.articles[5])).toBe(true);
+    expect(entities.articles[6]).toBe(store.articles[6]);
+    expect(store.articles[5]).toEqual({ id: 5, title: 'Hello' });
+  });
+
+  test('is replaced by an entity that is added again', () => {
+    const store = { articles: { 5: INVALIDATED } };
+
+    const { entities } = normalizeInto(store, { id: 5, title: 'Restored' }, article);
+
+    expect(entities.articles[5]).toEqual({ id: 5, title: 'Restored' });
+  });
+
+  test('can be used inside other schemas', () => {
+    const response = { deleted: [{ id: 1 }, { id: 2 }] };
+
+    expect(normalize(response, { deleted: [new schema.Invalidate(article)] })).toEqual({
+      entities: { articles: { 1: INVALIDATED, 2: INVALIDATED } },
+      result: { deleted: [1, 2] },
+    });
+  });
+
+  test('reports invalidated entities as removed', () => {
+    const store = { articles: { 5: { id: 5 }, 6: INVALIDATED } };
+
+    const { changes } = normalizeInto(store, [{ id: 5 }, { id: 6 }, { id: 7 }], [new schema.Invalidate(article)], {
+      changes: true,
+    });
+
+    expect(changes).toEqual({ articles: { added: [], updated: {}, unchanged: [6], removed: [5, 7] } });
+  });
+});
+
+describe(`${schema.Invalidate.name} denormalization`, () => {
+  const user = new schema.Entity('users');
+  const article = new schema.Entity('articles', { author: user });
+
+  const entities = {
+    articles: {
+      1: { id: 1, author: 8 },
+      2: INVALIDATED,
+      3: { id: 3, author: 9 },
+    },
+    users: {
+      8: INVALIDATED,
+      9: { id: 9, name: 'Grace' },
+    },
+  };
+
+  test('returns undefined for invalidated entities', () => {
+    expect(denormalize(2, article, entities)).toBeUndefined();
+    expect(denormalize(2, new schema.Invalidate(article), entities)).toBeUndefined();
+    expect(denormalize(3, new schema.Invalidate(article), entities)).toEqual({
+      id: 3,
+      author: { id: 9, name: 'Grace' },
+    });
+  });
+
+  test('treats invalidated nested entities as missing', () => {
+    expect(denormalize(1, article, entities)).toEqual({ id: 1, author: undefined });
+  });
+
+  test('does not use the fallback strategy for invalidated entities', () => {
+    const withFallback = new schema.Entity('articles', {}, { fallbackStrategy: (id) => ({ id, title: 'Unknown' }) });
+
+    expect(denormalize(2, withFallback, entities)).toBeUndefined();
+    expect(denormalize(4, withFallback, entities)).toEqual({ id: 4, title: 'Unknown' });
+  });
+
+  test('drops references to invalidated entities from arrays and values', () => {
+    expect(denormalize([1, 2, 3], [article], entities)).toHaveLength(2);
+    expect(denormalize([2, 3], new schema.Array(article), entities)).toEqual([
+      { id: 3, author: { id: 9, name: 'Grace' } },
+    ]);
+    expect(denormalize({ a: 2, b: 3 }, new schema.Values(article), entities)).toEqual({
+      b: { id: 3, author: { id: 9, name: 'Grace' } },
+    });
+  });
+
+  test('treats invalidated entities as missing in objects and unions', () => {
+    const union = new schema.Union({ articles: article }, 'type');
+
+    expect(denormalize({ featured: 2 }, { featured: article }, entities)).toEqual({ featured: undefined });
+    expect(denormalize({ id: 2, schema: 'articles' }, union, entities)).toBeUndefined();
+  });
+
+  test('treats invalidated entities as missing with lazy denormalization', () => {
+    const result = denormalize([1, 2], [article], entities, { createUnvisit: createLazyUnvisit }) as Array<{
+      author: unknown;
+    }>;
+
+    expect(result).toHaveLength(1);
+    expect(result[0].author).toBeUndefined();
+  });
+
+  test('recognizes tombstones of serialized stores', () => {
+    const { entities: normalized } = normalize({ id: 5 }, new schema.Invalidate(article));
+    const hydrated = JSON.parse(JSON.stringify(normalized));
+
+    expect(isInvalidated(hydrated.articles[5])).toBe(true);
+    expect(denormalize(5, article, hydrated)).toBeUndefined();
+    expect(denormalize([5], [article], hydrated)).toEqual([]);
+  });
+});
@@ -0,0 +1,116 @@
+import { describe, test, expect } from 'vitest';
+import { denormalize, normalize, normalizeInto, schema, InvalidInputError } from '../../src/index.js';
+
+describe(`${schema.Map.name} normalization`, () => {
+  const user = new schema.Entity('users');
+  const usersByRole = new schema.Map(user);
+
+  test('normalizes the values of a Map into entries', () => {
+    expect(
+      normalize(
+        new Map([
+          ['owner', { id: '1', name: 'Ada' }],
+          ['editor', { id: '2', name: 'Grace' }],
+        ]),
+        usersByRole,
+      ),
+    ).toEqual({
+      entities: {
+        users: { 1: { id: '1', name: 'Ada' }, 2: { id: '2', name: 'Grace' } },
+      },
+      result: [
+        ['owner', '1'],
+        ['editor', '2'],
+      ],
+    });
+  });
+
+  test('keeps keys that are not strings', () => {
+    expect(normalize(new Map([[7, { id: '1' }]]), usersByRole).result).toEqual([[7, '1']]);
+  });
+
+  test('normalizes plain objects', () => {
+    expect(normalize({ owner: { id: '1' } }, new schema.Map(user, { native: false })).result).toEqual([['owner', '1']]);
+  });
+
+  test('normalizes polymorphic values', () => {
+    const group = new schema.Entity('groups');
+    const members = new schema.Map(new schema.Union({ users: user, groups: group }, 'type'));
+
+    expect(normalize(new Map([['a', { id: '1', type: 'groups' }]]), members).result).toEqual([
+      ['a', { id: '1', schema: 'groups' }],
+    ]);
+  });
+
+  test('leaves out missing and skipped values', () => {
+    const draft = new schema.Entity('drafts', {}, { missingIdStrategy: 'skip' });
+
+    const { result } = normalize(
+      // @ts-expect-error - testing runtime behavior
+      new Map([
+        ['a', { id: '1' }],
+        ['b', null],
+        ['c', { title: 'Untitled' }],
+      ]),
+      new schema.Map(draft),
+    );
+
+    expect(result).toEqual([['a', '1']]);
+  });
+
+  test('reports the key of invalid values', () => {
+    // @ts-expect-error - testing runtime error
+    expect(() => normalize(new Map([['owner', []]]), usersByRole)).toThrow(
+      'Expected an object for entity "users", but received an array. (at $.owner)',
+    );
+  });
+
+  test('throws for values that are neither Maps nor objects', () => {
+    // @ts-expect-error - testing runtime error
+    expect(() => normalize([{ id: '1' }], usersByRole)).toThrow(InvalidInputError);
+  });
+});
+
+describe(`${schema.Map.name} denormalization`, () => {
+  const user = new schema.Entity('users');
+  const entities = { users: { 1: { id: '1', name: 'Ada' }, 2: { id: '2', name: 'Grace' } } };
+
+  test('denormalizes entries into a Map', () => {
+    expect(
+      denormalize(
+        [
+          [7, '1'],
+          ['editor', '2'],
+        ],
+        new schema.Map(user),
+        entities,
+      ),
+    ).toEqual(
+      new Map<unknown, unknown>([
+        [7, { id: '1', name: 'Ada' }],
+        ['editor', { id: '2', name: 'Grace' }],
+      ]),
+    );
+  });
+
+  test('denormalizes entries into a plain object when not native', () => {
+    expect(denormalize([[7, '1']], new schema.Map(user, { native: false }), entities)).toEqual({
+      7: { id: '1', name: 'Ada' },
+    });
+  });
+
+  test('leaves out entries whose value was invalidated', () => {
+    const { entities: updated } = normalizeInto(entities, { id: '1' }, new schema.Invalidate(user));
+
+    expect(
+      denormalize(
+        [
+          ['a', '1'],
+          ['b', '2'],
+        ],
+        new schema.Map(user),
+        updated,
+      ),
+    ).toEqual(new Map([['b', { id: '2', name: 'Grace' }]]));
+  });
+});
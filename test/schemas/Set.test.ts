@@ -0,0 +1,80 @@
+import { describe, test, expect } from 'vitest';
+import { denormalize, normalize, normalizeInto, schema, InvalidInputError } from '../../src/index.js';
+
+describe(`${schema.Set.name} normalization`, () => {
+  const tag = new schema.Entity('tags');
+  const tags = new schema.Set(tag);
+
+  test('normalizes the items of a Set into an array', () => {
+    expect(
+      normalize(
+        new Set([
+          { id: 'ts', label: 'TypeScript' },
+          { id: 'js', label: 'JavaScript' },
+        ]),
+        tags,
+      ),
+    ).toEqual({
+      entities: {
+        tags: { ts: { id: 'ts', label: 'TypeScript' }, js: { id: 'js', label: 'JavaScript' } },
+      },
+      result: ['ts', 'js'],
+    });
+  });
+
+  test('normalizes arrays, leaving out items with the same ID', () => {
+    expect(
+      normalize([{ id: 'ts' }, { id: 'js' }, { id: 'ts' }], new schema.Set(tag, { native: false })).result,
+    ).toEqual(['ts', 'js']);
+  });
+
+  test('normalizes sets nested in entities', () => {
+    const post = new schema.Entity('posts', { tags });
+
+    const { entities } = normalize({ id: '1', tags: new Set([{ id: 'ts' }]) }, post);
+
+    expect(entities.posts).toEqual({ 1: { id: '1', tags: ['ts'] } });
+  });
+
+  test('leaves out missing and skipped items', () => {
+    const draft = new schema.Entity('drafts', {}, { missingIdStrategy: 'skip' });
+
+    // @ts-expect-error - testing runtime behavior
+    const { result } = normalize(new Set([{ id: '1' }, null, { title: 'Untitled' }]), new schema.Set(draft));
+
+    expect(result).toEqual(['1']);
+  });
+
+  test('throws for values that are neither Sets nor arrays', () => {
+    // @ts-expect-error - testing runtime error
+    expect(() => normalize({ id: 'ts' }, tags)).toThrow(InvalidInputError);
+  });
+});
+
+describe(`${schema.Set.name} denormalization`, () => {
+  const tag = new schema.Entity('tags');
+  const entities = { tags: { ts: { id: 'ts', label: 'TypeScript' }, js: { id: 'js', label: 'JavaScript' } } };
+
+  test('denormalizes items into a Set', () => {
+    expect(denormalize(['ts', 'js'], new schema.Set(tag), entities)).toEqual(
+      new Set([
+        { id: 'ts', label: 'TypeScript' },
+        { id: 'js', label: 'JavaScript' },
+      ]),
+    );
+  });
+
+  test('denormalizes items into an array when not native', () => {
+    expect(denormalize(['ts'], new schema.Set(tag, { native: false }), entities)).toEqual([
+      { id: 'ts', label: 'TypeScript' },
+    ]);
+  });
+
+  test('leaves out items that were invalidated', () => {
+    const { entities: updated } = normalizeInto(entities, { id: 'ts' }, new schema.Invalidate(tag));
+
+    expect(denormalize(['ts', 'js'], new schema.Set(tag), updated)).toEqual(
+      new Set([{ id: 'js', label: 'JavaScript' }]),
+    );
+  });
+});
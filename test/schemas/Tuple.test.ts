@@ -0,0 +1,79 @@
+import { describe, test, expect } from 'vitest';
+import {
+  denormalize,
+  normalize,
+  normalizeInto,
+  schema,
+  InvalidInputError,
+  InvalidSchemaError,
+} from '../../src/index.js';
+
+describe(`${schema.Tuple.name} normalization`, () => {
+  const user = new schema.Entity('users');
+  const team = new schema.Entity('teams');
+  const session = new schema.Tuple([user, null, team]);
+
+  test('normalizes each position with its own schema', () => {
+    expect(normalize([{ id: '1', name: 'Ada' }, ['admin'], { id: '7', name: 'Core' }], session)).toEqual({
+      entities: {
+        users: { 1: { id: '1', name: 'Ada' } },
+        teams: { 7: { id: '7', name: 'Core' } },
+      },
+      result: ['1', ['admin'], '7'],
+    });
+  });
+
+  test('normalizes array and nested schemas at a position', () => {
+    const members = new schema.Tuple([team, [user]]);
+
+    expect(normalize([{ id: '7' }, [{ id: '1' }, { id: '2' }]], members).result).toEqual(['7', ['1', '2']]);
+  });
+
+  test('keeps positions past the end of the definition as is', () => {
+    const pair = new schema.Tuple([user]);
+
+    // @ts-expect-error - testing runtime behavior
+    expect(normalize([{ id: '1' }, { id: '2' }], pair).result).toEqual(['1', { id: '2' }]);
+  });
+
+  test('reports the position of invalid values', () => {
+    // @ts-expect-error - testing runtime error
+    expect(() => normalize([{ id: '1' }, null, []], session)).toThrow(
+      'Expected an object for entity "teams", but received an array. (at $[2])',
+    );
+  });
+
+  test('throws for values that are not arrays', () => {
+    // @ts-expect-error - testing runtime error
+    expect(() => normalize({ user: { id: '1' } }, session)).toThrow(InvalidInputError);
+  });
+
+  test('throws for definitions that are not arrays', () => {
+    // @ts-expect-error - testing runtime error
+    expect(() => new schema.Tuple(user)).toThrow(InvalidSchemaError);
+  });
+});
+
+describe(`${schema.Tuple.name} denormalization`, () => {
+  const user = new schema.Entity('users');
+  const team = new schema.Entity('teams');
+  const session = new schema.Tuple([user, null, team]);
+  const entities = {
+    users: { 1: { id: '1', name: 'Ada' } },
+    teams: { 7: { id: '7', name: 'Core' } },
+  };
+
+  test('denormalizes each position with its own schema', () => {
+    expect(denormalize(['1', ['admin'], '7'], session, entities)).toEqual([
+      { id: '1', name: 'Ada' },
+      ['admin'],
+      { id: '7', name: 'Core' },
+    ]);
+  });
+
+  test('treats invalidated entities as missing, keeping the other positions', () => {
+    const { entities: updated } = normalizeInto(entities, { id: '1' }, new schema.Invalidate(user));
+
+    expect(denormalize(['1', [], '7'], session, updated)).toEqual([undefined, [], { id: '7', name: 'Core' }]);
+  });
+});
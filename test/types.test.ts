@@ -17,6 +17,7 @@ import {
   IdType,
   UnionToIntersection,
   SchemaFunction,
+  StandardSchemaV1,
 } from '../src/index.js';
 
 // =============================================================================
@@ -258,6 +259,124 @@ describe('EntitySchema.as<T>()', () => {
   });
 });
 
+describe('Entity validator option', () => {
+  // A minimal Standard Schema validator, as returned by Zod, Valibot or ArkType
+  const validator = <T>(): StandardSchemaV1<unknown, T> => ({
+    '~standard': { version: 1, vendor: 'test', validate: (value) => ({ value: value as T }) },
+  });
+
+  it("infers TData from the validator's output type", () => {
+    const userSchema = new schema.Entity('users', {}, { validator: validator<{ id: string; email: string }>() });
+
+    expectTypeOf<Denormalized<typeof userSchema>>().toEqualTypeOf<{ id: string; email: string }>();
+    expectTypeOf(userSchema.key).toEqualTypeOf<'users'>();
+  });
+
+  it('infers TData alongside a definition and other options', () => {
+    const articleSchema = new schema.Entity(
+      'articles',
+      { author: typedUserSchema },
+      { idAttribute: 'slug', validator: validator<{ slug: string; title: string }>() },
+    );
+
+    expectTypeOf<Denormalized<typeof articleSchema>>().toEqualTypeOf<{ slug: string; title: string }>();
+    expectTypeOf<typeof articleSchema.schema>().toHaveProperty('author');
+  });
+});
+
+describe('Collection schema', () => {
+  const feedSchema = new schema.Collection(typedArticleSchema, {
+    key: 'feeds',
+    getCollectionKey: (args: { tag: string }) => args.tag,
+  });
+
+  it('infers the page of items as the denormalized type', () => {
+    expectTypeOf<Denormalized<typeof feedSchema>['items']>().toEqualTypeOf<Article[]>();
+    expectTypeOf<Denormalized<typeof feedSchema>['args']>().toEqualTypeOf<{ tag: string } | undefined>();
+  });
+
+  it('infers the collection key as the normalized type', () => {
+    expectTypeOf<Normalized<typeof feedSchema>>().toEqualTypeOf<string>();
+  });
+
+  it('collects the collections table and the entities of the items', () => {
+    type Entities = AllEntitiesOf<typeof feedSchema>;
+
+    expectTypeOf<keyof Entities>().toEqualTypeOf<'feeds' | 'articles' | 'users' | 'comments'>();
+  });
+
+  it('types the query args of pages', () => {
+    // @ts-expect-error - the query args must match getCollectionKey
+    feedSchema.page({ author: '1' });
+    expectTypeOf(feedSchema.page({ tag: 'js' })).toEqualTypeOf<typeof feedSchema>();
+  });
+});
+
+describe('Connection schema', () => {
+  const friendsSchema = new schema.Connection(typedUserSchema);
+
+  it('infers the nodes of the edges', () => {
+    expectTypeOf<Denormalized<typeof friendsSchema>['edges'][number]['node']>().toEqualTypeOf<User>();
+    expectTypeOf<Normalized<typeof friendsSchema>['edges'][number]['node']>().toEqualTypeOf<IdType>();
+  });
+});
+
+describe('Tuple schema', () => {
+  const teamSchema = new schema.Entity('teams').as<{ id: string; name: string }>();
+  const sessionSchema = new schema.Tuple([typedUserSchema, null, teamSchema]);
+
+  it('infers a tuple type for each position', () => {
+    expectTypeOf<Denormalized<typeof sessionSchema>>().toEqualTypeOf<[User, unknown, { id: string; name: string }]>();
+    expectTypeOf<Normalized<typeof sessionSchema>>().toEqualTypeOf<[IdType, unknown, IdType]>();
+  });
+
+  it('infers nested schemas at a position', () => {
+    const membersSchema = new schema.Tuple([teamSchema, [typedUserSchema]]);
+
+    expectTypeOf<Normalized<typeof membersSchema>>().toEqualTypeOf<[IdType, IdType[]]>();
+  });
+
+  it('types the input and result of normalize()', () => {
+    const { result } = normalize(
+      [{ id: '1', name: 'Ada', email: 'ada@example.com' }, 'admin', { id: '7', name: 'Core' }],
+      sessionSchema,
+    );
+
+    expectTypeOf(result).toEqualTypeOf<[IdType, unknown, IdType]>();
+  });
+});
+
+describe('Map and Set schemas', () => {
+  const tagSchema = new schema.Entity('tags').as<{ id: string; label: string }>();
+
+  it('denormalizes into a Map or Set by default', () => {
+    const usersSchema = new schema.Map(typedUserSchema);
+    const tagsSchema = new schema.Set(tagSchema);
+
+    expectTypeOf<Denormalized<typeof usersSchema>>().toEqualTypeOf<Map<unknown, User>>();
+    expectTypeOf<Normalized<typeof usersSchema>>().toEqualTypeOf<Array<[unknown, IdType]>>();
+    expectTypeOf<Denormalized<typeof tagsSchema>>().toEqualTypeOf<Set<{ id: string; label: string }>>();
+    expectTypeOf<Normalized<typeof tagsSchema>>().toEqualTypeOf<IdType[]>();
+  });
+
+  it('denormalizes into plain objects and arrays when not native', () => {
+    const usersSchema = new schema.Map(typedUserSchema, { native: false });
+    const tagsSchema = new schema.Set(tagSchema, { native: false });
+
+    expectTypeOf<Denormalized<typeof usersSchema>>().toEqualTypeOf<Record<string, User>>();
+    expectTypeOf<Denormalized<typeof tagsSchema>>().toEqualTypeOf<Array<{ id: string; label: string }>>();
+  });
+
+  it('types the input and result of normalize()', () => {
+    const { result } = normalize(
+      new Map([['owner', { id: '1', name: 'Ada', email: 'ada@example.com' }]]),
+      new schema.Map(typedUserSchema),
+    );
+
+    expectTypeOf(result).toEqualTypeOf<Array<[unknown, IdType]>>();
+  });
+});
+
 // =============================================================================
 // Integration Tests: normalize() return type
 // =============================================================================